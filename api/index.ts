@@ -1,574 +1,85 @@
 import express, { Request, Response } from "express";
 import cors from "cors";
+import { CreatorDBClient } from "../lib/client.js";
+import { createApiRouter } from "../lib/api-router.js";
+import {
+  captureRawBody,
+  corsOriginsFromEnv,
+  createAuthMiddleware,
+  loadAuthConfig,
+} from "../lib/auth.js";
+import { createCacheStoreFromEnv } from "../lib/cache.js";
+import { createBudgetGuardFromEnv } from "../lib/budget.js";
+import {
+  createAuthFailureLimiter,
+  createConcurrencyLimiter,
+  createRateLimitMiddleware,
+  createRateLimitStoreFromEnv,
+  loadRateLimitConfig,
+  trustProxyFromEnv,
+} from "../lib/rate-limit.js";
+// Import attributes need Node 20.10+, the floor set by "engines" in package.json
+import openApiSpec from "../openapi.json" with { type: "json" };
 
 const app = express();
-app.use(cors());
-app.use(express.json());
-
-const API_BASE_URL = "https://apiv3.creatordb.app";
-const API_KEY = process.env.CREATORDB_API_KEY;
-
-interface SearchFilter {
-  filterName: string;
-  op: "in" | ">" | "=" | "<";
-  value: string | number | string[] | boolean;
-  isFuzzySearch?: boolean;
-}
-
-interface SearchRequest {
-  filters: SearchFilter[];
-  pageSize: number;
-  offset: number;
-  sortBy?: string;
-  desc?: boolean;
-}
-
-class ApiError extends Error {
-  status: number;
-  constructor(message: string, status: number) {
-    super(message);
-    this.status = status;
-  }
-}
-
-function sanitizeId(id: string): string {
-  return encodeURIComponent(id.replace(/^@/, ""));
-}
-
-async function makeApiRequest<T = unknown>(
-  endpoint: string,
-  method: "GET" | "POST" = "GET",
-  body?: unknown
-): Promise<T> {
-  if (!API_KEY) {
-    throw new ApiError("CREATORDB_API_KEY environment variable is required", 500);
-  }
-
-  const url = `${API_BASE_URL}${endpoint}`;
-
-  const options: RequestInit = {
-    method,
-    headers: {
-      "Content-Type": "application/json",
-      "api-key": API_KEY,
-    },
-  };
-
-  if (body && method === "POST") {
-    options.body = JSON.stringify(body);
-  }
-
-  const response = await fetch(url, options);
-  const data = await response.json();
-
-  if (!response.ok || data.success === false) {
-    throw new ApiError(
-      data.errorDescription || data.message || `API Error: ${response.status}`,
-      response.status
-    );
-  }
-
-  return data as T;
-}
-
-function handleError(error: unknown, res: Response) {
-  if (error instanceof ApiError) {
-    res.status(error.status).json({ success: false, error: error.message });
-  } else {
-    res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
-  }
-}
-
-app.get("/api/usage", async (req: Request, res: Response) => {
-  try {
-    const params = new URLSearchParams();
-    if (req.query.start) params.append("start", String(req.query.start));
-    if (req.query.end) params.append("end", String(req.query.end));
-    const queryString = params.toString();
-    const result = await makeApiRequest(`/usage${queryString ? `?${queryString}` : ""}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/profile", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/profile?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/contact", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/contact?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/content-detail", async (req: Request, res: Response) => {
-  try {
-    const { contentId } = req.query;
-    if (!contentId) return res.status(400).json({ success: false, error: "contentId is required" });
-    const result = await makeApiRequest(`/instagram/content-detail?contentId=${encodeURIComponent(String(contentId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/performance", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/performance?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/performance-history", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/performance-history?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/sponsorship", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/sponsorship?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/audience", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/audience?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/instagram/search", async (req: Request, res: Response) => {
-  try {
-    const { filters, pageSize = 20, offset = 0, sortBy, desc = true } = req.body;
-    if (!filters) return res.status(400).json({ success: false, error: "filters is required" });
-    const searchBody: SearchRequest = { filters, pageSize, offset };
-    if (sortBy) searchBody.sortBy = sortBy;
-    if (desc !== undefined) searchBody.desc = desc;
-    const result = await makeApiRequest("/instagram/search", "POST", searchBody);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/instagram/natural-language-search", async (req: Request, res: Response) => {
-  try {
-    const { query, pageSize = 20, offset = 0 } = req.body;
-    if (!query) return res.status(400).json({ success: false, error: "query is required" });
-    const result = await makeApiRequest("/instagram/nls", "POST", { query, pageSize, offset });
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/niches", async (_req: Request, res: Response) => {
-  try {
-    const result = await makeApiRequest("/instagram/niches");
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/profile", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/profile?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/youtube/search", async (req: Request, res: Response) => {
-  try {
-    const { filters, pageSize = 20, offset = 0, sortBy, desc = true } = req.body;
-    if (!filters) return res.status(400).json({ success: false, error: "filters is required" });
-    const searchBody: SearchRequest = { filters, pageSize, offset };
-    if (sortBy) searchBody.sortBy = sortBy;
-    if (desc !== undefined) searchBody.desc = desc;
-    const result = await makeApiRequest("/youtube/search", "POST", searchBody);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/performance", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/performance?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/performance-history", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/performance-history?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/content-detail", async (req: Request, res: Response) => {
-  try {
-    const { contentId } = req.query;
-    if (!contentId) return res.status(400).json({ success: false, error: "contentId is required" });
-    const result = await makeApiRequest(`/youtube/content-detail?contentId=${encodeURIComponent(String(contentId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/sponsorship", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/sponsorship?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/contact", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/contact?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/audience", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/audience?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/youtube/natural-language-search", async (req: Request, res: Response) => {
-  try {
-    const { query, pageSize = 20, offset = 0 } = req.body;
-    if (!query) return res.status(400).json({ success: false, error: "query is required" });
-    const result = await makeApiRequest("/youtube/nls", "POST", { query, pageSize, offset });
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/topics", async (_req: Request, res: Response) => {
-  try {
-    const result = await makeApiRequest("/youtube/topics");
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/niches", async (_req: Request, res: Response) => {
-  try {
-    const result = await makeApiRequest("/youtube/niches");
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/profile", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/tiktok/profile?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/tiktok/search", async (req: Request, res: Response) => {
-  try {
-    const { filters, pageSize = 20, offset = 0, sortBy, desc = true } = req.body;
-    if (!filters) return res.status(400).json({ success: false, error: "filters is required" });
-    const searchBody: SearchRequest = { filters, pageSize, offset };
-    if (sortBy) searchBody.sortBy = sortBy;
-    if (desc !== undefined) searchBody.desc = desc;
-    const result = await makeApiRequest("/tiktok/search", "POST", searchBody);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/contact", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/tiktok/contact?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/performance", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/tiktok/performance?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/performance-history", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/tiktok/performance-history?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/content-detail", async (req: Request, res: Response) => {
-  try {
-    const { contentId } = req.query;
-    if (!contentId) return res.status(400).json({ success: false, error: "contentId is required" });
-    const result = await makeApiRequest(`/tiktok/content-detail?contentId=${encodeURIComponent(String(contentId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/audience", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/tiktok/audience?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/tiktok/natural-language-search", async (req: Request, res: Response) => {
-  try {
-    const { query, pageSize = 20, offset = 0 } = req.body;
-    if (!query) return res.status(400).json({ success: false, error: "query is required" });
-    const result = await makeApiRequest("/tiktok/nls", "POST", { query, pageSize, offset });
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/niches", async (_req: Request, res: Response) => {
-  try {
-    const result = await makeApiRequest("/tiktok/niches");
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/openapi.json", (_req: Request, res: Response) => {
-  const openApiSpec = {
-    "openapi": "3.1.0",
-    "info": {
-      "title": "CreatorDB API",
-      "description": "HTTP API wrapper for CreatorDB - Influencer Marketing Data across Instagram, YouTube, and TikTok",
-      "version": "1.0.0"
-    },
-    "servers": [
-      {
-        "url": "https://your-app.vercel.app",
-        "description": "Production server"
-      }
-    ],
-    "paths": {
-      "/api/usage": {
-        "get": {
-          "operationId": "getApiUsage",
-          "summary": "Get API usage statistics",
-          "parameters": [
-            {"name": "start", "in": "query", "schema": {"type": "string"}, "description": "Start date"},
-            {"name": "end", "in": "query", "schema": {"type": "string"}, "description": "End date"}
-          ],
-          "responses": {"200": {"description": "API usage data"}}
-        }
-      },
-      "/api/instagram/profile": {
-        "get": {
-          "operationId": "getInstagramProfile",
-          "summary": "Get Instagram creator profile",
-          "parameters": [{"name": "uniqueId", "in": "query", "required": true, "schema": {"type": "string"}, "description": "Instagram username"}],
-          "responses": {"200": {"description": "Profile data"}}
-        }
-      },
-      "/api/instagram/contact": {
-        "get": {
-          "operationId": "getInstagramContact",
-          "summary": "Get Instagram creator contact info",
-          "parameters": [{"name": "uniqueId", "in": "query", "required": true, "schema": {"type": "string"}}],
-          "responses": {"200": {"description": "Contact data"}}
-        }
-      },
-      "/api/instagram/performance": {
-        "get": {
-          "operationId": "getInstagramPerformance",
-          "summary": "Get Instagram creator performance metrics",
-          "parameters": [{"name": "uniqueId", "in": "query", "required": true, "schema": {"type": "string"}}],
-          "responses": {"200": {"description": "Performance data"}}
-        }
-      },
-      "/api/instagram/audience": {
-        "get": {
-          "operationId": "getInstagramAudience",
-          "summary": "Get Instagram creator audience demographics",
-          "parameters": [{"name": "uniqueId", "in": "query", "required": true, "schema": {"type": "string"}}],
-          "responses": {"200": {"description": "Audience data"}}
-        }
-      },
-      "/api/instagram/natural-language-search": {
-        "post": {
-          "operationId": "instagramNaturalLanguageSearch",
-          "summary": "Search Instagram creators using natural language",
-          "requestBody": {
-            "required": true,
-            "content": {
-              "application/json": {
-                "schema": {
-                  "type": "object",
-                  "required": ["query"],
-                  "properties": {
-                    "query": {"type": "string", "description": "Natural language search query"},
-                    "pageSize": {"type": "integer", "default": 20},
-                    "offset": {"type": "integer", "default": 0}
-                  }
-                }
-              }
-            }
-          },
-          "responses": {"200": {"description": "Search results"}}
-        }
-      },
-      "/api/youtube/profile": {
-        "get": {
-          "operationId": "getYoutubeProfile",
-          "summary": "Get YouTube channel profile",
-          "parameters": [{"name": "channelId", "in": "query", "required": true, "schema": {"type": "string"}}],
-          "responses": {"200": {"description": "Profile data"}}
-        }
-      },
-      "/api/youtube/natural-language-search": {
-        "post": {
-          "operationId": "youtubeNaturalLanguageSearch",
-          "summary": "Search YouTube creators using natural language",
-          "requestBody": {
-            "required": true,
-            "content": {
-              "application/json": {
-                "schema": {
-                  "type": "object",
-                  "required": ["query"],
-                  "properties": {
-                    "query": {"type": "string"},
-                    "pageSize": {"type": "integer", "default": 20},
-                    "offset": {"type": "integer", "default": 0}
-                  }
-                }
-              }
-            }
-          },
-          "responses": {"200": {"description": "Search results"}}
-        }
-      },
-      "/api/tiktok/profile": {
-        "get": {
-          "operationId": "getTiktokProfile",
-          "summary": "Get TikTok creator profile",
-          "parameters": [{"name": "uniqueId", "in": "query", "required": true, "schema": {"type": "string"}}],
-          "responses": {"200": {"description": "Profile data"}}
-        }
-      },
-      "/api/tiktok/natural-language-search": {
-        "post": {
-          "operationId": "tiktokNaturalLanguageSearch",
-          "summary": "Search TikTok creators using natural language",
-          "requestBody": {
-            "required": true,
-            "content": {
-              "application/json": {
-                "schema": {
-                  "type": "object",
-                  "required": ["query"],
-                  "properties": {
-                    "query": {"type": "string"},
-                    "pageSize": {"type": "integer", "default": 20},
-                    "offset": {"type": "integer", "default": 0}
-                  }
-                }
-              }
-            }
-          },
-          "responses": {"200": {"description": "Search results"}}
-        }
-      }
-    }
-  };
-  res.json(openApiSpec);
+// Behind a proxy, req.ip (used for per-IP rate limits) comes from X-Forwarded-For
+app.set("trust proxy", trustProxyFromEnv());
+app.use(cors({ origin: corsOriginsFromEnv() }));
+app.use(express.json({ verify: captureRawBody }));
+
+const cacheStore = await createCacheStoreFromEnv();
+const rateLimits = loadRateLimitConfig();
+const rateLimitStore = await createRateLimitStoreFromEnv();
+// One cap on upstream requests in flight, shared by the clients for every CreatorDB key
+const concurrency = createConcurrencyLimiter(rateLimits);
+const client = new CreatorDBClient({
+  cache: cacheStore,
+  budget: createBudgetGuardFromEnv(),
+  concurrency,
+});
+
+// Addresses that keep failing authentication are refused before their credentials are checked
+app.use("/api", createAuthFailureLimiter(rateLimits, rateLimitStore));
+
+// Every /api route needs a configured client once CREATORDB_CLIENTS is set. Requests on
+// another CreatorDB key get their own cache entries and skip the server's request budget.
+app.use(
+  "/api",
+  createAuthMiddleware(
+    loadAuthConfig(),
+    client,
+    (apiKey) => new CreatorDBClient({ apiKey, cache: cacheStore, concurrency })
+  )
+);
+
+// Token buckets per client and route family (CREATORDB_RATE_LIMITS). Each function
+// instance has its own memory, so set CREATORDB_RATE_LIMIT_STORE=redis to share buckets.
+app.use("/api", createRateLimitMiddleware(rateLimits, rateLimitStore));
+
+// The same routes as server.ts, minus monitoring. Identity, campaign and watchlist stores
+// wouldn't outlive the function instance, so their routes answer 501.
+app.use("/api", createApiRouter({ client }));
+
+// The spec generated by `npm run openapi`, minus the monitoring, stored-identity,
+// campaign and watchlist routes that only the long-running server.ts has, pointed at
+// whichever deployment serves it
+const SERVER_ONLY_PATHS = new Set([
+  "/api/monitor",
+  "/api/monitor/run",
+  "/api/alerts",
+  "/api/creators/resolve",
+]);
+const SERVER_ONLY_PREFIXES = ["/api/campaigns", "/api/watchlist"];
+const paths = Object.fromEntries(
+  Object.entries(openApiSpec.paths).filter(
+    ([path]) =>
+      !SERVER_ONLY_PATHS.has(path) &&
+      !SERVER_ONLY_PREFIXES.some((prefix) => path === prefix || path.startsWith(`${prefix}/`))
+  )
+);
+
+app.get("/openapi.json", (req: Request, res: Response) => {
+  res.json({ ...openApiSpec, servers: [{ url: `https://${req.get("host")}` }], paths });
 });
 
 app.get("/", (_req: Request, res: Response) => {
@@ -4,79 +4,122 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
+import {
+  ApiError,
+  CallOptions,
+  CreatorDBClient,
+  PLATFORMS,
+  buildNaturalLanguageSearchRequest,
+  buildSearchRequest,
+  isPlatform,
+  toErrorResponse,
+} from "./lib/client.js";
+import { analyzeCreatorGrowth } from "./lib/analytics.js";
+import { audienceFitScore } from "./lib/audience.js";
+import { loadAuthConfig } from "./lib/auth.js";
+import {
+  CREATOR_STATUSES,
+  addCampaignCreators,
+  createCampaign,
+  createCampaignStoreFromEnv,
+  deleteCampaign,
+  getCampaign,
+  listCampaigns,
+  removeCampaignCreators,
+  updateCampaignCreator,
+} from "./lib/campaigns.js";
+import { createAlertStoreFromEnv, parseAlertFilter } from "./lib/alerts.js";
+import {
+  createWatchlistStoreFromEnv,
+  diffCreatorSnapshots,
+  listCreatorSnapshots,
+  runWatchlistSnapshots,
+  unwatchCreators,
+  watchCreators,
+} from "./lib/watchlist.js";
+import { bulkGetCreators, parseBulkIds } from "./lib/bulk.js";
+import { createCacheStoreFromEnv, isCacheMode } from "./lib/cache.js";
+import { compareCreators, parseComparisonCreators } from "./lib/compare.js";
+import {
+  checkBrandConflicts,
+  parseBrand,
+  parseCompetitors,
+  parseContentIds,
+} from "./lib/conflicts.js";
+import { exportResults } from "./lib/export.js";
+import { getFilterCatalog } from "./lib/filters.js";
+import { budgetStatus, createBudgetGuardFromEnv } from "./lib/budget.js";
+import { sessionIdleMsFromEnv, startHttpTransport } from "./lib/mcp-http.js";
+import { confirmAndResolveIdentity, createIdentityStoreFromEnv } from "./lib/identity.js";
+import {
+  naturalLanguageSearchCreators,
+  paginationOptions,
+  searchCreators,
+} from "./lib/pagination.js";
+import { getPrompt, prompts } from "./lib/prompts.js";
+import { withSearchQuery } from "./lib/query.js";
+import { estimateCreatorRate, parseDeliverables } from "./lib/rates.js";
+import { getCreatorReport, parseReportSections } from "./lib/report.js";
+import { readResource, resources, resourceTemplates } from "./lib/resources.js";
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const API_BASE_URL = "https://apiv3.creatordb.app";
-const API_KEY = process.env.CREATORDB_API_KEY;
-
-if (!API_KEY) {
+if (!process.env.CREATORDB_API_KEY) {
   console.error("Error: CREATORDB_API_KEY environment variable is required");
   process.exit(1);
 }
 
-// =============================================================================
-// Types
-// =============================================================================
-
-interface SearchFilter {
-  filterName: string;
-  op: "in" | ">" | "=" | "<";
-  value: string | number | string[] | boolean;
-  isFuzzySearch?: boolean;
-}
-
-interface SearchRequest {
-  filters: SearchFilter[];
-  pageSize: number;
-  offset: number;
-  sortBy?: string;
-  desc?: boolean;
-}
+const client = new CreatorDBClient({
+  cache: await createCacheStoreFromEnv(),
+  budget: createBudgetGuardFromEnv(),
+});
+const identityStore = await createIdentityStoreFromEnv();
+const campaignStore = await createCampaignStoreFromEnv();
+const watchlistStore = await createWatchlistStoreFromEnv();
+const alertStore = await createAlertStoreFromEnv();
 
 // =============================================================================
-// API Client
+// Tool Definitions - Based on CreatorDB OpenAPI V3 Spec
 // =============================================================================
 
-async function makeApiRequest<T = unknown>(
-  endpoint: string,
-  method: "GET" | "POST" = "GET",
-  body?: Record<string, unknown>
-): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`;
-
-  const options: RequestInit = {
-    method,
-    headers: {
-      "Content-Type": "application/json",
-      "api-key": API_KEY!,
-    },
-  };
-
-  if (body && method === "POST") {
-    options.body = JSON.stringify(body);
-  }
-
-  const response = await fetch(url, options);
-  const data = await response.json();
+const cacheOption = {
+  type: "string",
+  enum: ["bypass", "refresh"],
+  description:
+    "Optional cache control. 'bypass' skips the response cache, 'refresh' re-fetches and updates it. Omit to serve cached data when available.",
+};
 
-  if (!response.ok || data.success === false) {
-    throw new Error(
-      data.errorDescription || data.message || `API Error: ${response.status}`
-    );
-  }
-
-  return data as T;
-}
+const searchQueryProperty = {
+  type: "string",
+  description:
+    "Compact filter query, e.g. 'followers>100k country in (US,CA) niche:fashion er>3% verified sort:-totalFollowers'. Numbers accept k/M/B suffixes and %. Compiled filters are appended to 'filters'; sort applies unless sortBy is set. Either 'filters' or 'query' is required.",
+};
 
-// =============================================================================
-// Tool Definitions - Based on CreatorDB OpenAPI V3 Spec
-// =============================================================================
+const paginationProperties = {
+  autoPaginate: {
+    type: "boolean",
+    description:
+      "Fetch result pages server-side, starting at 'offset', until maxResults unique creators are collected or the results run out. The response's 'pagination' reports pagesFetched, quotaConsumed and nextOffset.",
+    default: false,
+  },
+  maxResults: {
+    type: "integer",
+    description: "Creators to collect when autoPaginate is true.",
+    minimum: 1,
+    maximum: 1000,
+    default: 100,
+  },
+};
 
 const tools: Tool[] = [
   // =========================================================================
@@ -103,6 +146,32 @@ const tools: Tool[] = [
     },
   },
 
+  {
+    name: "get_budget_status",
+    description:
+      "Get the locally enforced request budget: configured daily/monthly caps per endpoint family, requests used, remaining allowance and reset times. Check this before long search loops.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+
+  {
+    name: "get_search_filters",
+    description:
+      "Get the search filter catalog: every filter name per platform with its value type, allowed operators, fuzzy support, value format and the tool that lists valid values. Searches are validated against it before spending a request (max 10 filters).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        platform: {
+          type: "string",
+          enum: ["instagram", "youtube", "tiktok"],
+          description: "Platform to describe. Omit for all three.",
+        },
+      },
+    },
+  },
+
   // =========================================================================
   // Instagram Endpoints
   // =========================================================================
@@ -214,7 +283,7 @@ const tools: Tool[] = [
   {
     name: "instagram_search",
     description:
-      "Search for Instagram creators using advanced filters. Supports filtering by displayName, follower count, engagement rate, country, language, niches, and more. Max 10 filters per request.",
+      "Search for Instagram creators using advanced filters. Supports filtering by displayName, follower count, engagement rate, country, language, niches, and more. Max 10 filters per request. Filters are validated before the request is sent; see get_search_filters for valid names, operators and value formats.",
     inputSchema: {
       type: "object",
       properties: {
@@ -248,6 +317,7 @@ const tools: Tool[] = [
             required: ["filterName", "op", "value"],
           },
         },
+        query: searchQueryProperty,
         pageSize: {
           type: "integer",
           description: "Results per page (1-100).",
@@ -271,8 +341,9 @@ const tools: Tool[] = [
           description: "Sort in descending order.",
           default: true,
         },
+        ...paginationProperties,
       },
-      required: ["filters", "pageSize", "offset"],
+      required: ["pageSize", "offset"],
     },
   },
   {
@@ -297,6 +368,7 @@ const tools: Tool[] = [
           description: "Pagination offset.",
           default: 0,
         },
+        ...paginationProperties,
       },
       required: ["query"],
     },
@@ -304,12 +376,52 @@ const tools: Tool[] = [
   {
     name: "instagram_get_niches",
     description:
-      "Get all available Instagram niches with their categories and creator counts.",
+      "Get all available Instagram niches with their categories and creator counts. Also available as the creatordb://instagram/niches resource.",
     inputSchema: {
       type: "object",
       properties: {},
     },
   },
+  {
+    name: "instagram_bulk_get_profiles",
+    description:
+      "Look up a list of Instagram creators in one call (up to 500 uniqueIds). Fetches the requested sections (default profile and performance) for each creator with bounded concurrency and returns one result per ID; a bad ID gets its own error instead of failing the batch.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uniqueIds: {
+          type: "array",
+          items: { type: "string" },
+          description: "Instagram account IDs (e.g. ['instagram', 'natgeo']).",
+          maxItems: 500,
+        },
+        sections: {
+          type: "array",
+          description:
+            "Sections to fetch per creator. Defaults to profile and performance; each section costs one request per creator.",
+          items: {
+            type: "string",
+            enum: [
+              "profile",
+              "performance",
+              "performance-history",
+              "audience",
+              "sponsorship",
+              "contact",
+            ],
+          },
+        },
+        concurrency: {
+          type: "integer",
+          description: "Creators looked up at once.",
+          minimum: 1,
+          maximum: 10,
+          default: 5,
+        },
+      },
+      required: ["uniqueIds"],
+    },
+  },
 
   // =========================================================================
   // YouTube Endpoints
@@ -333,7 +445,7 @@ const tools: Tool[] = [
   {
     name: "youtube_search",
     description:
-      "Search for YouTube creators using advanced filters including subscriber count, engagement, country, language, topics, and niches.",
+      "Search for YouTube creators using advanced filters including subscriber count, engagement, country, language, topics, and niches. Max 10 filters per request. Filters are validated before the request is sent; see get_search_filters for valid names, operators and value formats.",
     inputSchema: {
       type: "object",
       properties: {
@@ -355,12 +467,14 @@ const tools: Tool[] = [
             required: ["filterName", "op", "value"],
           },
         },
+        query: searchQueryProperty,
         pageSize: { type: "integer", minimum: 1, maximum: 100, default: 20 },
         offset: { type: "integer", minimum: 0, default: 0 },
         sortBy: { type: "string" },
         desc: { type: "boolean", default: true },
+        ...paginationProperties,
       },
-      required: ["filters", "pageSize", "offset"],
+      required: ["pageSize", "offset"],
     },
   },
   {
@@ -440,6 +554,7 @@ const tools: Tool[] = [
         query: { type: "string", description: "Natural language search query." },
         pageSize: { type: "integer", default: 20 },
         offset: { type: "integer", default: 0 },
+        ...paginationProperties,
       },
       required: ["query"],
     },
@@ -447,7 +562,7 @@ const tools: Tool[] = [
   {
     name: "youtube_get_topics",
     description:
-      "Get all available YouTube topics (content categories) with creator counts.",
+      "Get all available YouTube topics (content categories) with creator counts. Also available as the creatordb://youtube/topics resource.",
     inputSchema: {
       type: "object",
       properties: {},
@@ -455,12 +570,53 @@ const tools: Tool[] = [
   },
   {
     name: "youtube_get_niches",
-    description: "Get all available YouTube niches with categories and creator counts.",
+    description:
+      "Get all available YouTube niches with categories and creator counts. Also available as the creatordb://youtube/niches resource.",
     inputSchema: {
       type: "object",
       properties: {},
     },
   },
+  {
+    name: "youtube_bulk_get_profiles",
+    description:
+      "Look up a list of YouTube creators in one call (up to 500 channelIds). Fetches the requested sections (default profile and performance) for each creator with bounded concurrency and returns one result per ID; a bad ID gets its own error instead of failing the batch.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        channelIds: {
+          type: "array",
+          items: { type: "string" },
+          description: "YouTube channel IDs (UC...).",
+          maxItems: 500,
+        },
+        sections: {
+          type: "array",
+          description:
+            "Sections to fetch per creator. Defaults to profile and performance; each section costs one request per creator.",
+          items: {
+            type: "string",
+            enum: [
+              "profile",
+              "performance",
+              "performance-history",
+              "audience",
+              "sponsorship",
+              "contact",
+            ],
+          },
+        },
+        concurrency: {
+          type: "integer",
+          description: "Creators looked up at once.",
+          minimum: 1,
+          maximum: 10,
+          default: 5,
+        },
+      },
+      required: ["channelIds"],
+    },
+  },
 
   // =========================================================================
   // TikTok Endpoints
@@ -484,7 +640,7 @@ const tools: Tool[] = [
   {
     name: "tiktok_search",
     description:
-      "Search for TikTok creators using advanced filters including follower count, engagement, country, language, and niches.",
+      "Search for TikTok creators using advanced filters including follower count, engagement, country, language, and niches. Max 10 filters per request. Filters are validated before the request is sent; see get_search_filters for valid names, operators and value formats.",
     inputSchema: {
       type: "object",
       properties: {
@@ -506,12 +662,14 @@ const tools: Tool[] = [
             required: ["filterName", "op", "value"],
           },
         },
+        query: searchQueryProperty,
         pageSize: { type: "integer", minimum: 1, maximum: 100, default: 20 },
         offset: { type: "integer", minimum: 0, default: 0 },
         sortBy: { type: "string" },
         desc: { type: "boolean", default: true },
+        ...paginationProperties,
       },
-      required: ["filters", "pageSize", "offset"],
+      required: ["pageSize", "offset"],
     },
   },
   {
@@ -580,284 +738,1164 @@ const tools: Tool[] = [
         query: { type: "string", description: "Natural language search query." },
         pageSize: { type: "integer", default: 20 },
         offset: { type: "integer", default: 0 },
+        ...paginationProperties,
       },
       required: ["query"],
     },
   },
   {
     name: "tiktok_get_niches",
-    description: "Get all available TikTok niches with categories and creator counts.",
+    description:
+      "Get all available TikTok niches with categories and creator counts. Also available as the creatordb://tiktok/niches resource.",
     inputSchema: {
       type: "object",
       properties: {},
     },
   },
-];
-
-// =============================================================================
-// Tool Handlers
-// =============================================================================
-
-async function handleToolCall(
-  name: string,
-  args: Record<string, unknown>
-): Promise<string> {
-  try {
-    let result: unknown;
-
-    switch (name) {
-      // =======================================================================
-      // General Operations
-      // =======================================================================
-      case "get_api_usage": {
-        const params = new URLSearchParams();
-        if (args.start) params.append("start", String(args.start));
-        if (args.end) params.append("end", String(args.end));
-        const queryString = params.toString();
-        result = await makeApiRequest(`/usage${queryString ? `?${queryString}` : ""}`);
-        break;
-      }
-
-      // =======================================================================
-      // Instagram
-      // =======================================================================
-      case "instagram_get_profile": {
-        result = await makeApiRequest(`/instagram/profile?uniqueId=${args.uniqueId}`);
-        break;
-      }
-      case "instagram_get_contact": {
-        result = await makeApiRequest(`/instagram/contact?uniqueId=${args.uniqueId}`);
-        break;
-      }
-      case "instagram_get_content_detail": {
-        result = await makeApiRequest(
-          `/instagram/content-detail?contentId=${args.contentId}`
-        );
-        break;
-      }
-      case "instagram_get_performance": {
-        result = await makeApiRequest(
-          `/instagram/performance?uniqueId=${args.uniqueId}`
-        );
-        break;
-      }
-      case "instagram_get_performance_history": {
-        result = await makeApiRequest(
-          `/instagram/performance-history?uniqueId=${args.uniqueId}`
-        );
-        break;
-      }
-      case "instagram_get_sponsorship": {
-        result = await makeApiRequest(
-          `/instagram/sponsorship?uniqueId=${args.uniqueId}`
-        );
-        break;
-      }
-      case "instagram_get_audience": {
-        result = await makeApiRequest(`/instagram/audience?uniqueId=${args.uniqueId}`);
-        break;
-      }
-      case "instagram_search": {
-        const searchBody: SearchRequest = {
-          filters: args.filters as SearchFilter[],
-          pageSize: (args.pageSize as number) || 20,
-          offset: (args.offset as number) || 0,
-        };
-        if (args.sortBy) searchBody.sortBy = args.sortBy as string;
-        if (args.desc !== undefined) searchBody.desc = args.desc as boolean;
-        result = await makeApiRequest("/instagram/search", "POST", searchBody);
-        break;
-      }
-      case "instagram_natural_language_search": {
-        result = await makeApiRequest("/instagram/nls", "POST", {
-          query: args.query,
-          pageSize: args.pageSize || 20,
-          offset: args.offset || 0,
-        });
-        break;
-      }
-      case "instagram_get_niches": {
-        result = await makeApiRequest("/instagram/niches");
-        break;
-      }
-
-      // =======================================================================
-      // YouTube
-      // =======================================================================
-      case "youtube_get_profile": {
-        result = await makeApiRequest(`/youtube/profile?channelId=${args.channelId}`);
-        break;
-      }
-      case "youtube_search": {
-        const ytSearchBody: SearchRequest = {
-          filters: args.filters as SearchFilter[],
-          pageSize: (args.pageSize as number) || 20,
-          offset: (args.offset as number) || 0,
-        };
-        if (args.sortBy) ytSearchBody.sortBy = args.sortBy as string;
-        if (args.desc !== undefined) ytSearchBody.desc = args.desc as boolean;
-        result = await makeApiRequest("/youtube/search", "POST", ytSearchBody);
-        break;
-      }
-      case "youtube_get_performance": {
-        result = await makeApiRequest(`/youtube/performance?channelId=${args.channelId}`);
-        break;
-      }
-      case "youtube_get_performance_history": {
-        result = await makeApiRequest(
-          `/youtube/performance-history?channelId=${args.channelId}`
-        );
-        break;
-      }
-      case "youtube_get_content_detail": {
-        result = await makeApiRequest(
-          `/youtube/content-detail?contentId=${args.contentId}`
-        );
-        break;
-      }
-      case "youtube_get_sponsorship": {
-        result = await makeApiRequest(
-          `/youtube/sponsorship?channelId=${args.channelId}`
-        );
-        break;
-      }
-      case "youtube_get_contact": {
-        result = await makeApiRequest(`/youtube/contact?channelId=${args.channelId}`);
-        break;
-      }
-      case "youtube_get_audience": {
-        result = await makeApiRequest(`/youtube/audience?channelId=${args.channelId}`);
-        break;
-      }
-      case "youtube_natural_language_search": {
-        result = await makeApiRequest("/youtube/nls", "POST", {
-          query: args.query,
-          pageSize: args.pageSize || 20,
-          offset: args.offset || 0,
-        });
-        break;
-      }
-      case "youtube_get_topics": {
-        result = await makeApiRequest("/youtube/topics");
-        break;
-      }
-      case "youtube_get_niches": {
-        result = await makeApiRequest("/youtube/niches");
-        break;
-      }
-
-      // =======================================================================
-      // TikTok
-      // =======================================================================
-      case "tiktok_get_profile": {
-        result = await makeApiRequest(`/tiktok/profile?uniqueId=${args.uniqueId}`);
-        break;
-      }
-      case "tiktok_search": {
-        const ttSearchBody: SearchRequest = {
-          filters: args.filters as SearchFilter[],
-          pageSize: (args.pageSize as number) || 20,
-          offset: (args.offset as number) || 0,
-        };
-        if (args.sortBy) ttSearchBody.sortBy = args.sortBy as string;
-        if (args.desc !== undefined) ttSearchBody.desc = args.desc as boolean;
-        result = await makeApiRequest("/tiktok/search", "POST", ttSearchBody);
-        break;
-      }
-      case "tiktok_get_contact": {
-        result = await makeApiRequest(`/tiktok/contact?uniqueId=${args.uniqueId}`);
-        break;
-      }
-      case "tiktok_get_performance": {
-        result = await makeApiRequest(`/tiktok/performance?uniqueId=${args.uniqueId}`);
-        break;
-      }
-      case "tiktok_get_performance_history": {
-        result = await makeApiRequest(
-          `/tiktok/performance-history?uniqueId=${args.uniqueId}`
-        );
-        break;
-      }
-      case "tiktok_get_content_detail": {
-        result = await makeApiRequest(
-          `/tiktok/content-detail?contentId=${args.contentId}`
-        );
-        break;
-      }
-      case "tiktok_get_audience": {
-        result = await makeApiRequest(`/tiktok/audience?uniqueId=${args.uniqueId}`);
-        break;
-      }
-      case "tiktok_natural_language_search": {
-        result = await makeApiRequest("/tiktok/nls", "POST", {
-          query: args.query,
-          pageSize: args.pageSize || 20,
-          offset: args.offset || 0,
-        });
-        break;
-      }
-      case "tiktok_get_niches": {
-        result = await makeApiRequest("/tiktok/niches");
-        break;
-      }
-
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
-
-    return JSON.stringify(result, null, 2);
-  } catch (error) {
-    return JSON.stringify({
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-    });
-  }
-}
-
-// =============================================================================
-// MCP Server Setup
-// =============================================================================
-
-const server = new Server(
-  {
-    name: "creatordb-mcp-server",
-    version: "1.0.0",
-  },
   {
-    capabilities: {
-      tools: {},
+    name: "tiktok_bulk_get_profiles",
+    description:
+      "Look up a list of TikTok creators in one call (up to 500 uniqueIds). Fetches the requested sections (default profile and performance) for each creator with bounded concurrency and returns one result per ID; a bad ID gets its own error instead of failing the batch.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uniqueIds: {
+          type: "array",
+          items: { type: "string" },
+          description: "TikTok account IDs (e.g. ['tiktok']).",
+          maxItems: 500,
+        },
+        sections: {
+          type: "array",
+          description:
+            "Sections to fetch per creator. Defaults to profile and performance; each section costs one request per creator.",
+          items: {
+            type: "string",
+            enum: [
+              "profile",
+              "performance",
+              "performance-history",
+              "audience",
+              "sponsorship",
+              "contact",
+            ],
+          },
+        },
+        concurrency: {
+          type: "integer",
+          description: "Creators looked up at once.",
+          minimum: 1,
+          maximum: 10,
+          default: 5,
+        },
+      },
+      required: ["uniqueIds"],
     },
-  }
-);
-
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  const result = await handleToolCall(name, (args as Record<string, unknown>) || {});
+  },
 
-  return {
-    content: [
-      {
-        type: "text",
-        text: result,
+  // =========================================================================
+  // Composite Operations
+  // =========================================================================
+  {
+    name: "resolve_creator_identity",
+    description:
+      "Find the same creator's accounts on the other platforms. Given one Instagram/TikTok uniqueId or YouTube channelId, searches the other platforms by display name and checks profile links and bios, returning candidates with a 0-1 confidence score and the signals behind it. Pass 'confirm' to store verified matches; confirmed platforms are answered instantly on later lookups.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        platform: {
+          type: "string",
+          enum: ["instagram", "youtube", "tiktok"],
+          description: "Platform of the known account.",
+        },
+        id: {
+          type: "string",
+          description: "Instagram/TikTok uniqueId or YouTube channelId of the known account.",
+        },
+        confirm: {
+          type: "array",
+          description:
+            "Accounts verified as the same person. They are stored before resolving, so they appear under 'confirmed'.",
+          items: {
+            type: "object",
+            properties: {
+              platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+              id: { type: "string" },
+            },
+            required: ["platform", "id"],
+          },
+        },
+        maxCandidates: {
+          type: "integer",
+          description: "Candidates to return per platform.",
+          minimum: 1,
+          maximum: 10,
+          default: 5,
+        },
+      },
+      required: ["platform", "id"],
+    },
+  },
+  {
+    name: "get_creator_report",
+    description:
+      "Get a full creator report in one call: profile, performance, performance history, audience, sponsorship and contact are fetched in parallel and merged into one document with a normalized summary. Sections that fail (e.g. a missing YouTube contact) are listed under 'errors' without failing the report. Use 'sections' to fetch only what you need and save quota.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        platform: {
+          type: "string",
+          enum: ["instagram", "youtube", "tiktok"],
+          description: "Platform of the creator.",
+        },
+        id: {
+          type: "string",
+          description: "Instagram/TikTok uniqueId or YouTube channelId.",
+        },
+        sections: {
+          type: "array",
+          description:
+            "Sections to fetch. Defaults to all. TikTok has no sponsorship section; it is reported under 'unsupported'.",
+          items: {
+            type: "string",
+            enum: [
+              "profile",
+              "performance",
+              "performance-history",
+              "audience",
+              "sponsorship",
+              "contact",
+            ],
+          },
+        },
+      },
+      required: ["platform", "id"],
+    },
+  },
+  {
+    name: "analyze_creator_growth",
+    description:
+      "Analyze a creator's performance history instead of eyeballing the raw time series: follower growth per period and overall, CAGR, growth volatility, engagement rate and view trends (slope per 30 days, volatility), and anomalies such as sudden follower spikes (possible bought followers, especially when engagement falls) or sharp drops (possible purges).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        platform: {
+          type: "string",
+          enum: ["instagram", "youtube", "tiktok"],
+          description: "Platform of the creator.",
+        },
+        id: {
+          type: "string",
+          description: "Instagram/TikTok uniqueId or YouTube channelId.",
+        },
+      },
+      required: ["platform", "id"],
+    },
+  },
+  {
+    name: "compare_creators",
+    description:
+      "Compare 2-10 creators side by side, across platforms if needed. Fetches profile, performance, performance history, audience and sponsorship for each and returns a normalized table: followers, engagement rate, views, posting frequency, follower growth, top audience countries, gender and age split, and sponsored content ratio. Each metric names its leader and every creator's relative delta from the leader.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        creators: {
+          type: "array",
+          minItems: 2,
+          maxItems: 10,
+          description: "Creators to compare.",
+          items: {
+            type: "object",
+            properties: {
+              platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+              id: {
+                type: "string",
+                description: "Instagram/TikTok uniqueId or YouTube channelId.",
+              },
+            },
+            required: ["platform", "id"],
+          },
+        },
+      },
+      required: ["creators"],
+    },
+  },
+  {
+    name: "export_results",
+    description:
+      "Run a search, natural language search or bulk lookup and write the results to a local CSV, NDJSON or XLSX file for spreadsheets. Nested fields are flattened into dotted columns (e.g. 'pricing.minPrice'), lists such as niches are joined with '; ', and 'audience.topCountry' is derived from audience data. Returns the file path, row count and columns instead of the results themselves.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        source: {
+          type: "string",
+          enum: ["search", "natural_language_search", "bulk"],
+          description: "Which operation produces the rows.",
+        },
+        platform: {
+          type: "string",
+          enum: ["instagram", "youtube", "tiktok"],
+        },
+        format: {
+          type: "string",
+          enum: ["csv", "ndjson", "xlsx"],
+        },
+        columns: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Flattened columns to include, in order. Search exports default to every field; bulk exports default to id, success, the report summary, niches, audience.topCountry and error.",
+        },
+        filename: {
+          type: "string",
+          description:
+            "Base name for the file; a timestamp and extension are appended. Files are written to CREATORDB_EXPORT_DIR (default data/exports).",
+        },
+        filters: {
+          type: "array",
+          items: { type: "object" },
+          description: "source=search: filter objects, as for the platform's search tool.",
+        },
+        query: {
+          type: "string",
+          description:
+            "source=search: compact filter query (e.g. 'followers>100k er>3%'). source=natural_language_search: the natural language query.",
+        },
+        pageSize: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+        offset: { type: "integer", minimum: 0, default: 0 },
+        sortBy: { type: "string" },
+        desc: { type: "boolean", default: true },
+        ...paginationProperties,
+        ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "source=bulk: uniqueIds (Instagram/TikTok) or channelIds (YouTube).",
+        },
+        sections: {
+          type: "array",
+          items: { type: "string" },
+          description: "source=bulk: report sections to fetch (default profile, performance).",
+        },
+        concurrency: { type: "integer", minimum: 1, maximum: 10, default: 5 },
+      },
+      required: ["source", "platform", "format"],
+    },
+  },
+  {
+    name: "audience_fit_score",
+    description:
+      "Score how well creators' audiences match a campaign target, e.g. US/CA, ages 18-34, 60% female. Returns a 0-100 fit score per creator with a per-dimension breakdown (country, age, gender, average age) and the estimated share of followers inside the target, best fit first. Score specific creators, or pass search arguments to score a page of search results.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        target: {
+          type: "object",
+          description: "Target audience. Set at least one of countries, ageMin/ageMax, femaleShare or avgAge.",
+          properties: {
+            countries: {
+              type: "array",
+              items: { type: "string" },
+              description: "ISO country codes, e.g. ['US', 'CA'].",
+            },
+            ageMin: { type: "number", description: "Youngest age in the target, e.g. 18." },
+            ageMax: { type: "number", description: "Oldest age in the target, e.g. 34." },
+            femaleShare: {
+              type: "number",
+              description: "Desired female share of the audience, 0-1 (0.6 = 60% female).",
+            },
+            avgAge: {
+              type: "number",
+              description: "Desired average audience age. Defaults to the middle of ageMin-ageMax.",
+            },
+            weights: {
+              type: "object",
+              description:
+                "Relative weight per dimension (country, age, gender, avgAge). Defaults: 0.35, 0.3, 0.2, 0.15.",
+            },
+          },
+        },
+        creators: {
+          type: "array",
+          minItems: 1,
+          maxItems: 50,
+          description: "Creators to score. Use this or search.",
+          items: {
+            type: "object",
+            properties: {
+              platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+              id: {
+                type: "string",
+                description: "Instagram/TikTok uniqueId or YouTube channelId.",
+              },
+            },
+            required: ["platform", "id"],
+          },
+        },
+        search: {
+          type: "object",
+          description:
+            "Search whose results (up to 50) are scored: platform plus the same filters, query, sortBy, desc, pageSize and offset as the platform search tools.",
+          properties: {
+            platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+            filters: { type: "array", items: { type: "object" } },
+            query: searchQueryProperty,
+            sortBy: { type: "string" },
+            desc: { type: "boolean" },
+            pageSize: { type: "number" },
+            offset: { type: "number" },
+          },
+          required: ["platform"],
+        },
+      },
+      required: ["target"],
+    },
+  },
+  {
+    name: "estimate_creator_rate",
+    description:
+      "Estimate what a creator charges per deliverable (e.g. Instagram post/reel/story, YouTube integration/dedicated video/Short, TikTok video). Prices expected views with CPM and expected engagements with CPE from the local rate cards, scaled by niche and country multipliers, and returns a min-max price range per deliverable. Uses CreatorDB's own YouTube pricing estimate for integrations when the profile has one.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        platform: {
+          type: "string",
+          enum: ["instagram", "youtube", "tiktok"],
+          description: "Platform of the creator.",
+        },
+        id: {
+          type: "string",
+          description: "Instagram/TikTok uniqueId or YouTube channelId.",
+        },
+        deliverables: {
+          type: "array",
+          items: { type: "string" },
+          description: "Deliverable types to price, as named in the rate cards. Omit to price all.",
+        },
+      },
+      required: ["platform", "id"],
+    },
+  },
+  {
+    name: "check_brand_conflicts",
+    description:
+      "Check whether a creator recently promoted a competitor before signing them. Scans sponsors and sponsored captions (Instagram and YouTube), the profile bio and hashtags, and any listed content's captions and hashtags for the brand and each competitor. Returns matched brands with sponsored post and mention counts, first/last dates, evidence excerpts and an exclusivity risk (none, low, medium, high) per competitor and overall. TikTok has no sponsorship data, so pass recent contentIds there.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        platform: {
+          type: "string",
+          enum: ["instagram", "youtube", "tiktok"],
+          description: "Platform of the creator.",
+        },
+        id: {
+          type: "string",
+          description: "Instagram/TikTok uniqueId or YouTube channelId.",
+        },
+        brand: {
+          description: "Your brand: a name, or { name, aliases } for handles and spellings.",
+        },
+        competitors: {
+          type: "array",
+          minItems: 1,
+          maxItems: 50,
+          description:
+            "Competitor brands: names, or { name, aliases } objects (e.g. { name: 'Coca-Cola', aliases: ['coke'] }).",
+          items: {},
+        },
+        contentIds: {
+          type: "array",
+          maxItems: 30,
+          items: { type: "string" },
+          description: "Recent content IDs whose captions and hashtags are also scanned.",
+        },
+        lookbackDays: {
+          type: "number",
+          description:
+            "Window in which competitor activity counts as recent (default 180). Sponsorships in the last 90 days are always high risk.",
+        },
+      },
+      required: ["platform", "id", "brand", "competitors"],
+    },
+  },
+  {
+    name: "create_campaign",
+    description:
+      "Create a campaign workspace to keep a shortlist of creators across conversations. Returns the campaign with its id, which the other campaign tools take as campaignId.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Campaign name, e.g. 'Spring 2026 running shoes'." },
+        description: { type: "string", description: "Brief, goals or anything worth remembering." },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "list_campaigns",
+    description:
+      "List saved campaigns, newest first, with how many creators each has per status (prospect, contacted, booked).",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "get_campaign",
+    description:
+      "Get a campaign's shortlist: every creator with status, notes, tags and the cached snapshot of their profile metrics (followers, engagement rate, views, country...) from when they were last added. Reads local data only, no API quota.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        campaignId: { type: "string" },
+        status: {
+          type: "string",
+          enum: CREATOR_STATUSES,
+          description: "Only creators with this status.",
+        },
+        tag: { type: "string", description: "Only creators with this tag." },
+      },
+      required: ["campaignId"],
+    },
+  },
+  {
+    name: "delete_campaign",
+    description: "Delete a campaign and its shortlist.",
+    inputSchema: {
+      type: "object",
+      properties: { campaignId: { type: "string" } },
+      required: ["campaignId"],
+    },
+  },
+  {
+    name: "add_campaign_creators",
+    description:
+      "Add up to 100 creators to a campaign, fetching and caching a snapshot of each one's profile metrics. Optional status, notes and tags apply to every creator added. Creators already in the campaign get a fresh snapshot and keep their other fields unless new ones are given.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        campaignId: { type: "string" },
+        creators: {
+          type: "array",
+          minItems: 1,
+          maxItems: 100,
+          items: {
+            type: "object",
+            properties: {
+              platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+              id: {
+                type: "string",
+                description: "Instagram/TikTok uniqueId or YouTube channelId.",
+              },
+            },
+            required: ["platform", "id"],
+          },
+        },
+        status: { type: "string", enum: CREATOR_STATUSES, description: "Default 'prospect'." },
+        notes: { type: "string" },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["campaignId", "creators"],
+    },
+  },
+  {
+    name: "update_campaign_creator",
+    description:
+      "Update one creator in a campaign: move them through prospect, contacted and booked, rewrite notes (empty string clears them) or replace tags.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        campaignId: { type: "string" },
+        platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+        id: { type: "string", description: "Instagram/TikTok uniqueId or YouTube channelId." },
+        status: { type: "string", enum: CREATOR_STATUSES },
+        notes: { type: "string" },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["campaignId", "platform", "id"],
+    },
+  },
+  {
+    name: "remove_campaign_creators",
+    description: "Remove creators from a campaign.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        campaignId: { type: "string" },
+        creators: {
+          type: "array",
+          minItems: 1,
+          maxItems: 100,
+          items: {
+            type: "object",
+            properties: {
+              platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+              id: { type: "string" },
+            },
+            required: ["platform", "id"],
+          },
+        },
+      },
+      required: ["campaignId", "creators"],
+    },
+  },
+  {
+    name: "watch_creators",
+    description:
+      "Add up to 100 creators to the watchlist and take a baseline snapshot of each one's profile, performance and sponsorships. Snapshots are stored locally so later runs can be diffed against them with diff_creator_snapshots.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        creators: {
+          type: "array",
+          minItems: 1,
+          maxItems: 100,
+          items: {
+            type: "object",
+            properties: {
+              platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+              id: {
+                type: "string",
+                description: "Instagram/TikTok uniqueId or YouTube channelId.",
+              },
+            },
+            required: ["platform", "id"],
+          },
+        },
+        snapshot: {
+          type: "boolean",
+          description: "Take a baseline snapshot of newly added creators (default true).",
+        },
+      },
+      required: ["creators"],
+    },
+  },
+  {
+    name: "unwatch_creators",
+    description:
+      "Remove creators from the watchlist. Their past snapshots are kept and can still be diffed.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        creators: {
+          type: "array",
+          minItems: 1,
+          maxItems: 100,
+          items: {
+            type: "object",
+            properties: {
+              platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+              id: {
+                type: "string",
+                description: "Instagram/TikTok uniqueId or YouTube channelId.",
+              },
+            },
+            required: ["platform", "id"],
+          },
+        },
+      },
+      required: ["creators"],
+    },
+  },
+  {
+    name: "list_watchlist",
+    description:
+      "List watched creators with when they were added, how many snapshots each has and when the last one was taken. Reads local data only, no API quota.",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "snapshot_watchlist",
+    description:
+      "Take a new timestamped snapshot of every watched creator (or only the given ones). Each result lists what changed since that creator's previous snapshot. Uses 2-3 API requests per creator.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        creators: {
+          type: "array",
+          minItems: 1,
+          maxItems: 100,
+          items: {
+            type: "object",
+            properties: {
+              platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+              id: {
+                type: "string",
+                description: "Instagram/TikTok uniqueId or YouTube channelId.",
+              },
+            },
+            required: ["platform", "id"],
+          },
+        },
+      },
+    },
+  },
+  {
+    name: "list_creator_snapshots",
+    description:
+      "List a creator's stored snapshots, oldest first, with snapshot IDs, timestamps, followers and engagement rate. Use the IDs with diff_creator_snapshots.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+        id: { type: "string", description: "Instagram/TikTok uniqueId or YouTube channelId." },
+      },
+      required: ["platform", "id"],
+    },
+  },
+  {
+    name: "diff_creator_snapshots",
+    description:
+      "Report what changed for a creator between two stored snapshots: followers, engagement rate, views, posting rate, niches added/removed, display name and handle renames, and new sponsors or new sponsored content. Defaults to the latest snapshot against the one before it. Reads local data only, no API quota.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+        id: { type: "string", description: "Instagram/TikTok uniqueId or YouTube channelId." },
+        from: {
+          type: "string",
+          description:
+            "Snapshot ID, or an ISO date to use the last snapshot taken on or before it. Defaults to the snapshot before `to`.",
+        },
+        to: {
+          type: "string",
+          description: "Snapshot ID or ISO date, like `from`. Defaults to the latest snapshot.",
+        },
       },
-    ],
-  };
-});
+      required: ["platform", "id"],
+    },
+  },
+  {
+    name: "list_alerts",
+    description:
+      "List alerts raised by the scheduled watchlist monitor (threshold, change and new-sponsor rules), newest first, with each alert's message, details and webhook delivery results. Reads local data only, no API quota.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ruleId: { type: "string" },
+        platform: { type: "string", enum: ["instagram", "youtube", "tiktok"] },
+        id: { type: "string", description: "Instagram/TikTok uniqueId or YouTube channelId." },
+        since: { type: "string", description: "ISO date; only alerts triggered on or after it." },
+        limit: { type: "number", description: "Default 50, max 500." },
+      },
+    },
+  },
+];
+
+// =============================================================================
+// Tool Handlers
+// =============================================================================
+
+async function handleToolCall(
+  name: string,
+  args: Record<string, unknown>
+): Promise<string> {
+  try {
+    let result: unknown;
+    const options: CallOptions = {
+      cache: isCacheMode(args.cache) ? args.cache : undefined,
+    };
+
+    switch (name) {
+      // =======================================================================
+      // General Operations
+      // =======================================================================
+      case "get_api_usage": {
+        result = await client.getUsage(
+          {
+            start: args.start as string | undefined,
+            end: args.end as string | undefined,
+          },
+          options
+        );
+        break;
+      }
+      case "get_budget_status": {
+        result = { success: true, data: budgetStatus(client.budget) };
+        break;
+      }
+      case "get_search_filters": {
+        const platforms = isPlatform(args.platform) ? [args.platform] : PLATFORMS;
+        result = { success: true, data: platforms.map(getFilterCatalog) };
+        break;
+      }
+
+      // =======================================================================
+      // Instagram
+      // =======================================================================
+      case "instagram_get_profile": {
+        result = await client.instagram.getProfile(String(args.uniqueId), options);
+        break;
+      }
+      case "instagram_get_contact": {
+        result = await client.instagram.getContact(String(args.uniqueId), options);
+        break;
+      }
+      case "instagram_get_content_detail": {
+        result = await client.instagram.getContentDetail(
+          String(args.contentId),
+          options
+        );
+        break;
+      }
+      case "instagram_get_performance": {
+        result = await client.instagram.getPerformance(String(args.uniqueId), options);
+        break;
+      }
+      case "instagram_get_performance_history": {
+        result = await client.instagram.getPerformanceHistory(
+          String(args.uniqueId),
+          options
+        );
+        break;
+      }
+      case "instagram_get_sponsorship": {
+        result = await client.instagram.getSponsorship(String(args.uniqueId), options);
+        break;
+      }
+      case "instagram_get_audience": {
+        result = await client.instagram.getAudience(String(args.uniqueId), options);
+        break;
+      }
+      case "instagram_search": {
+        const request = buildSearchRequest(withSearchQuery("instagram", args));
+        result = await searchCreators(client, "instagram", request, {
+          ...options,
+          ...paginationOptions(args),
+        });
+        break;
+      }
+      case "instagram_natural_language_search": {
+        result = await naturalLanguageSearchCreators(
+          client,
+          "instagram",
+          buildNaturalLanguageSearchRequest(args),
+          { ...options, ...paginationOptions(args) }
+        );
+        break;
+      }
+      case "instagram_get_niches": {
+        result = await client.instagram.getNiches(options);
+        break;
+      }
+      case "instagram_bulk_get_profiles": {
+        const data = await bulkGetCreators(
+          client,
+          "instagram",
+          parseBulkIds(args.uniqueIds, "uniqueIds"),
+          args.sections ? parseReportSections(args.sections) : undefined,
+          { ...options, concurrency: Number(args.concurrency) || undefined }
+        );
+        result = { success: true, data };
+        break;
+      }
+
+      // =======================================================================
+      // YouTube
+      // =======================================================================
+      case "youtube_get_profile": {
+        result = await client.youtube.getProfile(String(args.channelId), options);
+        break;
+      }
+      case "youtube_search": {
+        const request = buildSearchRequest(withSearchQuery("youtube", args));
+        result = await searchCreators(client, "youtube", request, {
+          ...options,
+          ...paginationOptions(args),
+        });
+        break;
+      }
+      case "youtube_get_performance": {
+        result = await client.youtube.getPerformance(String(args.channelId), options);
+        break;
+      }
+      case "youtube_get_performance_history": {
+        result = await client.youtube.getPerformanceHistory(
+          String(args.channelId),
+          options
+        );
+        break;
+      }
+      case "youtube_get_content_detail": {
+        result = await client.youtube.getContentDetail(String(args.contentId), options);
+        break;
+      }
+      case "youtube_get_sponsorship": {
+        result = await client.youtube.getSponsorship(String(args.channelId), options);
+        break;
+      }
+      case "youtube_get_contact": {
+        result = await client.youtube.getContact(String(args.channelId), options);
+        break;
+      }
+      case "youtube_get_audience": {
+        result = await client.youtube.getAudience(String(args.channelId), options);
+        break;
+      }
+      case "youtube_natural_language_search": {
+        result = await naturalLanguageSearchCreators(
+          client,
+          "youtube",
+          buildNaturalLanguageSearchRequest(args),
+          { ...options, ...paginationOptions(args) }
+        );
+        break;
+      }
+      case "youtube_get_topics": {
+        result = await client.youtube.getTopics(options);
+        break;
+      }
+      case "youtube_get_niches": {
+        result = await client.youtube.getNiches(options);
+        break;
+      }
+      case "youtube_bulk_get_profiles": {
+        const data = await bulkGetCreators(
+          client,
+          "youtube",
+          parseBulkIds(args.channelIds, "channelIds"),
+          args.sections ? parseReportSections(args.sections) : undefined,
+          { ...options, concurrency: Number(args.concurrency) || undefined }
+        );
+        result = { success: true, data };
+        break;
+      }
+
+      // =======================================================================
+      // TikTok
+      // =======================================================================
+      case "tiktok_get_profile": {
+        result = await client.tiktok.getProfile(String(args.uniqueId), options);
+        break;
+      }
+      case "tiktok_search": {
+        const request = buildSearchRequest(withSearchQuery("tiktok", args));
+        result = await searchCreators(client, "tiktok", request, {
+          ...options,
+          ...paginationOptions(args),
+        });
+        break;
+      }
+      case "tiktok_get_contact": {
+        result = await client.tiktok.getContact(String(args.uniqueId), options);
+        break;
+      }
+      case "tiktok_get_performance": {
+        result = await client.tiktok.getPerformance(String(args.uniqueId), options);
+        break;
+      }
+      case "tiktok_get_performance_history": {
+        result = await client.tiktok.getPerformanceHistory(
+          String(args.uniqueId),
+          options
+        );
+        break;
+      }
+      case "tiktok_get_content_detail": {
+        result = await client.tiktok.getContentDetail(String(args.contentId), options);
+        break;
+      }
+      case "tiktok_get_audience": {
+        result = await client.tiktok.getAudience(String(args.uniqueId), options);
+        break;
+      }
+      case "tiktok_natural_language_search": {
+        result = await naturalLanguageSearchCreators(
+          client,
+          "tiktok",
+          buildNaturalLanguageSearchRequest(args),
+          { ...options, ...paginationOptions(args) }
+        );
+        break;
+      }
+      case "tiktok_get_niches": {
+        result = await client.tiktok.getNiches(options);
+        break;
+      }
+      case "tiktok_bulk_get_profiles": {
+        const data = await bulkGetCreators(
+          client,
+          "tiktok",
+          parseBulkIds(args.uniqueIds, "uniqueIds"),
+          args.sections ? parseReportSections(args.sections) : undefined,
+          { ...options, concurrency: Number(args.concurrency) || undefined }
+        );
+        result = { success: true, data };
+        break;
+      }
+
+      // =======================================================================
+      // Composite
+      // =======================================================================
+      case "resolve_creator_identity": {
+        const data = await confirmAndResolveIdentity(client, identityStore, args, options);
+        result = { success: true, data };
+        break;
+      }
+      case "get_creator_report": {
+        if (!isPlatform(args.platform)) {
+          throw new ApiError("platform must be one of: instagram, youtube, tiktok", 400);
+        }
+        const data = await getCreatorReport(
+          client,
+          args.platform,
+          String(args.id ?? ""),
+          parseReportSections(args.sections),
+          options
+        );
+        result = { success: true, data };
+        break;
+      }
+      case "analyze_creator_growth": {
+        if (!isPlatform(args.platform)) {
+          throw new ApiError("platform must be one of: instagram, youtube, tiktok", 400);
+        }
+        const id = String(args.id ?? "");
+        const data = await analyzeCreatorGrowth(client, args.platform, id, options);
+        result = { success: true, data };
+        break;
+      }
+      case "compare_creators": {
+        const data = await compareCreators(client, parseComparisonCreators(args.creators), options);
+        result = { success: true, data };
+        break;
+      }
+      case "export_results": {
+        const data = await exportResults(client, args, options);
+        result = { success: true, data };
+        break;
+      }
+      case "audience_fit_score": {
+        const data = await audienceFitScore(client, args, options);
+        result = { success: true, data };
+        break;
+      }
+      case "estimate_creator_rate": {
+        if (!isPlatform(args.platform)) {
+          throw new ApiError("platform must be one of: instagram, youtube, tiktok", 400);
+        }
+        const data = await estimateCreatorRate(
+          client,
+          args.platform,
+          String(args.id ?? ""),
+          parseDeliverables(args.deliverables),
+          options
+        );
+        result = { success: true, data };
+        break;
+      }
+      case "check_brand_conflicts": {
+        if (!isPlatform(args.platform)) {
+          throw new ApiError("platform must be one of: instagram, youtube, tiktok", 400);
+        }
+        const data = await checkBrandConflicts(
+          client,
+          args.platform,
+          String(args.id ?? ""),
+          {
+            brand: parseBrand(args.brand),
+            competitors: parseCompetitors(args.competitors),
+            contentIds: parseContentIds(args.contentIds),
+            lookbackDays: args.lookbackDays === undefined ? undefined : Number(args.lookbackDays),
+          },
+          options
+        );
+        result = { success: true, data };
+        break;
+      }
+      case "create_campaign": {
+        const data = await createCampaign(campaignStore, args);
+        result = { success: true, data };
+        break;
+      }
+      case "list_campaigns": {
+        const data = await listCampaigns(campaignStore);
+        result = { success: true, data };
+        break;
+      }
+      case "get_campaign": {
+        const data = await getCampaign(campaignStore, args.campaignId, args);
+        result = { success: true, data };
+        break;
+      }
+      case "delete_campaign": {
+        const data = await deleteCampaign(campaignStore, args.campaignId);
+        result = { success: true, data };
+        break;
+      }
+      case "add_campaign_creators": {
+        const data = await addCampaignCreators(client, campaignStore, args, options);
+        result = { success: true, data };
+        break;
+      }
+      case "update_campaign_creator": {
+        const data = await updateCampaignCreator(campaignStore, args);
+        result = { success: true, data };
+        break;
+      }
+      case "remove_campaign_creators": {
+        const data = await removeCampaignCreators(campaignStore, args);
+        result = { success: true, data };
+        break;
+      }
+      case "watch_creators": {
+        const data = await watchCreators(client, watchlistStore, args, options);
+        result = { success: true, data };
+        break;
+      }
+      case "unwatch_creators": {
+        const data = await unwatchCreators(watchlistStore, args);
+        result = { success: true, data };
+        break;
+      }
+      case "list_watchlist": {
+        const data = await watchlistStore.list();
+        result = { success: true, data };
+        break;
+      }
+      case "snapshot_watchlist": {
+        const data = await runWatchlistSnapshots(client, watchlistStore, args, options);
+        result = { success: true, data };
+        break;
+      }
+      case "list_creator_snapshots": {
+        const data = await listCreatorSnapshots(watchlistStore, args.platform, args.id);
+        result = { success: true, data };
+        break;
+      }
+      case "diff_creator_snapshots": {
+        const data = await diffCreatorSnapshots(watchlistStore, args);
+        result = { success: true, data };
+        break;
+      }
+      case "list_alerts": {
+        const data = await alertStore.listAlerts(parseAlertFilter(args));
+        result = { success: true, data };
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+
+    return JSON.stringify(result, null, 2);
+  } catch (error) {
+    return JSON.stringify(toErrorResponse(error));
+  }
+}
+
+// =============================================================================
+// MCP Server Setup
+// =============================================================================
+
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "creatordb-mcp-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: tools.map((tool) => ({
+        ...tool,
+        inputSchema: {
+          ...tool.inputSchema,
+          properties: { ...tool.inputSchema.properties, cache: cacheOption },
+        },
+      })),
+    };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const result = await handleToolCall(name, (args as Record<string, unknown>) || {});
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: result,
+        },
+      ],
+    };
+  });
+
+  // Reference data and creator documents as resources
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(client, request.params.uri);
+  });
+
+  // Workflow templates that tell the model which tools to call
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  return server;
+}
 
 // =============================================================================
 // Main Entry Point
 // =============================================================================
 
+// Reads `--name value` or `--name=value` from the command line
+function cliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) return args[i + 1];
+    if (args[i].startsWith(`--${name}=`)) return args[i].slice(name.length + 3);
+  }
+  return undefined;
+}
+
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("CreatorDB MCP Server running on stdio");
+  const transportType = cliOption("transport") ?? process.env.MCP_TRANSPORT ?? "stdio";
+
+  if (transportType === "stdio") {
+    const transport = new StdioServerTransport();
+    await createServer().connect(transport);
+    console.error("CreatorDB MCP Server running on stdio");
+    return;
+  }
+
+  if (transportType !== "http") {
+    throw new Error(`Unknown transport "${transportType}" (expected "stdio" or "http")`);
+  }
+
+  const host = cliOption("host") ?? process.env.MCP_HOST ?? "127.0.0.1";
+  const port = Number(cliOption("port") ?? process.env.MCP_PORT ?? 3000);
+  const handle = await startHttpTransport(createServer, {
+    host,
+    port,
+    auth: loadAuthConfig(),
+    sessionIdleMs: sessionIdleMsFromEnv(),
+  });
+  console.error(`CreatorDB MCP Server running on http://${host}:${port}/mcp (SSE: /sse)`);
+
+  const shutdown = async (signal: string) => {
+    console.error(`Received ${signal}, closing MCP sessions...`);
+    await handle.close();
+    process.exit(0);
+  };
+  process.once("SIGINT", () => void shutdown("SIGINT"));
+  process.once("SIGTERM", () => void shutdown("SIGTERM"));
 }
 
 main().catch((error) => {
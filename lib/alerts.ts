@@ -0,0 +1,182 @@
+import { createHmac } from "node:crypto";
+import { ApiError, Platform, isPlatform } from "./client.js";
+import type { CreatorAccount } from "./identity.js";
+
+// =============================================================================
+// Alerts - monitoring rule hits, their webhook deliveries and history
+// =============================================================================
+
+export const DEFAULT_ALERT_LIMIT = 50;
+export const MAX_ALERT_LIMIT = 500;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export type AlertRuleType = "threshold" | "change" | "new_sponsor";
+
+export interface WebhookConfig {
+  url: string;
+  /** Signs the body as `X-CreatorDB-Signature: sha256=<hex HMAC>` when set */
+  secret?: string;
+  headers?: Record<string, string>;
+}
+
+export interface WebhookDelivery {
+  url: string;
+  ok: boolean;
+  /** HTTP status, or null when the request didn't get a response */
+  status: number | null;
+  error?: string;
+}
+
+export interface Alert extends CreatorAccount {
+  alertId: number;
+  ruleId: string;
+  type: AlertRuleType;
+  message: string;
+  triggeredAt: string;
+  /** Snapshot that triggered the rule */
+  snapshotId: number;
+  details: Record<string, unknown>;
+  deliveries: WebhookDelivery[];
+}
+
+export interface AlertFilter {
+  ruleId?: string;
+  platform?: Platform;
+  id?: string;
+  /** ISO timestamp; only alerts triggered at or after it */
+  since?: string;
+  limit: number;
+}
+
+// =============================================================================
+// Alert Store
+// =============================================================================
+
+export interface AlertStore {
+  saveAlert(alert: Omit<Alert, "alertId">): Promise<Alert>;
+  /** Matching alerts, newest first */
+  listAlerts(filter: AlertFilter): Promise<Alert[]>;
+}
+
+export class MemoryAlertStore implements AlertStore {
+  private readonly alerts: Alert[] = [];
+
+  async saveAlert(alert: Omit<Alert, "alertId">): Promise<Alert> {
+    const saved = { alertId: this.alerts.length + 1, ...alert };
+    this.alerts.push(saved);
+    return saved;
+  }
+
+  async listAlerts(filter: AlertFilter): Promise<Alert[]> {
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    return this.alerts
+      .filter(
+        (alert) =>
+          (!filter.ruleId || alert.ruleId === filter.ruleId) &&
+          (!filter.platform || alert.platform === filter.platform) &&
+          (!filter.id || alert.id === filter.id) &&
+          (since === undefined || Date.parse(alert.triggeredAt) >= since)
+      )
+      .reverse()
+      .slice(0, filter.limit);
+  }
+}
+
+/**
+ * Builds the alert store from CREATORDB_ALERT_STORE ("sqlite" or "memory",
+ * default `defaultBackend`). The SQLite file lives at CREATORDB_ALERT_PATH
+ * (default data/alerts.sqlite).
+ */
+export async function createAlertStoreFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  defaultBackend: "memory" | "sqlite" = "sqlite"
+): Promise<AlertStore> {
+  const backend = env.CREATORDB_ALERT_STORE ?? defaultBackend;
+
+  switch (backend) {
+    case "memory":
+      return new MemoryAlertStore();
+    case "sqlite": {
+      const { SqliteAlertStore } = await import("./sqlite-alerts.js");
+      return new SqliteAlertStore(env.CREATORDB_ALERT_PATH ?? "data/alerts.sqlite");
+    }
+    default:
+      throw new Error(`Unknown CREATORDB_ALERT_STORE backend: ${backend}`);
+  }
+}
+
+/**
+ * Reads alert history filters from tool arguments or query parameters:
+ * `ruleId`, `platform` and `id`, `since` (ISO date) and `limit`.
+ */
+export function parseAlertFilter(input: Record<string, unknown>): AlertFilter {
+  const filter: AlertFilter = { limit: DEFAULT_ALERT_LIMIT };
+  if (input.ruleId !== undefined && input.ruleId !== "") filter.ruleId = String(input.ruleId);
+  if (input.platform !== undefined && input.platform !== "") {
+    if (!isPlatform(input.platform)) {
+      throw new ApiError("platform must be one of: instagram, youtube, tiktok", 400);
+    }
+    filter.platform = input.platform;
+  }
+  if (input.id !== undefined && input.id !== "") filter.id = String(input.id);
+  if (input.since !== undefined && input.since !== "") {
+    const since = Date.parse(String(input.since));
+    if (Number.isNaN(since)) throw new ApiError("since must be an ISO date", 400);
+    filter.since = new Date(since).toISOString();
+  }
+  if (input.limit !== undefined && input.limit !== "") {
+    const limit = Number(input.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ALERT_LIMIT) {
+      throw new ApiError(`limit must be an integer between 1 and ${MAX_ALERT_LIMIT}`, 400);
+    }
+    filter.limit = limit;
+  }
+  return filter;
+}
+
+// =============================================================================
+// Webhooks
+// =============================================================================
+
+async function deliver(webhook: WebhookConfig, body: string): Promise<WebhookDelivery> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...webhook.headers,
+  };
+  if (webhook.secret) {
+    const signature = createHmac("sha256", webhook.secret).update(body).digest("hex");
+    headers["X-CreatorDB-Signature"] = `sha256=${signature}`;
+  }
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    return response.ok
+      ? { url: webhook.url, ok: true, status: response.status }
+      : {
+          url: webhook.url,
+          ok: false,
+          status: response.status,
+          error: `Webhook responded with ${response.status}`,
+        };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { url: webhook.url, ok: false, status: null, error: message };
+  }
+}
+
+/**
+ * POSTs `{ event: "creatordb.alert", alert }` to every webhook in parallel.
+ * Failures are returned as deliveries rather than thrown, so one unreachable
+ * receiver doesn't hold back the others.
+ */
+export async function deliverAlert(
+  webhooks: WebhookConfig[],
+  alert: Omit<Alert, "alertId" | "deliveries">
+): Promise<WebhookDelivery[]> {
+  const body = JSON.stringify({ event: "creatordb.alert", alert });
+  return Promise.all(webhooks.map((webhook) => deliver(webhook, body)));
+}
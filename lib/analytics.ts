@@ -0,0 +1,337 @@
+import { ApiError, CallOptions, CreatorDBClient, Platform } from "./client.js";
+
+// =============================================================================
+// Growth Analytics - trends and anomalies over performance history
+// =============================================================================
+
+const DAY_MS = 86_400_000;
+const MONTH_DAYS = 30;
+/** Robust z-score above which a period's follower change is anomalous */
+const ANOMALY_Z = 3.5;
+/** Smallest follower jump reported as a spike, whatever the z-score */
+const MIN_SPIKE_GROWTH = 0.05;
+/** Follower losses at least this large are always reported as drops */
+const DROP_GROWTH = -0.1;
+/** Periods needed before z-scores mean anything */
+const MIN_PERIODS_FOR_Z = 4;
+/** Shortest history annualized into a CAGR; shorter spans blow small changes up */
+const MIN_CAGR_DAYS = 30;
+
+export interface HistoryPoint {
+  date: string;
+  time: number;
+  followers: number | null;
+  avgEngagementRate: number | null;
+  avgViews: number | null;
+}
+
+export interface PeriodGrowth {
+  from: string;
+  to: string;
+  days: number;
+  followersChange: number;
+  growth: number;
+  /** Growth scaled to 30 days so uneven snapshot gaps compare fairly */
+  monthlyGrowth: number;
+}
+
+export interface TrendStats {
+  start: number | null;
+  end: number | null;
+  mean: number | null;
+  /** Least-squares slope, in units per 30 days */
+  slopePer30Days: number | null;
+  /** Standard deviation of the values */
+  volatility: number | null;
+}
+
+export interface GrowthAnomaly {
+  type: "spike" | "drop";
+  from: string;
+  to: string;
+  growth: number;
+  /** Robust z-score against the creator's other periods, when there are enough */
+  zScore: number | null;
+  /** Change in engagement rate over the same period, when known */
+  engagementChange: number | null;
+  message: string;
+}
+
+export interface GrowthAnalysis {
+  platform: Platform;
+  id: string;
+  generatedAt: string;
+  period: { start: string; end: string; days: number; points: number } | null;
+  followers: {
+    start: number | null;
+    end: number | null;
+    change: number | null;
+    growth: number | null;
+    /** Compound annual growth rate over the history */
+    cagr: number | null;
+    /** Why cagr is null, when it is */
+    cagrReason: string | null;
+    /** Standard deviation of the 30-day-scaled period growth rates */
+    volatility: number | null;
+    periods: PeriodGrowth[];
+  };
+  engagement: TrendStats;
+  views: TrendStats;
+  anomalies: GrowthAnomaly[];
+}
+
+// =============================================================================
+// History Parsing
+// =============================================================================
+
+// Upstream dates come as epoch seconds, epoch milliseconds or date strings
+export function toTimestamp(date: unknown): number | null {
+  if (typeof date === "number") return date < 1e12 ? date * 1000 : date;
+  if (typeof date === "string") {
+    const parsed = Date.parse(date);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Normalizes a performance-history payload into points sorted by date.
+ * Follower counts come from totalFollowers, or totalSubscribers on YouTube.
+ */
+export function parseHistory(data: unknown): HistoryPoint[] {
+  const history = (data as Record<string, unknown> | undefined)?.history;
+  if (!Array.isArray(history)) return [];
+
+  return history
+    .flatMap((entry): HistoryPoint[] => {
+      const point = (entry ?? {}) as Record<string, unknown>;
+      const time = toTimestamp(point.date);
+      if (time === null) return [];
+      return [
+        {
+          date: new Date(time).toISOString().slice(0, 10),
+          time,
+          followers: numberOrNull(point.totalFollowers) ?? numberOrNull(point.totalSubscribers),
+          avgEngagementRate: numberOrNull(point.avgEngagementRate),
+          avgViews: numberOrNull(point.avgViews),
+        },
+      ];
+    })
+    .sort((a, b) => a.time - b.time);
+}
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Least-squares slope of value against time, per 30 days
+function slopePer30Days(points: Array<{ time: number; value: number }>): number | null {
+  if (points.length < 2) return null;
+  const xs = points.map((point) => point.time / DAY_MS);
+  const ys = points.map((point) => point.value);
+  const xMean = mean(xs);
+  const yMean = mean(ys);
+  let numerator = 0;
+  let denominator = 0;
+  xs.forEach((x, index) => {
+    numerator += (x - xMean) * (ys[index] - yMean);
+    denominator += (x - xMean) ** 2;
+  });
+  return denominator === 0 ? null : (numerator / denominator) * MONTH_DAYS;
+}
+
+function trend(points: HistoryPoint[], key: "avgEngagementRate" | "avgViews"): TrendStats {
+  const series = points.flatMap((point) => {
+    const value = point[key];
+    return value === null ? [] : [{ time: point.time, value }];
+  });
+  const values = series.map((point) => point.value);
+  return {
+    start: values[0] ?? null,
+    end: values[values.length - 1] ?? null,
+    mean: values.length > 0 ? mean(values) : null,
+    slopePer30Days: slopePer30Days(series),
+    volatility: standardDeviation(values),
+  };
+}
+
+function percent(value: number, signed = true): string {
+  return `${signed && value >= 0 ? "+" : ""}${Math.round(value * 1000) / 10}%`;
+}
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+function followerPeriods(points: HistoryPoint[]): PeriodGrowth[] {
+  const counted = points.filter((point) => point.followers !== null);
+  const periods: PeriodGrowth[] = [];
+  for (let index = 1; index < counted.length; index++) {
+    const previous = counted[index - 1];
+    const current = counted[index];
+    const start = previous.followers as number;
+    const days = (current.time - previous.time) / DAY_MS;
+    if (start <= 0 || days <= 0) continue;
+
+    const growth = ((current.followers as number) - start) / start;
+    periods.push({
+      from: previous.date,
+      to: current.date,
+      days: Math.round(days * 10) / 10,
+      followersChange: (current.followers as number) - start,
+      growth,
+      monthlyGrowth: growth * (MONTH_DAYS / days),
+    });
+  }
+  return periods;
+}
+
+function engagementChange(points: HistoryPoint[], period: PeriodGrowth): number | null {
+  const from = points.find((point) => point.date === period.from)?.avgEngagementRate ?? null;
+  const to = points.find((point) => point.date === period.to)?.avgEngagementRate ?? null;
+  if (from === null || to === null || from === 0) return null;
+  return (to - from) / from;
+}
+
+/**
+ * Flags periods whose follower change stands out from the creator's usual
+ * rate (robust z-score on 30-day-scaled growth), plus any large drop. A spike
+ * with falling engagement is the classic bought-followers pattern; a sharp
+ * drop usually means a platform purge of fake accounts.
+ */
+function detectAnomalies(points: HistoryPoint[], periods: PeriodGrowth[]): GrowthAnomaly[] {
+  const rates = periods.map((period) => period.monthlyGrowth);
+  let center: number | null = null;
+  let spread: number | null = null;
+  if (periods.length >= MIN_PERIODS_FOR_Z) {
+    center = median(rates);
+    const deviation = median(rates.map((rate) => Math.abs(rate - (center as number)))) * 1.4826;
+    // A perfectly steady history has no deviation; fall back to a small floor
+    spread = Math.max(deviation, 0.001);
+  }
+
+  return periods.flatMap((period): GrowthAnomaly[] => {
+    const zScore =
+      center !== null && spread !== null ? (period.monthlyGrowth - center) / spread : null;
+    const isSpike =
+      zScore !== null && zScore >= ANOMALY_Z && period.growth >= MIN_SPIKE_GROWTH;
+    const isDrop =
+      period.growth <= DROP_GROWTH ||
+      (zScore !== null && zScore <= -ANOMALY_Z && period.growth < 0);
+    if (!isSpike && !isDrop) return [];
+
+    const change = engagementChange(points, period);
+    const span = `between ${period.from} and ${period.to}`;
+    let message: string;
+    if (isSpike) {
+      message = `Followers jumped ${percent(period.growth)} ${span}`;
+      if (center !== null) message += `, against a usual ${percent(center)} per 30 days`;
+      if (change !== null && change < 0) {
+        message += ` while engagement rate moved ${percent(change)}`;
+        message += "; consistent with bought followers";
+      }
+    } else {
+      message = `Followers fell ${percent(-period.growth, false)} ${span}`;
+      message += "; possibly a purge of fake or inactive accounts";
+    }
+
+    return [
+      {
+        type: isSpike ? "spike" : "drop",
+        from: period.from,
+        to: period.to,
+        growth: period.growth,
+        zScore: zScore === null ? null : Math.round(zScore * 100) / 100,
+        engagementChange: change,
+        message,
+      },
+    ];
+  });
+}
+
+/**
+ * Computes growth, CAGR, engagement and view trends, volatility and anomalies
+ * from a performance-history payload.
+ */
+export function analyzeGrowth(platform: Platform, id: string, history: unknown): GrowthAnalysis {
+  const points = parseHistory(history);
+  const counted = points.filter((point) => point.followers !== null);
+  const periods = followerPeriods(points);
+
+  const first = counted[0];
+  const last = counted[counted.length - 1];
+  const start = first?.followers ?? null;
+  const end = last?.followers ?? null;
+  const days = first && last ? (last.time - first.time) / DAY_MS : 0;
+  const growth = start && end !== null && counted.length > 1 ? (end - start) / start : null;
+  let cagrReason: string | null = null;
+  if (counted.length < 2) cagrReason = "Needs at least two follower counts";
+  else if (!start) cagrReason = "Starting follower count is zero";
+  else if (days < MIN_CAGR_DAYS) {
+    cagrReason = `History spans ${Math.round(days)} days; CAGR needs at least ${MIN_CAGR_DAYS}`;
+  }
+  const cagr =
+    cagrReason === null && start && end !== null ? Math.pow(end / start, 365 / days) - 1 : null;
+
+  return {
+    platform,
+    id,
+    generatedAt: new Date().toISOString(),
+    period:
+      points.length > 0
+        ? {
+            start: points[0].date,
+            end: points[points.length - 1].date,
+            days: Math.round((points[points.length - 1].time - points[0].time) / DAY_MS),
+            points: points.length,
+          }
+        : null,
+    followers: {
+      start,
+      end,
+      change: start !== null && end !== null && counted.length > 1 ? end - start : null,
+      growth,
+      cagr,
+      cagrReason,
+      volatility: standardDeviation(periods.map((period) => period.monthlyGrowth)),
+      periods,
+    },
+    engagement: trend(points, "avgEngagementRate"),
+    views: trend(points, "avgViews"),
+    anomalies: detectAnomalies(points, periods),
+  };
+}
+
+/**
+ * Fetches a creator's performance history and analyzes it.
+ */
+export async function analyzeCreatorGrowth(
+  client: CreatorDBClient,
+  platform: Platform,
+  id: string,
+  options: CallOptions = {}
+): Promise<GrowthAnalysis> {
+  if (!id) throw new ApiError("id is required", 400);
+  const response = await client[platform].getPerformanceHistory(id, options);
+  return analyzeGrowth(platform, id, response.data);
+}
@@ -0,0 +1,845 @@
+import { NextFunction, Request, Response, Router } from "express";
+import {
+  ApiError,
+  CallOptions,
+  CreatorDBClient,
+  Platform,
+  buildSearchRequest,
+  isPlatform,
+  toErrorResponse,
+} from "./client.js";
+import { analyzeCreatorGrowth } from "./analytics.js";
+import { upstream } from "./auth.js";
+import { audienceFitScore } from "./audience.js";
+import {
+  CampaignStore,
+  addCampaignCreators,
+  createCampaign,
+  deleteCampaign,
+  getCampaign,
+  listCampaigns,
+  removeCampaignCreators,
+  updateCampaignCreator,
+} from "./campaigns.js";
+import {
+  WatchlistStore,
+  diffCreatorSnapshots,
+  listCreatorSnapshots,
+  runWatchlistSnapshots,
+  unwatchCreators,
+  watchCreators,
+} from "./watchlist.js";
+import { bulkGetCreators, parseBulkIds } from "./bulk.js";
+import { isCacheMode } from "./cache.js";
+import { compareCreators, parseComparisonCreators } from "./compare.js";
+import { checkBrandConflicts, parseBrand, parseCompetitors, parseContentIds } from "./conflicts.js";
+import { getFilterCatalog } from "./filters.js";
+import { budgetStatus } from "./budget.js";
+import { IdentityStore, confirmAndResolveIdentity } from "./identity.js";
+import {
+  NdjsonStream,
+  bulkTable,
+  flattenCreator,
+  parseExportColumns,
+  parseExportFormat,
+  searchTable,
+  sendExport,
+} from "./export.js";
+import {
+  SearchOptions,
+  SearchResponse,
+  naturalLanguageSearchCreators,
+  paginationOptions,
+  searchCreators,
+} from "./pagination.js";
+import { withSearchQuery } from "./query.js";
+import { estimateCreatorRate, parseDeliverables } from "./rates.js";
+import { getCreatorReport, parseReportSections } from "./report.js";
+
+// =============================================================================
+// REST API routes - shared by server.ts and the Vercel function in api/index.ts
+// =============================================================================
+//
+// The router is mounted at /api behind the auth and rate limit middleware, so
+// handlers call CreatorDB through upstream(res): the authenticated client's own
+// CreatorDBClient, or the server's. Routes that need a long-running process
+// (monitoring, alerts) stay in server.ts.
+
+export interface ApiRouterDeps {
+  /** The server's own client, whose request budget /api/budget reports */
+  client: CreatorDBClient;
+  /** Left out where nothing persists (the Vercel function); its routes then answer 501 */
+  identityStore?: IdentityStore;
+  /** Left out on the Vercel function too, like identityStore */
+  campaignStore?: CampaignStore;
+  watchlistStore?: WatchlistStore;
+}
+
+// Cache control comes from `?cache=` on GET routes and `"cache"` in POST bodies
+function callOptions(req: Request): CallOptions {
+  const cache = req.query.cache ?? req.body?.cache;
+  return { cache: isCacheMode(cache) ? cache : undefined };
+}
+
+function handleError(error: unknown, res: Response) {
+  // A streamed export already sent its headers: end it with an error line instead
+  if (res.headersSent) {
+    res.end(JSON.stringify(toErrorResponse(error)) + "\n");
+    return;
+  }
+  if (error instanceof ApiError) {
+    if (error.retryAfter !== undefined) res.setHeader("Retry-After", String(error.retryAfter));
+    res.status(error.status).json(toErrorResponse(error));
+  } else {
+    res.status(500).json(toErrorResponse(error));
+  }
+}
+
+// Only lets /api/:platform/* routes match real platforms, so paths such as
+// /api/campaigns/report fall through to the routes registered after them.
+// Handlers behind it can take `req.params.platform` as a Platform.
+function platformRoute(req: Request, _res: Response, next: NextFunction) {
+  next(isPlatform(req.params.platform) ? undefined : "route");
+}
+
+// Sends search results as JSON, or as a download when `format` is csv, ndjson
+// or xlsx. NDJSON is written page by page as auto-paginated results arrive.
+async function sendSearchResults(
+  req: Request,
+  res: Response,
+  name: string,
+  search: (onPage?: SearchOptions["onPage"]) => Promise<SearchResponse>
+) {
+  const format = parseExportFormat(req.query.format ?? req.body?.format);
+  const columns = parseExportColumns(req.query.columns ?? req.body?.columns);
+  if (format === "ndjson") {
+    const stream = new NdjsonStream(res, name, columns);
+    await search((creators) => stream.write(creators.map(flattenCreator)));
+    return stream.end();
+  }
+  const result = await search();
+  if (format) return sendExport(res, format, name, searchTable(result.data, columns));
+  res.json(result);
+}
+
+// Returns a route's local store, or fails with a 501 on deployments without one
+function requireStore<T>(store: T | undefined, feature: string): T {
+  if (store) return store;
+  const error = new ApiError(
+    `Not available on this deployment: ${feature} needs a persistent store. ` +
+      "Use the long-running server (server.ts) instead.",
+    501
+  );
+  error.code = "store_unavailable";
+  throw error;
+}
+
+// Runs a local-store operation and sends its result as `{ success, data }`
+export async function jsonRoute(res: Response, operation: () => Promise<unknown>, status = 200) {
+  try {
+    const data = await operation();
+    res.status(status).json({ success: true, data });
+  } catch (error) {
+    handleError(error, res);
+  }
+}
+
+// GET takes `?creators=instagram:id,youtube:id`; POST takes `{ creators: [{ platform, id }] }`
+async function compare(req: Request, res: Response) {
+  try {
+    const creators = req.body?.creators ?? req.query.creators;
+    if (!creators) return res.status(400).json({ success: false, error: "creators is required" });
+    const data = await compareCreators(
+      upstream(res),
+      parseComparisonCreators(creators),
+      callOptions(req)
+    );
+    res.json({ success: true, data });
+  } catch (error) {
+    handleError(error, res);
+  }
+}
+
+export function createApiRouter({
+  client,
+  identityStore,
+  campaignStore,
+  watchlistStore,
+}: ApiRouterDeps): Router {
+  const router = Router();
+
+  router.get("/usage", async (req: Request, res: Response) => {
+    try {
+      const result = await upstream(res).getUsage(
+        {
+          start: req.query.start as string | undefined,
+          end: req.query.end as string | undefined,
+        },
+        callOptions(req)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/budget", (_req: Request, res: Response) => {
+    res.json({ success: true, data: budgetStatus(client.budget) });
+  });
+
+  router.get("/instagram/profile", async (req: Request, res: Response) => {
+    try {
+      const { uniqueId } = req.query;
+      if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
+      const result = await upstream(res).instagram.getProfile(String(uniqueId), callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/instagram/contact", async (req: Request, res: Response) => {
+    try {
+      const { uniqueId } = req.query;
+      if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
+      const result = await upstream(res).instagram.getContact(String(uniqueId), callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/instagram/content-detail", async (req: Request, res: Response) => {
+    try {
+      const { contentId } = req.query;
+      if (!contentId)
+        return res.status(400).json({ success: false, error: "contentId is required" });
+      const result = await upstream(res).instagram.getContentDetail(
+        String(contentId),
+        callOptions(req)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/instagram/performance", async (req: Request, res: Response) => {
+    try {
+      const { uniqueId } = req.query;
+      if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
+      const result = await upstream(res).instagram.getPerformance(
+        String(uniqueId),
+        callOptions(req)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/instagram/performance-history", async (req: Request, res: Response) => {
+    try {
+      const { uniqueId } = req.query;
+      if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
+      const result = await upstream(res).instagram.getPerformanceHistory(
+        String(uniqueId),
+        callOptions(req)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/instagram/sponsorship", async (req: Request, res: Response) => {
+    try {
+      const { uniqueId } = req.query;
+      if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
+      const result = await upstream(res).instagram.getSponsorship(
+        String(uniqueId),
+        callOptions(req)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/instagram/audience", async (req: Request, res: Response) => {
+    try {
+      const { uniqueId } = req.query;
+      if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
+      const result = await upstream(res).instagram.getAudience(String(uniqueId), callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.post("/instagram/search", async (req: Request, res: Response) => {
+    try {
+      const { filters, query, pageSize = 20, offset = 0, sortBy, desc = true } = req.body;
+      if (!filters && !query) {
+        return res.status(400).json({ success: false, error: "filters or query is required" });
+      }
+      await sendSearchResults(req, res, "instagram-search", (onPage) =>
+        searchCreators(
+          upstream(res),
+          "instagram",
+          buildSearchRequest(
+            withSearchQuery("instagram", { filters, query, pageSize, offset, sortBy, desc })
+          ),
+          { ...callOptions(req), ...paginationOptions(req.body), onPage }
+        )
+      );
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.post("/instagram/natural-language-search", async (req: Request, res: Response) => {
+    try {
+      const { query, pageSize = 20, offset = 0 } = req.body;
+      if (!query) return res.status(400).json({ success: false, error: "query is required" });
+      await sendSearchResults(req, res, "instagram-natural-language-search", (onPage) =>
+        naturalLanguageSearchCreators(
+          upstream(res),
+          "instagram",
+          { query, pageSize, offset },
+          { ...callOptions(req), ...paginationOptions(req.body), onPage }
+        )
+      );
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/instagram/niches", async (req: Request, res: Response) => {
+    try {
+      const result = await upstream(res).instagram.getNiches(callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/youtube/profile", async (req: Request, res: Response) => {
+    try {
+      const { channelId } = req.query;
+      if (!channelId)
+        return res.status(400).json({ success: false, error: "channelId is required" });
+      const result = await upstream(res).youtube.getProfile(String(channelId), callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.post("/youtube/search", async (req: Request, res: Response) => {
+    try {
+      const { filters, query, pageSize = 20, offset = 0, sortBy, desc = true } = req.body;
+      if (!filters && !query) {
+        return res.status(400).json({ success: false, error: "filters or query is required" });
+      }
+      await sendSearchResults(req, res, "youtube-search", (onPage) =>
+        searchCreators(
+          upstream(res),
+          "youtube",
+          buildSearchRequest(
+            withSearchQuery("youtube", { filters, query, pageSize, offset, sortBy, desc })
+          ),
+          { ...callOptions(req), ...paginationOptions(req.body), onPage }
+        )
+      );
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/youtube/performance", async (req: Request, res: Response) => {
+    try {
+      const { channelId } = req.query;
+      if (!channelId)
+        return res.status(400).json({ success: false, error: "channelId is required" });
+      const result = await upstream(res).youtube.getPerformance(
+        String(channelId),
+        callOptions(req)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/youtube/performance-history", async (req: Request, res: Response) => {
+    try {
+      const { channelId } = req.query;
+      if (!channelId)
+        return res.status(400).json({ success: false, error: "channelId is required" });
+      const result = await upstream(res).youtube.getPerformanceHistory(
+        String(channelId),
+        callOptions(req)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/youtube/content-detail", async (req: Request, res: Response) => {
+    try {
+      const { contentId } = req.query;
+      if (!contentId)
+        return res.status(400).json({ success: false, error: "contentId is required" });
+      const result = await upstream(res).youtube.getContentDetail(
+        String(contentId),
+        callOptions(req)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/youtube/sponsorship", async (req: Request, res: Response) => {
+    try {
+      const { channelId } = req.query;
+      if (!channelId)
+        return res.status(400).json({ success: false, error: "channelId is required" });
+      const result = await upstream(res).youtube.getSponsorship(
+        String(channelId),
+        callOptions(req)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/youtube/contact", async (req: Request, res: Response) => {
+    try {
+      const { channelId } = req.query;
+      if (!channelId)
+        return res.status(400).json({ success: false, error: "channelId is required" });
+      const result = await upstream(res).youtube.getContact(String(channelId), callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/youtube/audience", async (req: Request, res: Response) => {
+    try {
+      const { channelId } = req.query;
+      if (!channelId)
+        return res.status(400).json({ success: false, error: "channelId is required" });
+      const result = await upstream(res).youtube.getAudience(String(channelId), callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.post("/youtube/natural-language-search", async (req: Request, res: Response) => {
+    try {
+      const { query, pageSize = 20, offset = 0 } = req.body;
+      if (!query) return res.status(400).json({ success: false, error: "query is required" });
+      await sendSearchResults(req, res, "youtube-natural-language-search", (onPage) =>
+        naturalLanguageSearchCreators(
+          upstream(res),
+          "youtube",
+          { query, pageSize, offset },
+          { ...callOptions(req), ...paginationOptions(req.body), onPage }
+        )
+      );
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/youtube/topics", async (req: Request, res: Response) => {
+    try {
+      const result = await upstream(res).youtube.getTopics(callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/youtube/niches", async (req: Request, res: Response) => {
+    try {
+      const result = await upstream(res).youtube.getNiches(callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/tiktok/profile", async (req: Request, res: Response) => {
+    try {
+      const { uniqueId } = req.query;
+      if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
+      const result = await upstream(res).tiktok.getProfile(String(uniqueId), callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.post("/tiktok/search", async (req: Request, res: Response) => {
+    try {
+      const { filters, query, pageSize = 20, offset = 0, sortBy, desc = true } = req.body;
+      if (!filters && !query) {
+        return res.status(400).json({ success: false, error: "filters or query is required" });
+      }
+      await sendSearchResults(req, res, "tiktok-search", (onPage) =>
+        searchCreators(
+          upstream(res),
+          "tiktok",
+          buildSearchRequest(
+            withSearchQuery("tiktok", { filters, query, pageSize, offset, sortBy, desc })
+          ),
+          { ...callOptions(req), ...paginationOptions(req.body), onPage }
+        )
+      );
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/tiktok/contact", async (req: Request, res: Response) => {
+    try {
+      const { uniqueId } = req.query;
+      if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
+      const result = await upstream(res).tiktok.getContact(String(uniqueId), callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/tiktok/performance", async (req: Request, res: Response) => {
+    try {
+      const { uniqueId } = req.query;
+      if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
+      const result = await upstream(res).tiktok.getPerformance(String(uniqueId), callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/tiktok/performance-history", async (req: Request, res: Response) => {
+    try {
+      const { uniqueId } = req.query;
+      if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
+      const result = await upstream(res).tiktok.getPerformanceHistory(
+        String(uniqueId),
+        callOptions(req)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/tiktok/content-detail", async (req: Request, res: Response) => {
+    try {
+      const { contentId } = req.query;
+      if (!contentId)
+        return res.status(400).json({ success: false, error: "contentId is required" });
+      const result = await upstream(res).tiktok.getContentDetail(
+        String(contentId),
+        callOptions(req)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/tiktok/audience", async (req: Request, res: Response) => {
+    try {
+      const { uniqueId } = req.query;
+      if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
+      const result = await upstream(res).tiktok.getAudience(String(uniqueId), callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.post("/tiktok/natural-language-search", async (req: Request, res: Response) => {
+    try {
+      const { query, pageSize = 20, offset = 0 } = req.body;
+      if (!query) return res.status(400).json({ success: false, error: "query is required" });
+      await sendSearchResults(req, res, "tiktok-natural-language-search", (onPage) =>
+        naturalLanguageSearchCreators(
+          upstream(res),
+          "tiktok",
+          { query, pageSize, offset },
+          { ...callOptions(req), ...paginationOptions(req.body), onPage }
+        )
+      );
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/tiktok/niches", async (req: Request, res: Response) => {
+    try {
+      const result = await upstream(res).tiktok.getNiches(callOptions(req));
+      res.json(result);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/:platform/search-filters", platformRoute, (req: Request, res: Response) => {
+    const platform = req.params.platform as Platform;
+    res.json({ success: true, data: getFilterCatalog(platform) });
+  });
+
+  router.get("/:platform/report", platformRoute, async (req: Request, res: Response) => {
+    try {
+      const platform = req.params.platform as Platform;
+      const idParam = platform === "youtube" ? "channelId" : "uniqueId";
+      const id = req.query[idParam];
+      if (!id) return res.status(400).json({ success: false, error: `${idParam} is required` });
+      const data = await getCreatorReport(
+        upstream(res),
+        platform,
+        String(id),
+        parseReportSections(req.query.sections),
+        callOptions(req)
+      );
+      res.json({ success: true, data });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/:platform/growth", platformRoute, async (req: Request, res: Response) => {
+    try {
+      const platform = req.params.platform as Platform;
+      const idParam = platform === "youtube" ? "channelId" : "uniqueId";
+      const id = req.query[idParam];
+      if (!id) return res.status(400).json({ success: false, error: `${idParam} is required` });
+      const data = await analyzeCreatorGrowth(
+        upstream(res),
+        platform,
+        String(id),
+        callOptions(req)
+      );
+      res.json({ success: true, data });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/:platform/rate", platformRoute, async (req: Request, res: Response) => {
+    try {
+      const platform = req.params.platform as Platform;
+      const idParam = platform === "youtube" ? "channelId" : "uniqueId";
+      const id = req.query[idParam];
+      if (!id) return res.status(400).json({ success: false, error: `${idParam} is required` });
+      const data = await estimateCreatorRate(
+        upstream(res),
+        platform,
+        String(id),
+        parseDeliverables(req.query.deliverables),
+        callOptions(req)
+      );
+      res.json({ success: true, data });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.post("/:platform/brand-conflicts", platformRoute, async (req: Request, res: Response) => {
+    try {
+      const platform = req.params.platform as Platform;
+      const idParam = platform === "youtube" ? "channelId" : "uniqueId";
+      const { [idParam]: id, brand, competitors, contentIds, lookbackDays } = req.body ?? {};
+      if (!id) return res.status(400).json({ success: false, error: `${idParam} is required` });
+      const data = await checkBrandConflicts(
+        upstream(res),
+        platform,
+        String(id),
+        {
+          brand: parseBrand(brand),
+          competitors: parseCompetitors(competitors),
+          contentIds: parseContentIds(contentIds),
+          lookbackDays: lookbackDays === undefined ? undefined : Number(lookbackDays),
+        },
+        callOptions(req)
+      );
+      res.json({ success: true, data });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.post("/:platform/bulk", platformRoute, async (req: Request, res: Response) => {
+    try {
+      const platform = req.params.platform as Platform;
+      const idsParam = platform === "youtube" ? "channelIds" : "uniqueIds";
+      const { sections, concurrency } = req.body;
+      if (!req.body[idsParam]) {
+        return res.status(400).json({ success: false, error: `${idsParam} is required` });
+      }
+      const format = parseExportFormat(req.query.format ?? req.body.format);
+      const columns = parseExportColumns(req.query.columns ?? req.body.columns);
+      const data = await bulkGetCreators(
+        upstream(res),
+        platform,
+        parseBulkIds(req.body[idsParam], idsParam),
+        sections ? parseReportSections(sections) : undefined,
+        { ...callOptions(req), concurrency: Number(concurrency) || undefined }
+      );
+      if (format) return sendExport(res, format, `${platform}-bulk`, bulkTable(data, columns));
+      res.json({ success: true, data });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  router.get("/compare", compare);
+  router.post("/compare", compare);
+
+  // Scores `creators` or the results of `search` against `target`
+  router.post("/audience-fit", async (req: Request, res: Response) => {
+    try {
+      if (!req.body?.target) {
+        return res.status(400).json({ success: false, error: "target is required" });
+      }
+      const data = await audienceFitScore(upstream(res), req.body, callOptions(req));
+      res.json({ success: true, data });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  // GET resolves an account; POST also stores the accounts listed in `confirm`
+  async function resolveIdentity(req: Request, res: Response) {
+    try {
+      const store = requireStore(identityStore, "identity resolution");
+      const input = { ...req.query, ...req.body };
+      if (!input.platform || !input.id) {
+        return res.status(400).json({ success: false, error: "platform and id are required" });
+      }
+      const data = await confirmAndResolveIdentity(upstream(res), store, input, callOptions(req));
+      res.json({ success: true, data });
+    } catch (error) {
+      handleError(error, res);
+    }
+  }
+
+  router.get("/creators/resolve", resolveIdentity);
+  router.post("/creators/resolve", resolveIdentity);
+
+  // =============================================================================
+  // Campaigns
+  // =============================================================================
+
+  // Called inside each route's operation, so a missing store answers 501
+  const campaigns = () => requireStore(campaignStore, "the campaigns API");
+
+  router.get("/campaigns", (_req: Request, res: Response) =>
+    jsonRoute(res, () => listCampaigns(campaigns()))
+  );
+
+  router.post("/campaigns", (req: Request, res: Response) =>
+    jsonRoute(res, () => createCampaign(campaigns(), req.body ?? {}), 201)
+  );
+
+  router.get("/campaigns/:campaignId", (req: Request, res: Response) =>
+    jsonRoute(res, () =>
+      getCampaign(campaigns(), req.params.campaignId, {
+        status: req.query.status,
+        tag: req.query.tag,
+      })
+    )
+  );
+
+  router.delete("/campaigns/:campaignId", (req: Request, res: Response) =>
+    jsonRoute(res, () => deleteCampaign(campaigns(), req.params.campaignId))
+  );
+
+  // Body: `{ creators: [{ platform, id }], status?, notes?, tags? }`
+  router.post("/campaigns/:campaignId/creators", (req: Request, res: Response) =>
+    jsonRoute(res, () =>
+      addCampaignCreators(
+        upstream(res),
+        campaigns(),
+        { ...req.body, campaignId: req.params.campaignId },
+        callOptions(req)
+      )
+    )
+  );
+
+  router.patch("/campaigns/:campaignId/creators/:platform/:id", (req: Request, res: Response) =>
+    jsonRoute(res, () => updateCampaignCreator(campaigns(), { ...req.body, ...req.params }))
+  );
+
+  router.delete("/campaigns/:campaignId/creators/:platform/:id", (req: Request, res: Response) =>
+    jsonRoute(res, () =>
+      removeCampaignCreators(campaigns(), {
+        campaignId: req.params.campaignId,
+        creators: [{ platform: req.params.platform, id: req.params.id }],
+      })
+    )
+  );
+
+  // =============================================================================
+  // Watchlist
+  // =============================================================================
+
+  const watchlist = () => requireStore(watchlistStore, "the watchlist API");
+
+  router.get("/watchlist", (_req: Request, res: Response) =>
+    jsonRoute(res, () => watchlist().list())
+  );
+
+  // Body: `{ creators: [{ platform, id }], snapshot? }`
+  router.post("/watchlist", (req: Request, res: Response) =>
+    jsonRoute(
+      res,
+      () => watchCreators(upstream(res), watchlist(), req.body ?? {}, callOptions(req)),
+      201
+    )
+  );
+
+  router.delete("/watchlist/:platform/:id", (req: Request, res: Response) =>
+    jsonRoute(res, () =>
+      unwatchCreators(watchlist(), {
+        creators: [{ platform: req.params.platform, id: req.params.id }],
+      })
+    )
+  );
+
+  // Body: `{ creators?: [{ platform, id }] }`; snapshots the whole watchlist by default
+  router.post("/watchlist/snapshots", (req: Request, res: Response) =>
+    jsonRoute(res, () =>
+      runWatchlistSnapshots(upstream(res), watchlist(), req.body ?? {}, callOptions(req))
+    )
+  );
+
+  router.get("/watchlist/:platform/:id/snapshots", (req: Request, res: Response) =>
+    jsonRoute(res, () => listCreatorSnapshots(watchlist(), req.params.platform, req.params.id))
+  );
+
+  router.get("/watchlist/:platform/:id/diff", (req: Request, res: Response) =>
+    jsonRoute(res, () =>
+      diffCreatorSnapshots(watchlist(), {
+        platform: req.params.platform,
+        id: req.params.id,
+        from: req.query.from,
+        to: req.query.to,
+      })
+    )
+  );
+
+  return router;
+}
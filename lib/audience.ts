@@ -0,0 +1,393 @@
+import { mapWithConcurrency } from "./bulk.js";
+import {
+  ApiError,
+  CallOptions,
+  CreatorDBClient,
+  PLATFORMS,
+  buildSearchRequest,
+  isPlatform,
+} from "./client.js";
+import { COUNTRY_ALPHA3 } from "./filters.js";
+import { CreatorAccount, parseCreatorAccounts } from "./identity.js";
+import { creatorId, searchCreators } from "./pagination.js";
+import { withSearchQuery } from "./query.js";
+import { ReportSectionError, toSectionError } from "./report.js";
+
+// =============================================================================
+// Audience Fit - how well a creator's audience matches a campaign target
+// =============================================================================
+
+export const MAX_FIT_CREATORS = 50;
+const FIT_CONCURRENCY = 5;
+/** Audience average age this many years off the target scores 0 */
+const AVG_AGE_TOLERANCE = 10;
+/** Upper bound used for open-ended age bands such as "65+" */
+const MAX_AGE = 80;
+
+export type AudienceDimension = "country" | "gender" | "age" | "avgAge";
+
+const DEFAULT_WEIGHTS: Record<AudienceDimension, number> = {
+  country: 0.35,
+  age: 0.3,
+  gender: 0.2,
+  avgAge: 0.15,
+};
+
+export interface AudienceTarget {
+  /** ISO alpha-2 or alpha-3 codes */
+  countries?: string[];
+  ageMin?: number;
+  ageMax?: number;
+  /** Desired female share of the audience, 0-1 */
+  femaleShare?: number;
+  avgAge?: number;
+  weights?: Partial<Record<AudienceDimension, number>>;
+}
+
+export interface DimensionScore {
+  dimension: AudienceDimension;
+  /** 0-100, or null when the creator has no data for this dimension */
+  score: number | null;
+  weight: number;
+  target: unknown;
+  actual: unknown;
+  /** Share of the audience inside the target on this dimension, when it applies */
+  shareInTarget?: number | null;
+}
+
+export interface AudienceFit extends CreatorAccount {
+  /** Weighted 0-100 score over the dimensions with data, or null when none have any */
+  score: number | null;
+  /**
+   * Estimated share of the audience inside the target on every dimension at
+   * once, assuming country, age and gender are independent
+   */
+  estimatedShareInTarget: number | null;
+  breakdown: DimensionScore[];
+  error?: ReportSectionError;
+}
+
+export interface AudienceFitResult {
+  target: AudienceTarget;
+  results: AudienceFit[];
+}
+
+// =============================================================================
+// Target Parsing
+// =============================================================================
+
+const ALPHA2 = Object.fromEntries(
+  Object.entries(COUNTRY_ALPHA3).map(([alpha2, alpha3]) => [alpha3, alpha2])
+);
+
+function optionalNumber(value: unknown, name: string, min: number, max: number) {
+  if (value === undefined || value === null || value === "") return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new ApiError(`target.${name} must be a number between ${min} and ${max}`, 400);
+  }
+  return number;
+}
+
+// 60 and 0.6 both mean 60%
+function optionalShare(value: unknown, name: string) {
+  const number = optionalNumber(value, name, 0, 100);
+  return number !== undefined && number > 1 ? number / 100 : number;
+}
+
+/**
+ * Validates a target spec such as
+ * `{ countries: ["US", "CA"], ageMin: 18, ageMax: 34, femaleShare: 0.6 }`.
+ * `ages: "18-34"` is accepted in place of ageMin/ageMax.
+ */
+export function parseAudienceTarget(value: unknown): AudienceTarget {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ApiError("target must be an object", 400);
+  }
+  const input = value as Record<string, unknown>;
+  const target: AudienceTarget = {};
+
+  if (input.countries !== undefined) {
+    const list = Array.isArray(input.countries)
+      ? input.countries
+      : String(input.countries).split(",");
+    const countries = list
+      .map((country) => String(country).trim().toUpperCase())
+      .filter(Boolean);
+    const invalid = countries.filter((country) => !/^[A-Z]{2,3}$/.test(country));
+    if (invalid.length > 0) {
+      throw new ApiError(
+        `target.countries must be ISO country codes (got ${invalid.join(", ")})`,
+        400
+      );
+    }
+    if (countries.length > 0) target.countries = [...new Set(countries)];
+  }
+
+  let ageMin = input.ageMin;
+  let ageMax = input.ageMax;
+  if (typeof input.ages === "string") {
+    const match = /^\s*(\d+)\s*[-–]\s*(\d+)\s*$/.exec(input.ages);
+    if (!match) throw new ApiError('target.ages must look like "18-34"', 400);
+    [ageMin, ageMax] = [match[1], match[2]];
+  }
+  target.ageMin = optionalNumber(ageMin, "ageMin", 0, MAX_AGE);
+  target.ageMax = optionalNumber(ageMax, "ageMax", 0, MAX_AGE);
+  if (target.ageMin !== undefined && target.ageMax !== undefined && target.ageMin > target.ageMax) {
+    throw new ApiError("target.ageMin must not be greater than target.ageMax", 400);
+  }
+  target.femaleShare = optionalShare(input.femaleShare, "femaleShare");
+  target.avgAge = optionalNumber(input.avgAge, "avgAge", 0, MAX_AGE);
+
+  if (input.weights && typeof input.weights === "object") {
+    const weights: Partial<Record<AudienceDimension, number>> = {};
+    for (const [dimension, weight] of Object.entries(input.weights)) {
+      if (!(dimension in DEFAULT_WEIGHTS)) {
+        throw new ApiError(
+          `Unknown weight "${dimension}". ` +
+            `Valid dimensions: ${Object.keys(DEFAULT_WEIGHTS).join(", ")}`,
+          400
+        );
+      }
+      const number = optionalNumber(weight, `weights.${dimension}`, 0, 100);
+      weights[dimension as AudienceDimension] = number;
+    }
+    target.weights = weights;
+  }
+
+  for (const key of Object.keys(target) as Array<keyof AudienceTarget>) {
+    if (target[key] === undefined) delete target[key];
+  }
+  if (!target.countries && target.ageMin === undefined && target.ageMax === undefined &&
+      target.femaleShare === undefined && target.avgAge === undefined) {
+    throw new ApiError(
+      "target must set at least one of countries, ageMin/ageMax (or ages), femaleShare or avgAge",
+      400
+    );
+  }
+  return target;
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+type Dimension = Omit<DimensionScore, "weight">;
+
+function record(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+function shares(list: unknown, key: string): Array<{ label: string; share: number }> {
+  if (!Array.isArray(list)) return [];
+  return list.flatMap((entry) => {
+    const { share } = record(entry);
+    const label = record(entry)[key];
+    return typeof share === "number" && typeof label === "string" ? [{ label, share }] : [];
+  });
+}
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+function countryScore(target: string[], audience: Record<string, unknown>): Dimension {
+  const codes = new Set(target.flatMap((code) => [code, COUNTRY_ALPHA3[code], ALPHA2[code]]));
+  const countries = shares(audience.audienceCountries, "country");
+  if (countries.length === 0) return { dimension: "country", score: null, target, actual: null };
+
+  const inTarget = countries
+    .filter(({ label }) => codes.has(label.toUpperCase()))
+    .reduce((sum, { share }) => sum + share, 0);
+  const share = Math.min(1, inTarget);
+  return {
+    dimension: "country",
+    score: Math.round(share * 100),
+    target,
+    actual: countries
+      .sort((a, b) => b.share - a.share)
+      .slice(0, 5)
+      .map(({ label, share }) => ({ country: label, share })),
+    shareInTarget: round(share),
+  };
+}
+
+// "18-24" -> [18, 25), "65+" -> [65, 80), "13-17" -> [13, 18)
+function parseAgeBand(band: string): [number, number] | null {
+  const range = /^(\d+)\s*[-–]\s*(\d+)$/.exec(band.trim());
+  if (range) return [Number(range[1]), Number(range[2]) + 1];
+  const open = /^(\d+)\s*\+$/.exec(band.trim());
+  return open ? [Number(open[1]), MAX_AGE] : null;
+}
+
+function ageScore(target: AudienceTarget, audience: Record<string, unknown>): Dimension {
+  const min = target.ageMin ?? 0;
+  const max = (target.ageMax ?? MAX_AGE) + 1;
+  const spec = { ageMin: target.ageMin ?? null, ageMax: target.ageMax ?? null };
+  const bands = shares(audience.audienceAges, "ageRange");
+  if (bands.length === 0) return { dimension: "age", score: null, target: spec, actual: null };
+
+  // Bands partly inside the target count in proportion to the years they share
+  let inTarget = 0;
+  for (const { label, share } of bands) {
+    const band = parseAgeBand(label);
+    if (!band) continue;
+    const overlap = Math.max(0, Math.min(band[1], max) - Math.max(band[0], min));
+    inTarget += share * (overlap / (band[1] - band[0]));
+  }
+  const share = Math.min(1, inTarget);
+  return {
+    dimension: "age",
+    score: Math.round(share * 100),
+    target: spec,
+    actual: bands.map(({ label, share }) => ({ ageRange: label, share })),
+    shareInTarget: round(share),
+  };
+}
+
+function genderScore(targetFemale: number, audience: Record<string, unknown>): Dimension {
+  const gender = record(audience.audienceGender);
+  const female =
+    typeof gender.female === "number"
+      ? gender.female
+      : typeof gender.male === "number"
+        ? 1 - gender.male
+        : null;
+  if (female === null) {
+    const target = { femaleShare: targetFemale };
+    return { dimension: "gender", score: null, target, actual: null };
+  }
+
+  // A single-gender target has a share inside it; a mix only has a distance
+  const shareInTarget = targetFemale === 1 ? female : targetFemale === 0 ? 1 - female : undefined;
+  return {
+    dimension: "gender",
+    score: Math.round(Math.max(0, 1 - Math.abs(female - targetFemale) / 0.5) * 100),
+    target: { femaleShare: targetFemale },
+    actual: { femaleShare: round(female), maleShare: round(1 - female) },
+    ...(shareInTarget === undefined ? {} : { shareInTarget: round(shareInTarget) }),
+  };
+}
+
+function avgAgeScore(targetAge: number, audience: Record<string, unknown>): Dimension {
+  const actual = typeof audience.audienceAvgAge === "number" ? audience.audienceAvgAge : null;
+  return {
+    dimension: "avgAge",
+    score:
+      actual === null
+        ? null
+        : Math.round(Math.max(0, 1 - Math.abs(actual - targetAge) / AVG_AGE_TOLERANCE) * 100),
+    target: targetAge,
+    actual,
+  };
+}
+
+/**
+ * Scores one audience payload against a target. Each targeted dimension gets
+ * a 0-100 score; the overall score is their weighted mean over the
+ * dimensions the creator has data for.
+ */
+export function scoreAudience(target: AudienceTarget, audienceData: unknown) {
+  const audience = record(audienceData);
+  const weights = { ...DEFAULT_WEIGHTS, ...target.weights };
+  const dimensions: Dimension[] = [];
+
+  if (target.countries) dimensions.push(countryScore(target.countries, audience));
+  if (target.ageMin !== undefined || target.ageMax !== undefined) {
+    dimensions.push(ageScore(target, audience));
+  }
+  if (target.femaleShare !== undefined) dimensions.push(genderScore(target.femaleShare, audience));
+  // Without an explicit average age, aim for the middle of the target age range
+  const avgAge =
+    target.avgAge ??
+    (target.ageMin !== undefined && target.ageMax !== undefined
+      ? (target.ageMin + target.ageMax) / 2
+      : undefined);
+  if (avgAge !== undefined) dimensions.push(avgAgeScore(avgAge, audience));
+
+  const breakdown = dimensions.map((entry) => ({ ...entry, weight: weights[entry.dimension] }));
+  const scored = breakdown.filter((entry) => entry.score !== null && entry.weight > 0);
+  const totalWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
+  const score =
+    totalWeight > 0
+      ? Math.round(
+          scored.reduce((sum, entry) => sum + (entry.score as number) * entry.weight, 0) /
+            totalWeight
+        )
+      : null;
+
+  const inTarget = breakdown.filter((entry) => entry.shareInTarget !== undefined);
+  const estimatedShareInTarget =
+    inTarget.length > 0 && inTarget.every((entry) => entry.shareInTarget !== null)
+      ? round(inTarget.reduce((product, entry) => product * (entry.shareInTarget as number), 1))
+      : null;
+
+  return { score, estimatedShareInTarget, breakdown };
+}
+
+// =============================================================================
+// Creators
+// =============================================================================
+
+/**
+ * Reads which creators to score: `creators` (one or more `{ platform, id }`
+ * or "platform:id"), or `search` with a platform and search arguments whose
+ * results are scored.
+ */
+async function fitCandidates(
+  client: CreatorDBClient,
+  input: Record<string, unknown>,
+  options: CallOptions
+): Promise<CreatorAccount[]> {
+  if (input.creators !== undefined) {
+    const creators = Array.isArray(input.creators) || typeof input.creators === "string"
+      ? input.creators
+      : [input.creators];
+    return parseCreatorAccounts(creators, 1, MAX_FIT_CREATORS);
+  }
+
+  const search = record(input.search);
+  if (input.search === undefined) throw new ApiError("creators or search is required", 400);
+  if (!isPlatform(search.platform)) {
+    throw new ApiError(`search.platform must be one of: ${PLATFORMS.join(", ")}`, 400);
+  }
+  if (!search.filters && !search.query) {
+    throw new ApiError("search.filters or search.query is required", 400);
+  }
+  const platform = search.platform;
+  const request = buildSearchRequest(withSearchQuery(platform, search));
+  request.pageSize = Math.min(request.pageSize, MAX_FIT_CREATORS);
+  const response = await searchCreators(client, platform, request, options);
+  return response.data.creators.map((creator) => ({ platform, id: creatorId(platform, creator) }));
+}
+
+/**
+ * Fetches each creator's audience and scores it against the target. Results
+ * are sorted best fit first; creators whose audience can't be fetched come
+ * last with an error.
+ */
+export async function audienceFitScore(
+  client: CreatorDBClient,
+  input: Record<string, unknown>,
+  options: CallOptions = {}
+): Promise<AudienceFitResult> {
+  const target = parseAudienceTarget(input.target);
+  const accounts = await fitCandidates(client, input, options);
+
+  const results = await mapWithConcurrency(accounts, FIT_CONCURRENCY, async (account) => {
+    try {
+      const response = await client[account.platform].getAudience(account.id, options);
+      return { ...account, ...scoreAudience(target, response.data) } as AudienceFit;
+    } catch (error) {
+      const fit: AudienceFit = {
+        ...account,
+        score: null,
+        estimatedShareInTarget: null,
+        breakdown: [],
+        error: toSectionError(error),
+      };
+      return fit;
+    }
+  });
+
+  results.sort((a, b) => (b.score ?? -1) - (a.score ?? -1));
+  return { target, results };
+}
@@ -0,0 +1,383 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import type { IncomingMessage } from "node:http";
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { DEFAULT_BULK_SECTIONS } from "./bulk.js";
+import { ApiError, CreatorDBClient, isPlatform, toErrorResponse } from "./client.js";
+import { ReportSection, parseReportSections } from "./report.js";
+
+// =============================================================================
+// Client Authentication - API keys, HMAC signatures, scopes and upstream keys
+// =============================================================================
+
+export const UPSTREAM_KEY_HEADER = "X-CreatorDB-Api-Key";
+const ALL_SCOPES = "*";
+const DEFAULT_MAX_CLOCK_SKEW_SECONDS = 300;
+// Upstream clients kept for bring-your-own keys; the oldest is dropped past this
+const MAX_UPSTREAM_CLIENTS = 100;
+// Nonces remembered to refuse replayed HMAC requests; the oldest are dropped past this
+const MAX_SEEN_NONCES = 100_000;
+const NONCE = /^[A-Za-z0-9_-]{16,128}$/;
+
+const authClientSchema = z
+  .object({
+    id: z.string().min(1),
+    /** Bearer key, sent as `Authorization: Bearer <key>` */
+    apiKey: z.string().min(16).optional(),
+    /** Hex SHA-256 of the bearer key, to keep the key itself out of the config */
+    apiKeySha256: z
+      .string()
+      .regex(/^[0-9a-f]{64}$/i)
+      .optional(),
+    /** Shared secret for HMAC-signed requests */
+    hmacSecret: z.string().min(16).optional(),
+    /** Route scopes the client may call; "*" for all */
+    scopes: z.array(z.string().min(1)).default([ALL_SCOPES]),
+    /** Scopes taken away again, e.g. ["contact"] */
+    deny: z.array(z.string().min(1)).default([]),
+    /** CreatorDB key used for this client's requests instead of CREATORDB_API_KEY */
+    upstreamKey: z.string().min(1).optional(),
+    /** Lets requests pick their own CreatorDB key with the X-CreatorDB-Api-Key header */
+    allowUpstreamKeyHeader: z.boolean().default(false),
+  })
+  .refine(
+    (client) => client.apiKey || client.apiKeySha256 || client.hmacSecret,
+    "needs apiKey, apiKeySha256 or hmacSecret"
+  );
+
+export const authConfigSchema = z
+  .object({
+    clients: z.array(authClientSchema).min(1),
+    /** How far an HMAC request's X-Timestamp may be from the server clock */
+    maxClockSkewSeconds: z.number().int().positive().default(DEFAULT_MAX_CLOCK_SKEW_SECONDS),
+  })
+  .refine(
+    (config) => new Set(config.clients.map((client) => client.id)).size === config.clients.length,
+    "client ids must be unique"
+  );
+
+export type AuthConfig = z.infer<typeof authConfigSchema>;
+export type AuthClient = AuthConfig["clients"][number];
+
+export interface AuthContext {
+  /** Null when authentication is off */
+  clientId: string | null;
+  method: "bearer" | "hmac" | "none";
+  scopes: string[];
+  deny: string[];
+}
+
+/** What authentication needs from a request; `url` is the path with its query string. */
+export interface AuthRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  rawBody?: Buffer;
+}
+
+const ANONYMOUS: AuthContext = { clientId: null, method: "none", scopes: [ALL_SCOPES], deny: [] };
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Loads API clients from CREATORDB_CLIENTS, which holds either JSON or the
+ * path to a JSON file. Returns undefined when none are configured, which
+ * leaves the HTTP API open.
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig | undefined {
+  const source = env.CREATORDB_CLIENTS?.trim();
+  if (!source) return undefined;
+
+  let json = source;
+  if (!source.startsWith("{")) {
+    if (!existsSync(source)) throw new Error(`Client config file not found: ${source}`);
+    json = readFileSync(source, "utf8");
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("CREATORDB_CLIENTS must be a JSON object or the path to a JSON file");
+  }
+  const result = authConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    );
+    throw new Error(`Invalid client config: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Reads allowed browser origins from CREATORDB_CORS_ORIGINS (comma-separated).
+ * Unset allows every origin.
+ */
+export function corsOriginsFromEnv(env: NodeJS.ProcessEnv = process.env): string[] | "*" {
+  const origins = (env.CREATORDB_CORS_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  return origins.length > 0 ? origins : "*";
+}
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+function authError(message: string, status: 401 | 403): ApiError {
+  const error = new ApiError(message, status);
+  error.code = status === 401 ? "unauthorized" : "forbidden";
+  return error;
+}
+
+function header(request: AuthRequest, name: string): string | undefined {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function sha256(value: string | Buffer): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function sameDigest(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function context(client: AuthClient, method: AuthContext["method"]): AuthContext {
+  return { clientId: client.id, method, scopes: client.scopes, deny: client.deny };
+}
+
+/** The string an HMAC client signs: timestamp, nonce, method, path with query, and raw body */
+export function signingPayload(
+  timestamp: string,
+  nonce: string,
+  method: string,
+  url: string,
+  body: Buffer | string = ""
+): Buffer {
+  return Buffer.concat([
+    Buffer.from(`${timestamp}\n${nonce}\n${method.toUpperCase()}\n${url}\n`),
+    Buffer.isBuffer(body) ? body : Buffer.from(body),
+  ]);
+}
+
+// Accepted nonces per client, kept until their timestamp leaves the clock-skew
+// window. Each process keeps its own, so instances behind a load balancer
+// can each accept a replay once.
+const seenNonces = new Map<string, number>();
+
+function useNonce(clientId: string, nonce: string, expiresAt: number) {
+  const now = Date.now();
+  for (const [key, expiry] of seenNonces) {
+    if (expiry > now && seenNonces.size < MAX_SEEN_NONCES) break;
+    seenNonces.delete(key);
+  }
+  const key = `${clientId}:${nonce}`;
+  if (seenNonces.has(key)) throw authError("X-Nonce was already used", 401);
+  seenNonces.set(key, expiresAt);
+}
+
+function verifyHmac(config: AuthConfig, request: AuthRequest): AuthContext {
+  const clientId = header(request, "X-Client-Id");
+  const timestamp = header(request, "X-Timestamp");
+  const nonce = header(request, "X-Nonce");
+  const signature = header(request, "X-Signature")?.replace(/^sha256=/, "");
+  if (!clientId || !timestamp || !nonce || !signature) {
+    throw authError(
+      "HMAC requests need X-Client-Id, X-Timestamp, X-Nonce and X-Signature headers",
+      401
+    );
+  }
+  if (!NONCE.test(nonce)) {
+    throw authError("X-Nonce must be 16-128 letters, digits, '-' or '_'", 401);
+  }
+
+  const client = config.clients.find((candidate) => candidate.id === clientId);
+  if (!client?.hmacSecret) throw authError("Invalid client credentials", 401);
+
+  const seconds = Number(timestamp);
+  if (!Number.isFinite(seconds)) {
+    throw authError("X-Timestamp must be a Unix timestamp in seconds", 401);
+  }
+  if (Math.abs(Date.now() / 1000 - seconds) > config.maxClockSkewSeconds) {
+    throw authError("X-Timestamp is too far from the server time", 401);
+  }
+
+  const expected = createHmac("sha256", client.hmacSecret)
+    .update(signingPayload(timestamp, nonce, request.method, request.url, request.rawBody))
+    .digest();
+  const given = /^[0-9a-f]+$/i.test(signature) ? Buffer.from(signature, "hex") : Buffer.alloc(0);
+  if (!sameDigest(expected, given)) throw authError("Invalid client credentials", 401);
+  useNonce(client.id, nonce, (seconds + config.maxClockSkewSeconds) * 1000);
+  return context(client, "hmac");
+}
+
+/**
+ * Identifies the calling client from a bearer key or an HMAC signature
+ * (X-Client-Id, X-Timestamp, X-Nonce and X-Signature headers). Throws 401 when
+ * credentials are missing or wrong; everyone is anonymous without a config.
+ */
+export function authenticate(config: AuthConfig | undefined, request: AuthRequest): AuthContext {
+  if (!config) return ANONYMOUS;
+
+  const authorization = header(request, "Authorization");
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+    if (!match) throw authError("Authorization must be a Bearer token", 401);
+    const digest = sha256(match[1]);
+    const client = config.clients.find(
+      (candidate) =>
+        (candidate.apiKey && sameDigest(sha256(candidate.apiKey), digest)) ||
+        (candidate.apiKeySha256 && sameDigest(Buffer.from(candidate.apiKeySha256, "hex"), digest))
+    );
+    if (!client) throw authError("Invalid client credentials", 401);
+    return context(client, "bearer");
+  }
+  if (header(request, "X-Signature")) return verifyHmac(config, request);
+
+  throw authError("Authentication required: send a Bearer token or an HMAC signature", 401);
+}
+
+// =============================================================================
+// Scopes
+// =============================================================================
+
+/**
+ * The route family of a path under /api: the endpoint for platform routes
+ * (`/instagram/contact` is "contact"), otherwise the first path segment
+ * ("campaigns", "watchlist", ...).
+ */
+export function routeFamily(path: string): string {
+  const [first = "", second = ""] = path.split("/").filter(Boolean);
+  return isPlatform(first) && second ? second : first;
+}
+
+// Report sections read by route families that fetch creator data on their own
+const FAMILY_SECTIONS: Record<string, ReportSection[]> = {
+  compare: ["profile", "performance", "performance-history", "audience", "sponsorship"],
+  "audience-fit": ["audience"],
+  "brand-conflicts": ["profile", "sponsorship"],
+  growth: ["performance-history"],
+  rate: ["profile", "performance"],
+  watchlist: ["profile", "performance", "sponsorship"],
+  campaigns: ["profile", "performance"],
+  creators: ["profile"],
+};
+
+/**
+ * Scopes a request under /api needs: its route family, plus a scope per
+ * section the route reads (the requested ones for report and bulk lookups),
+ * so denying "sponsorship" covers compare, watchlist diffs and the rest too.
+ */
+export function requiredScopes(path: string, query: unknown, body: unknown): string[] {
+  const family = routeFamily(path);
+  const scopes = new Set([family]);
+  const params = { ...(body as Record<string, unknown>), ...(query as Record<string, unknown>) };
+  if (family === "report") {
+    for (const section of parseReportSections(params.sections)) scopes.add(section);
+  } else if (family === "bulk") {
+    const sections =
+      params.sections === undefined ? DEFAULT_BULK_SECTIONS : parseReportSections(params.sections);
+    for (const section of sections) scopes.add(section);
+  } else {
+    for (const section of FAMILY_SECTIONS[family] ?? []) scopes.add(section);
+  }
+  return [...scopes];
+}
+
+/** Throws 403 unless the client holds every scope and none of them is denied. */
+export function authorize(auth: AuthContext, scopes: string[]) {
+  const missing = scopes.filter(
+    (scope) =>
+      auth.deny.includes(scope) ||
+      !(auth.scopes.includes(ALL_SCOPES) || auth.scopes.includes(scope))
+  );
+  if (missing.length > 0) {
+    throw authError(`Client ${auth.clientId} is not allowed scope(s): ${missing.join(", ")}`, 403);
+  }
+}
+
+// =============================================================================
+// Upstream Keys
+// =============================================================================
+
+/**
+ * The CreatorDB key for a request: the X-CreatorDB-Api-Key header when the
+ * client may send one, else the client's configured key. Undefined means the
+ * server's own CREATORDB_API_KEY.
+ */
+export function upstreamKeyFor(
+  config: AuthConfig | undefined,
+  auth: AuthContext,
+  headerKey: string | undefined
+): string | undefined {
+  const client = config?.clients.find((candidate) => candidate.id === auth.clientId);
+  if (headerKey) {
+    if (config && !client?.allowUpstreamKeyHeader) {
+      throw authError(`Client ${auth.clientId} may not send ${UPSTREAM_KEY_HEADER}`, 403);
+    }
+    return headerKey;
+  }
+  return client?.upstreamKey;
+}
+
+// =============================================================================
+// Express Middleware
+// =============================================================================
+
+/** Keeps the raw JSON body for HMAC verification; pass as `express.json({ verify })`. */
+export function captureRawBody(req: IncomingMessage, _res: unknown, buffer: Buffer) {
+  (req as IncomingMessage & { rawBody?: Buffer }).rawBody = buffer;
+}
+
+/**
+ * Authenticates and authorizes every request it's mounted on, then stores
+ * the CreatorDB client to use in `res.locals` (see `upstream`). Clients for
+ * other upstream keys are built with `createClient` and reused.
+ */
+export function createAuthMiddleware(
+  config: AuthConfig | undefined,
+  defaultClient: CreatorDBClient,
+  createClient: (apiKey: string) => CreatorDBClient
+) {
+  const clients = new Map<string, CreatorDBClient>();
+
+  const clientFor = (apiKey: string | undefined) => {
+    if (!apiKey) return defaultClient;
+    let client = clients.get(apiKey);
+    if (!client) {
+      if (clients.size >= MAX_UPSTREAM_CLIENTS) clients.delete(clients.keys().next().value!);
+      client = createClient(apiKey);
+      clients.set(apiKey, client);
+    }
+    return client;
+  };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const auth = authenticate(config, {
+        method: req.method,
+        url: req.originalUrl,
+        headers: req.headers,
+        rawBody: (req as Request & { rawBody?: Buffer }).rawBody,
+      });
+      authorize(auth, requiredScopes(req.path, req.query, req.body));
+      res.locals.auth = auth;
+      res.locals.creatordb = clientFor(upstreamKeyFor(config, auth, req.get(UPSTREAM_KEY_HEADER)));
+      next();
+    } catch (error) {
+      const status = error instanceof ApiError ? error.status : 500;
+      res.status(status).json(toErrorResponse(error));
+    }
+  };
+}
+
+/** The CreatorDB client chosen for this request by the auth middleware. */
+export function upstream(res: Response): CreatorDBClient {
+  return res.locals.creatordb as CreatorDBClient;
+}
@@ -0,0 +1,298 @@
+import { existsSync, readFileSync } from "node:fs";
+import { z } from "zod";
+import { endpointFamily } from "./cache.js";
+import type { CreatorDBClient } from "./client.js";
+import { ApiError } from "./errors.js";
+
+// =============================================================================
+// Quota Budget Guard - local daily/monthly spending caps
+// =============================================================================
+
+export type BudgetPeriod = "daily" | "monthly";
+
+export type BudgetLimits = Partial<Record<BudgetPeriod, number>>;
+
+const budgetLimitsSchema = z
+  .object({
+    daily: z.number().int().nonnegative().optional(),
+    monthly: z.number().int().nonnegative().optional(),
+  })
+  .strict();
+
+/**
+ * Request caps keyed by endpoint family ("search", "profile", "nls", ...), or
+ * "*" for all requests combined, e.g. { "search": { "daily": 200 } }.
+ */
+export const budgetConfigSchema = z.record(z.string().min(1), budgetLimitsSchema);
+
+export type BudgetConfig = Record<string, BudgetLimits>;
+
+export interface BudgetLimitStatus {
+  scope: string;
+  period: BudgetPeriod;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string;
+}
+
+/** Counter keys a request was counted against, to give back if it fails */
+export interface BudgetReservation {
+  keys: string[];
+}
+
+export interface BudgetStatus {
+  enabled: boolean;
+  lastReconciledAt: string | null;
+  limits: BudgetLimitStatus[];
+}
+
+const PERIODS: BudgetPeriod[] = ["daily", "monthly"];
+const ALL_SCOPE = "*";
+// The usage endpoint is what we reconcile against, so it never counts
+const EXEMPT_FAMILIES = new Set(["usage"]);
+
+const DEFAULT_RECONCILE_INTERVAL_MS = 15 * 60 * 1000;
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+export class BudgetExceededError extends ApiError {
+  constructor(status: BudgetLimitStatus) {
+    const target =
+      status.scope === ALL_SCOPE ? "all endpoints" : `"${status.scope}" endpoints`;
+    const retryAfter = Math.max(
+      0,
+      Math.ceil((Date.parse(status.resetsAt) - Date.now()) / 1000)
+    );
+    super(
+      `Budget exceeded: ${status.used}/${status.limit} ${status.period} requests ` +
+        `used for ${target}. Resets at ${status.resetsAt}.`,
+      429,
+      retryAfter
+    );
+    this.code = "budget_exceeded";
+    this.details = { ...status };
+  }
+}
+
+// =============================================================================
+// Periods (UTC)
+// =============================================================================
+
+function periodStart(period: BudgetPeriod, now: Date): Date {
+  return period === "daily"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function periodEnd(period: BudgetPeriod, now: Date): Date {
+  return period === "daily"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+function counterKey(scope: string, period: BudgetPeriod, now: Date): string {
+  return `${period}:${periodStart(period, now).getTime()}:${scope}`;
+}
+
+// =============================================================================
+// Budget Guard
+// =============================================================================
+
+export class BudgetGuard {
+  private readonly counts = new Map<string, number>();
+  private lastReconciledAt: number | undefined;
+  private reconciling: Promise<void> | undefined;
+
+  constructor(
+    private readonly limits: BudgetConfig,
+    private readonly reconcileIntervalMs = DEFAULT_RECONCILE_INTERVAL_MS
+  ) {}
+
+  /** Whether requests to this endpoint count against the budget. */
+  tracks(endpoint: string): boolean {
+    return !EXEMPT_FAMILIES.has(endpointFamily(endpoint));
+  }
+
+  /**
+   * Throws BudgetExceededError if a request to this endpoint would go over
+   * any configured cap.
+   */
+  check(endpoint: string) {
+    if (!this.tracks(endpoint)) return;
+
+    const family = endpointFamily(endpoint);
+    for (const scope of [family, ALL_SCOPE]) {
+      for (const status of this.scopeStatus(scope)) {
+        if (status.remaining <= 0) {
+          throw new BudgetExceededError(status);
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks the caps and counts the request against them straight away, so
+   * concurrent calls can't all pass `check` and then overshoot together.
+   * Pass the reservation to `release` if the request fails.
+   */
+  reserve(endpoint: string): BudgetReservation {
+    if (!this.tracks(endpoint)) return { keys: [] };
+    this.check(endpoint);
+
+    const family = endpointFamily(endpoint);
+    const now = new Date();
+    this.pruneCounters(now);
+    const keys = [family, ALL_SCOPE].flatMap((scope) =>
+      PERIODS.map((period) => counterKey(scope, period, now))
+    );
+    for (const key of keys) this.counts.set(key, (this.counts.get(key) ?? 0) + 1);
+    return { keys };
+  }
+
+  /** Gives back the units of a request that failed. */
+  release(reservation: BudgetReservation) {
+    for (const key of reservation.keys) {
+      // The counter is gone if its period ended while the request was in flight
+      const count = this.counts.get(key);
+      if (count) this.counts.set(key, count - 1);
+    }
+  }
+
+  status(): BudgetStatus {
+    return {
+      enabled: true,
+      lastReconciledAt: this.lastReconciledAt
+        ? new Date(this.lastReconciledAt).toISOString()
+        : null,
+      limits: Object.keys(this.limits).flatMap((scope) => this.scopeStatus(scope)),
+    };
+  }
+
+  /**
+   * Starts a background reconciliation if the interval has elapsed. Never
+   * blocks or fails the calling request.
+   */
+  reconcileIfDue(client: CreatorDBClient) {
+    if (this.reconciling) return;
+    const sinceLast = Date.now() - (this.lastReconciledAt ?? 0);
+    if (sinceLast < this.reconcileIntervalMs) return;
+
+    this.reconciling = this.reconcile(client)
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Warning: budget reconciliation failed: ${message}`);
+      })
+      .finally(() => {
+        this.reconciling = undefined;
+      });
+  }
+
+  /**
+   * Raises local counters to the upstream `/usage` totals for the current
+   * day and month, so spending from other processes or restarts is counted.
+   */
+  async reconcile(client: CreatorDBClient) {
+    const now = new Date();
+
+    for (const period of PERIODS) {
+      const usage = await client.getUsage(
+        {
+          start: String(periodStart(period, now).getTime()),
+          end: String(now.getTime()),
+        },
+        { cache: "bypass" }
+      );
+
+      const upstream = new Map<string, number>();
+      let total = 0;
+      for (const entry of usage.data.endpoints ?? []) {
+        const requests = entry.requests ?? 0;
+        const family = endpointFamily(entry.endpoint);
+        upstream.set(family, (upstream.get(family) ?? 0) + requests);
+        total += requests;
+      }
+      upstream.set(ALL_SCOPE, usage.data.totalRequests ?? total);
+
+      for (const [scope, used] of upstream) {
+        const key = counterKey(scope, period, now);
+        this.counts.set(key, Math.max(this.counts.get(key) ?? 0, used));
+      }
+    }
+
+    this.lastReconciledAt = Date.now();
+  }
+
+  private scopeStatus(scope: string): BudgetLimitStatus[] {
+    const limits = this.limits[scope];
+    if (!limits) return [];
+
+    const now = new Date();
+    return PERIODS.filter((period) => limits[period] !== undefined).map((period) => {
+      const limit = limits[period]!;
+      const used = this.counts.get(counterKey(scope, period, now)) ?? 0;
+      return {
+        scope,
+        period,
+        limit,
+        used,
+        remaining: Math.max(0, limit - used),
+        resetsAt: periodEnd(period, now).toISOString(),
+      };
+    });
+  }
+
+  // Drops counters from past days and months
+  private pruneCounters(now: Date) {
+    const current = new Set(
+      PERIODS.map((period) => `${period}:${periodStart(period, now).getTime()}:`)
+    );
+    for (const key of this.counts.keys()) {
+      const prefix = key.slice(0, key.lastIndexOf(":") + 1);
+      if (!current.has(prefix)) this.counts.delete(key);
+    }
+  }
+}
+
+/**
+ * Reports the guard's status, or a disabled status when no budget is set.
+ */
+export function budgetStatus(guard: BudgetGuard | undefined): BudgetStatus {
+  return guard?.status() ?? { enabled: false, lastReconciledAt: null, limits: [] };
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Builds a BudgetGuard from CREATORDB_BUDGET, which holds either a JSON
+ * BudgetConfig or the path to a JSON file containing one. Returns undefined
+ * when no budget is configured.
+ */
+export function createBudgetGuardFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): BudgetGuard | undefined {
+  const raw = env.CREATORDB_BUDGET?.trim();
+  if (!raw) return undefined;
+
+  const json = raw.startsWith("{") || !existsSync(raw) ? raw : readFileSync(raw, "utf8");
+  let config: unknown;
+  try {
+    config = JSON.parse(json);
+  } catch {
+    throw new Error("CREATORDB_BUDGET must be a JSON object or the path to a JSON file");
+  }
+  const result = budgetConfigSchema.safeParse(config);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    );
+    throw new Error(`Invalid budget config: ${issues.join("; ")}`);
+  }
+
+  const minutes = Number(env.CREATORDB_BUDGET_RECONCILE_MINUTES);
+  return new BudgetGuard(result.data, minutes > 0 ? minutes * 60 * 1000 : undefined);
+}
@@ -0,0 +1,111 @@
+import { BudgetExceededError } from "./budget.js";
+import { ApiError, CallOptions, CreatorDBClient, Platform } from "./client.js";
+import {
+  CreatorReport,
+  ReportSection,
+  ReportSectionError,
+  getCreatorReport,
+  toSectionError,
+} from "./report.js";
+
+// =============================================================================
+// Bulk Lookups - creator reports for lists of IDs with bounded concurrency
+// =============================================================================
+
+export const MAX_BULK_IDS = 500;
+export const DEFAULT_BULK_SECTIONS: ReportSection[] = ["profile", "performance"];
+const DEFAULT_CONCURRENCY = 5;
+const MAX_CONCURRENCY = 10;
+
+export type BulkResult =
+  | { id: string; success: true; data: CreatorReport }
+  | { id: string; success: false; error: ReportSectionError };
+
+export interface BulkResponse {
+  platform: Platform;
+  sections: ReportSection[];
+  requested: number;
+  succeeded: number;
+  failed: number;
+  results: BulkResult[];
+}
+
+export interface BulkOptions extends CallOptions {
+  /** Lookups in flight at once (default 5, max 10) */
+  concurrency?: number;
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight, keeping
+ * results in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+}
+
+/**
+ * Validates a list of IDs from tool arguments or a request body, dropping
+ * blanks and duplicates.
+ */
+export function parseBulkIds(value: unknown, name: string): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ApiError(`${name} must be a non-empty array of IDs`, 400);
+  }
+  const ids = [...new Set(value.map((id) => String(id).trim()).filter(Boolean))];
+  if (ids.length > MAX_BULK_IDS) {
+    throw new ApiError(`${name} can contain at most ${MAX_BULK_IDS} IDs (got ${ids.length})`, 400);
+  }
+  return ids;
+}
+
+/**
+ * Fetches a creator report for every ID. A failing ID is reported in its own
+ * result instead of aborting the batch; once the request budget runs out the
+ * remaining IDs fail fast without calling upstream.
+ */
+export async function bulkGetCreators(
+  client: CreatorDBClient,
+  platform: Platform,
+  ids: string[],
+  sections: ReportSection[] = DEFAULT_BULK_SECTIONS,
+  { concurrency, ...options }: BulkOptions = {}
+): Promise<BulkResponse> {
+  const limit = Math.min(MAX_CONCURRENCY, Math.max(1, concurrency || DEFAULT_CONCURRENCY));
+  let budgetError: BudgetExceededError | undefined;
+
+  const results = await mapWithConcurrency(ids, limit, async (id): Promise<BulkResult> => {
+    if (budgetError) return { id, success: false, error: toSectionError(budgetError) };
+    try {
+      const data = await getCreatorReport(client, platform, id, sections, options);
+      return { id, success: true, data };
+    } catch (error) {
+      if (error instanceof BudgetExceededError) budgetError = error;
+      return { id, success: false, error: toSectionError(error) };
+    }
+  });
+
+  const succeeded = results.filter((result) => result.success).length;
+  return {
+    platform,
+    sections,
+    requested: ids.length,
+    succeeded,
+    failed: ids.length - succeeded,
+    results,
+  };
+}
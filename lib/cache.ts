@@ -0,0 +1,138 @@
+// =============================================================================
+// Response Cache - saves CreatorDB quota on repeated lookups
+// =============================================================================
+
+/**
+ * Per-call cache behavior: "bypass" skips the cache entirely (no read, no
+ * write), "refresh" skips the read but stores the fresh response.
+ */
+export type CacheMode = "bypass" | "refresh";
+
+export type CacheStatus = "hit" | "miss" | CacheMode;
+
+export interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheMeta {
+  status: CacheStatus;
+  storedAt?: number;
+  expiresAt?: number;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// =============================================================================
+// TTLs
+// =============================================================================
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Default TTL in seconds per endpoint family (the last path segment of the
+ * upstream endpoint). A TTL of 0 disables caching for that family.
+ */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  niches: 3 * DAY,
+  topics: 3 * DAY,
+  profile: 6 * HOUR,
+  contact: DAY,
+  "content-detail": 6 * HOUR,
+  performance: 6 * HOUR,
+  "performance-history": 12 * HOUR,
+  sponsorship: 6 * HOUR,
+  audience: 12 * HOUR,
+  search: 10 * MINUTE,
+  nls: 10 * MINUTE,
+  usage: 0,
+};
+
+/**
+ * Returns the endpoint family of an upstream endpoint, e.g.
+ * "/instagram/performance-history?uniqueId=x" -> "performance-history".
+ */
+export function endpointFamily(endpoint: string): string {
+  const path = endpoint.split("?")[0];
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+export function isCacheMode(value: unknown): value is CacheMode {
+  return value === "bypass" || value === "refresh";
+}
+
+// =============================================================================
+// In-Memory LRU Backend
+// =============================================================================
+
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+
+    // Re-insert so the Map's insertion order tracks recency of use
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Builds the cache store selected by CREATORDB_CACHE ("memory", "sqlite" or
+ * "off"). The SQLite backend is loaded lazily so the native module is only
+ * required when it is actually used.
+ */
+export async function createCacheStoreFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<CacheStore | undefined> {
+  const backend = env.CREATORDB_CACHE ?? "memory";
+
+  switch (backend) {
+    case "off":
+      return undefined;
+    case "memory":
+      return new MemoryCacheStore(Number(env.CREATORDB_CACHE_MAX_ENTRIES) || undefined);
+    case "sqlite": {
+      const { SqliteCacheStore } = await import("./sqlite-cache.js");
+      return new SqliteCacheStore(env.CREATORDB_CACHE_PATH ?? "data/cache.sqlite");
+    }
+    default:
+      throw new Error(`Unknown CREATORDB_CACHE backend: ${backend}`);
+  }
+}
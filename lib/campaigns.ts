@@ -0,0 +1,375 @@
+import { randomUUID } from "node:crypto";
+import { mapWithConcurrency } from "./bulk.js";
+import { ApiError, CallOptions, CreatorDBClient } from "./client.js";
+import { CreatorAccount, accountKey, parseCreatorAccounts, toCreatorAccount } from "./identity.js";
+import { ReportSectionError, ReportSummary, getCreatorReport, toSectionError } from "./report.js";
+
+// =============================================================================
+// Campaigns - persistent shortlists of creators with status, notes and tags
+// =============================================================================
+
+export type CreatorStatus = "prospect" | "contacted" | "booked";
+export const CREATOR_STATUSES: CreatorStatus[] = ["prospect", "contacted", "booked"];
+
+export const MAX_CAMPAIGN_CREATORS_PER_CALL = 100;
+const MAX_NAME_LENGTH = 200;
+const MAX_NOTES_LENGTH = 5000;
+const MAX_TAGS = 20;
+const SNAPSHOT_CONCURRENCY = 5;
+
+export interface Campaign {
+  id: string;
+  name: string;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Profile metrics as last fetched, so a shortlist reads without upstream calls */
+export interface CreatorSnapshot extends ReportSummary {
+  fetchedAt: string;
+}
+
+export interface CampaignCreator extends CreatorAccount {
+  campaignId: string;
+  status: CreatorStatus;
+  notes: string | null;
+  tags: string[];
+  snapshot: CreatorSnapshot | null;
+  addedAt: string;
+  updatedAt: string;
+}
+
+export interface CampaignSummary extends Campaign {
+  creatorCount: number;
+  statusCounts: Record<CreatorStatus, number>;
+}
+
+export interface CampaignDetails {
+  campaign: CampaignSummary;
+  creators: CampaignCreator[];
+}
+
+// =============================================================================
+// Campaign Store
+// =============================================================================
+
+export interface CampaignStore {
+  saveCampaign(campaign: Campaign): Promise<void>;
+  getCampaign(id: string): Promise<Campaign | undefined>;
+  /** Newest first */
+  listCampaigns(): Promise<Campaign[]>;
+  /** Deletes the campaign and its creators; false when it didn't exist. */
+  deleteCampaign(id: string): Promise<boolean>;
+  /** Creators in the order they were added */
+  listCreators(campaignId: string): Promise<CampaignCreator[]>;
+  saveCreator(creator: CampaignCreator): Promise<void>;
+  removeCreator(campaignId: string, account: CreatorAccount): Promise<boolean>;
+}
+
+export class MemoryCampaignStore implements CampaignStore {
+  private readonly campaigns = new Map<string, Campaign>();
+  private readonly creators = new Map<string, Map<string, CampaignCreator>>();
+
+  async saveCampaign(campaign: Campaign): Promise<void> {
+    this.campaigns.set(campaign.id, { ...campaign });
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    const campaign = this.campaigns.get(id);
+    return campaign && { ...campaign };
+  }
+
+  async listCampaigns(): Promise<Campaign[]> {
+    return [...this.campaigns.values()]
+      .map((campaign) => ({ ...campaign }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async deleteCampaign(id: string): Promise<boolean> {
+    this.creators.delete(id);
+    return this.campaigns.delete(id);
+  }
+
+  async listCreators(campaignId: string): Promise<CampaignCreator[]> {
+    return [...(this.creators.get(campaignId)?.values() ?? [])].map((creator) => ({
+      ...creator,
+      tags: [...creator.tags],
+    }));
+  }
+
+  async saveCreator(creator: CampaignCreator): Promise<void> {
+    let entries = this.creators.get(creator.campaignId);
+    if (!entries) this.creators.set(creator.campaignId, (entries = new Map()));
+    entries.set(accountKey(creator), { ...creator, tags: [...creator.tags] });
+  }
+
+  async removeCreator(campaignId: string, account: CreatorAccount): Promise<boolean> {
+    return this.creators.get(campaignId)?.delete(accountKey(account)) ?? false;
+  }
+}
+
+/**
+ * Builds the campaign store from CREATORDB_CAMPAIGN_STORE ("sqlite" or
+ * "memory", default `defaultBackend`). The SQLite file lives at
+ * CREATORDB_CAMPAIGN_PATH (default data/campaigns.sqlite).
+ */
+export async function createCampaignStoreFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  defaultBackend: "memory" | "sqlite" = "sqlite"
+): Promise<CampaignStore> {
+  const backend = env.CREATORDB_CAMPAIGN_STORE ?? defaultBackend;
+
+  switch (backend) {
+    case "memory":
+      return new MemoryCampaignStore();
+    case "sqlite": {
+      const { SqliteCampaignStore } = await import("./sqlite-campaigns.js");
+      return new SqliteCampaignStore(env.CREATORDB_CAMPAIGN_PATH ?? "data/campaigns.sqlite");
+    }
+    default:
+      throw new Error(`Unknown CREATORDB_CAMPAIGN_STORE backend: ${backend}`);
+  }
+}
+
+// =============================================================================
+// Input Parsing
+// =============================================================================
+
+function optionalText(value: unknown, name: string, maxLength: number): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  if (typeof value !== "string") throw new ApiError(`${name} must be a string`, 400);
+  const text = value.trim();
+  if (text.length > maxLength) {
+    throw new ApiError(`${name} must be at most ${maxLength} characters`, 400);
+  }
+  return text || null;
+}
+
+function parseStatus(value: unknown): CreatorStatus | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (!CREATOR_STATUSES.includes(value as CreatorStatus)) {
+    throw new ApiError(`status must be one of: ${CREATOR_STATUSES.join(", ")}`, 400);
+  }
+  return value as CreatorStatus;
+}
+
+// Tags are lowercased so "VIP" and "vip" are one tag
+function parseTags(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  const tags = (Array.isArray(value) ? value : String(value).split(","))
+    .map((tag) => String(tag).trim().toLowerCase())
+    .filter(Boolean);
+  const unique = [...new Set(tags)];
+  if (unique.length > MAX_TAGS) throw new ApiError(`tags must list at most ${MAX_TAGS} tags`, 400);
+  return unique;
+}
+
+export interface CreatorUpdate {
+  status?: CreatorStatus;
+  /** null clears the notes */
+  notes?: string | null;
+  /** Replaces the tags */
+  tags?: string[];
+}
+
+/** Reads optional `status`, `notes` and `tags` from tool arguments or a request body. */
+export function parseCreatorUpdate(input: Record<string, unknown>): CreatorUpdate {
+  const update: CreatorUpdate = {};
+  const status = parseStatus(input.status);
+  const notes = optionalText(input.notes, "notes", MAX_NOTES_LENGTH);
+  const tags = parseTags(input.tags);
+  if (status !== undefined) update.status = status;
+  if (notes !== undefined) update.notes = notes;
+  if (tags !== undefined) update.tags = tags;
+  return update;
+}
+
+// =============================================================================
+// Campaign Operations
+// =============================================================================
+
+async function requireCampaign(store: CampaignStore, id: unknown): Promise<Campaign> {
+  if (typeof id !== "string" || !id.trim()) throw new ApiError("campaignId is required", 400);
+  const campaign = await store.getCampaign(id.trim());
+  if (!campaign) throw new ApiError(`Campaign not found: ${id}`, 404);
+  return campaign;
+}
+
+function summarize(campaign: Campaign, creators: CampaignCreator[]): CampaignSummary {
+  const statusCounts = Object.fromEntries(CREATOR_STATUSES.map((status) => [status, 0])) as Record<
+    CreatorStatus,
+    number
+  >;
+  for (const creator of creators) statusCounts[creator.status]++;
+  return { ...campaign, creatorCount: creators.length, statusCounts };
+}
+
+async function touch(store: CampaignStore, campaign: Campaign) {
+  await store.saveCampaign({ ...campaign, updatedAt: new Date().toISOString() });
+}
+
+export async function createCampaign(
+  store: CampaignStore,
+  input: Record<string, unknown>
+): Promise<CampaignSummary> {
+  const name = optionalText(input.name, "name", MAX_NAME_LENGTH);
+  if (!name) throw new ApiError("name is required", 400);
+  const now = new Date().toISOString();
+  const campaign: Campaign = {
+    id: randomUUID(),
+    name,
+    description: optionalText(input.description, "description", MAX_NOTES_LENGTH) ?? null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await store.saveCampaign(campaign);
+  return summarize(campaign, []);
+}
+
+export async function listCampaigns(store: CampaignStore): Promise<CampaignSummary[]> {
+  const campaigns = await store.listCampaigns();
+  return Promise.all(
+    campaigns.map(async (campaign) => summarize(campaign, await store.listCreators(campaign.id)))
+  );
+}
+
+/**
+ * Returns a campaign with its creators, optionally only those with a given
+ * `status` or `tag`. Counts in the summary always cover every creator.
+ */
+export async function getCampaign(
+  store: CampaignStore,
+  campaignId: unknown,
+  filter: { status?: unknown; tag?: unknown } = {}
+): Promise<CampaignDetails> {
+  const campaign = await requireCampaign(store, campaignId);
+  const creators = await store.listCreators(campaign.id);
+  const status = parseStatus(filter.status);
+  const tag = typeof filter.tag === "string" ? filter.tag.trim().toLowerCase() : "";
+  return {
+    campaign: summarize(campaign, creators),
+    creators: creators.filter(
+      (creator) => (!status || creator.status === status) && (!tag || creator.tags.includes(tag))
+    ),
+  };
+}
+
+export async function deleteCampaign(store: CampaignStore, campaignId: unknown) {
+  const campaign = await requireCampaign(store, campaignId);
+  await store.deleteCampaign(campaign.id);
+  return { deleted: campaign.id };
+}
+
+async function fetchSnapshot(
+  client: CreatorDBClient,
+  account: CreatorAccount,
+  options: CallOptions
+): Promise<CreatorSnapshot> {
+  const { platform, id } = account;
+  const report = await getCreatorReport(client, platform, id, ["profile", "performance"], options);
+  return { ...report.summary, fetchedAt: report.generatedAt };
+}
+
+export interface AddCreatorsResult {
+  campaign: CampaignSummary;
+  added: CampaignCreator[];
+  /** Creators already in the campaign; their snapshot is refreshed and fields updated */
+  updated: CampaignCreator[];
+  /** Creators whose snapshot couldn't be fetched; they are saved without one */
+  snapshotErrors: Array<CreatorAccount & { error: ReportSectionError }>;
+}
+
+/**
+ * Adds creators to a campaign with an optional status, notes and tags, and
+ * caches a snapshot of each one's profile metrics. Creators already in the
+ * campaign keep their other fields and get a fresh snapshot.
+ */
+export async function addCampaignCreators(
+  client: CreatorDBClient,
+  store: CampaignStore,
+  input: Record<string, unknown>,
+  options: CallOptions = {}
+): Promise<AddCreatorsResult> {
+  const campaign = await requireCampaign(store, input.campaignId);
+  const accounts = parseCreatorAccounts(input.creators, 1, MAX_CAMPAIGN_CREATORS_PER_CALL);
+  const update = parseCreatorUpdate(input);
+  const existing = new Map(
+    (await store.listCreators(campaign.id)).map((creator) => [accountKey(creator), creator])
+  );
+
+  const snapshotErrors: AddCreatorsResult["snapshotErrors"] = [];
+  const snapshots = await mapWithConcurrency(accounts, SNAPSHOT_CONCURRENCY, async (account) => {
+    try {
+      return await fetchSnapshot(client, account, options);
+    } catch (error) {
+      snapshotErrors.push({ ...account, error: toSectionError(error) });
+      return null;
+    }
+  });
+
+  const now = new Date().toISOString();
+  const added: CampaignCreator[] = [];
+  const updated: CampaignCreator[] = [];
+  for (const [index, account] of accounts.entries()) {
+    const previous = existing.get(accountKey(account));
+    const creator: CampaignCreator = {
+      campaignId: campaign.id,
+      platform: account.platform,
+      id: account.id,
+      status: update.status ?? previous?.status ?? "prospect",
+      notes: update.notes !== undefined ? update.notes : (previous?.notes ?? null),
+      tags: update.tags ?? previous?.tags ?? [],
+      snapshot: snapshots[index] ?? previous?.snapshot ?? null,
+      addedAt: previous?.addedAt ?? now,
+      updatedAt: now,
+    };
+    await store.saveCreator(creator);
+    (previous ? updated : added).push(creator);
+  }
+  await touch(store, campaign);
+
+  return {
+    campaign: summarize(campaign, await store.listCreators(campaign.id)),
+    added,
+    updated,
+    snapshotErrors,
+  };
+}
+
+/** Changes one creator's status, notes or tags. */
+export async function updateCampaignCreator(
+  store: CampaignStore,
+  input: Record<string, unknown>
+): Promise<CampaignCreator> {
+  const campaign = await requireCampaign(store, input.campaignId);
+  const account = toCreatorAccount(input.platform, input.id);
+  const update = parseCreatorUpdate(input);
+  if (Object.keys(update).length === 0) {
+    throw new ApiError("Nothing to update: set status, notes or tags", 400);
+  }
+
+  const creators = await store.listCreators(campaign.id);
+  const current = creators.find((creator) => accountKey(creator) === accountKey(account));
+  if (!current) {
+    throw new ApiError(`${accountKey(account)} is not in campaign ${campaign.id}`, 404);
+  }
+  const creator = { ...current, ...update, updatedAt: new Date().toISOString() };
+  await store.saveCreator(creator);
+  await touch(store, campaign);
+  return creator;
+}
+
+/** Removes creators from a campaign; IDs that weren't in it are reported as `notFound`. */
+export async function removeCampaignCreators(store: CampaignStore, input: Record<string, unknown>) {
+  const campaign = await requireCampaign(store, input.campaignId);
+  const accounts = parseCreatorAccounts(input.creators, 1, MAX_CAMPAIGN_CREATORS_PER_CALL);
+  const removed: CreatorAccount[] = [];
+  const notFound: CreatorAccount[] = [];
+  for (const account of accounts) {
+    ((await store.removeCreator(campaign.id, account)) ? removed : notFound).push(account);
+  }
+  if (removed.length > 0) await touch(store, campaign);
+  return { removed, notFound };
+}
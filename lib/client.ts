@@ -0,0 +1,680 @@
+// =============================================================================
+// CreatorDB API Client - shared by the MCP server, Express server and Vercel
+// =============================================================================
+
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import {
+  apiResponseSchema,
+  audienceSchema,
+  contactSchema,
+  contentDetailSchema,
+  instagramPerformanceSchema,
+  instagramProfileSchema,
+  instagramSearchResultsSchema,
+  nicheSchema,
+  performanceHistorySchema,
+  sponsorshipSchema,
+  tiktokPerformanceSchema,
+  tiktokProfileSchema,
+  tiktokSearchResultsSchema,
+  topicSchema,
+  usageSchema,
+  youtubePerformanceSchema,
+  youtubeProfileSchema,
+  youtubeSearchResultsSchema,
+} from "./schemas.js";
+import {
+  CacheMeta,
+  CacheMode,
+  CacheStore,
+  DEFAULT_CACHE_TTLS,
+  endpointFamily,
+} from "./cache.js";
+import type { BudgetGuard, BudgetReservation } from "./budget.js";
+import { ApiError, ResponseValidationError } from "./errors.js";
+import type { ConcurrencyLimiter } from "./rate-limit.js";
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  TimeoutError,
+  backoffDelay,
+  fetchText,
+  parseRetryAfter,
+  retryPolicyFromEnv,
+  sleep,
+} from "./retry.js";
+
+export { ApiError, ResponseValidationError, toErrorResponse } from "./errors.js";
+
+export const API_BASE_URL = "https://apiv3.creatordb.app";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type Platform = "instagram" | "youtube" | "tiktok";
+
+export const PLATFORMS: Platform[] = ["instagram", "youtube", "tiktok"];
+
+export function isPlatform(value: unknown): value is Platform {
+  return PLATFORMS.includes(value as Platform);
+}
+
+export interface SearchFilter {
+  filterName: string;
+  op: "in" | ">" | "=" | "<";
+  value: string | number | string[] | boolean;
+  isFuzzySearch?: boolean;
+}
+
+export interface SearchRequest {
+  filters: SearchFilter[];
+  pageSize: number;
+  offset: number;
+  sortBy?: string;
+  desc?: boolean;
+}
+
+export interface NaturalLanguageSearchRequest {
+  query: string;
+  pageSize: number;
+  offset: number;
+}
+
+export interface UsageRange {
+  start?: string;
+  end?: string;
+}
+
+export interface ApiResponse<T = unknown> {
+  success: boolean;
+  data: T;
+  traceId?: string | null;
+  timestamp?: number | string | null;
+  /** Present when the payload failed schema validation in "warn" mode. */
+  warnings?: string[];
+  /** Present when the client has a cache store configured. */
+  cache?: CacheMeta;
+}
+
+/**
+ * How upstream payloads that don't match their schema are handled:
+ * "strict" throws a ResponseValidationError, "warn" logs and attaches
+ * `warnings` to the response, "off" skips validation entirely.
+ */
+export type ValidationMode = "strict" | "warn" | "off";
+
+const VALIDATION_MODES: ValidationMode[] = ["strict", "warn", "off"];
+
+/**
+ * Reads CREATORDB_RESPONSE_VALIDATION. Throws on anything but strict, warn or
+ * off, so a typo fails at startup instead of silently skipping validation.
+ */
+export function validationModeFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ValidationMode | undefined {
+  const value = env.CREATORDB_RESPONSE_VALIDATION;
+  if (!value) return undefined;
+  if (!VALIDATION_MODES.includes(value as ValidationMode)) {
+    throw new Error(
+      `CREATORDB_RESPONSE_VALIDATION must be one of ${VALIDATION_MODES.join(", ")}, got "${value}"`
+    );
+  }
+  return value as ValidationMode;
+}
+
+export interface CreatorDBClientOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  validation?: ValidationMode;
+  cache?: CacheStore;
+  /** Overrides for DEFAULT_CACHE_TTLS, in seconds per endpoint family. */
+  cacheTtls?: Record<string, number>;
+  /** Overrides for DEFAULT_RETRY_POLICY and the retry env vars. */
+  retry?: Partial<RetryPolicy>;
+  /** Enforces local request caps before each upstream call. */
+  budget?: BudgetGuard;
+  /** Caps upstream requests in flight; share one to cap several clients together. */
+  concurrency?: ConcurrencyLimiter;
+}
+
+export interface CallOptions {
+  cache?: CacheMode;
+  /** Overrides the client's per-attempt timeout for this call. */
+  timeoutMs?: number;
+}
+
+export interface RequestOptions<T> extends CallOptions {
+  method?: "GET" | "POST";
+  body?: unknown;
+  schema?: z.ZodType<T>;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Parses an upstream body, returning undefined for empty or non-JSON bodies
+// (e.g. an HTML error page from a proxy)
+function parseJson(text: string): Record<string, any> | undefined {
+  try {
+    const data = JSON.parse(text);
+    return data !== null && typeof data === "object" ? data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function sanitizeId(id: string): string {
+  return encodeURIComponent(id.replace(/^@/, ""));
+}
+
+/**
+ * Builds an upstream search body from loosely-typed tool arguments or request
+ * bodies, applying the same paging defaults everywhere.
+ */
+export function buildSearchRequest(input: Record<string, unknown>): SearchRequest {
+  const searchBody: SearchRequest = {
+    filters: input.filters as SearchFilter[],
+    pageSize: (input.pageSize as number) || 20,
+    offset: (input.offset as number) || 0,
+  };
+  if (input.sortBy) searchBody.sortBy = input.sortBy as string;
+  if (input.desc !== undefined) searchBody.desc = input.desc as boolean;
+  return searchBody;
+}
+
+/**
+ * Builds an upstream natural language search body with the default paging.
+ */
+export function buildNaturalLanguageSearchRequest(
+  input: Record<string, unknown>
+): NaturalLanguageSearchRequest {
+  return {
+    query: input.query as string,
+    pageSize: (input.pageSize as number) || 20,
+    offset: (input.offset as number) || 0,
+  };
+}
+
+// =============================================================================
+// Platform Clients
+// =============================================================================
+
+export class InstagramClient {
+  constructor(private readonly client: CreatorDBClient) {}
+
+  getProfile(uniqueId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/instagram/profile?uniqueId=${sanitizeId(uniqueId)}`,
+      { ...options, schema: instagramProfileSchema }
+    );
+  }
+
+  getContact(uniqueId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/instagram/contact?uniqueId=${sanitizeId(uniqueId)}`,
+      { ...options, schema: contactSchema }
+    );
+  }
+
+  getContentDetail(contentId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/instagram/content-detail?contentId=${encodeURIComponent(contentId)}`,
+      { ...options, schema: contentDetailSchema }
+    );
+  }
+
+  getPerformance(uniqueId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/instagram/performance?uniqueId=${sanitizeId(uniqueId)}`,
+      { ...options, schema: instagramPerformanceSchema }
+    );
+  }
+
+  getPerformanceHistory(uniqueId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/instagram/performance-history?uniqueId=${sanitizeId(uniqueId)}`,
+      { ...options, schema: performanceHistorySchema }
+    );
+  }
+
+  getSponsorship(uniqueId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/instagram/sponsorship?uniqueId=${sanitizeId(uniqueId)}`,
+      { ...options, schema: sponsorshipSchema }
+    );
+  }
+
+  getAudience(uniqueId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/instagram/audience?uniqueId=${sanitizeId(uniqueId)}`,
+      { ...options, schema: audienceSchema }
+    );
+  }
+
+  search(searchBody: SearchRequest, options: CallOptions = {}) {
+    return this.client.request("/instagram/search", {
+      ...options,
+      method: "POST",
+      body: searchBody,
+      schema: instagramSearchResultsSchema,
+    });
+  }
+
+  naturalLanguageSearch(
+    searchBody: NaturalLanguageSearchRequest,
+    options: CallOptions = {}
+  ) {
+    return this.client.request("/instagram/nls", {
+      ...options,
+      method: "POST",
+      body: searchBody,
+      schema: instagramSearchResultsSchema,
+    });
+  }
+
+  getNiches(options: CallOptions = {}) {
+    return this.client.request(
+      "/instagram/niches",
+      { ...options, schema: z.array(nicheSchema) }
+    );
+  }
+}
+
+export class YouTubeClient {
+  constructor(private readonly client: CreatorDBClient) {}
+
+  getProfile(channelId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/youtube/profile?channelId=${encodeURIComponent(channelId)}`,
+      { ...options, schema: youtubeProfileSchema }
+    );
+  }
+
+  getContact(channelId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/youtube/contact?channelId=${encodeURIComponent(channelId)}`,
+      { ...options, schema: contactSchema }
+    );
+  }
+
+  getContentDetail(contentId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/youtube/content-detail?contentId=${encodeURIComponent(contentId)}`,
+      { ...options, schema: contentDetailSchema }
+    );
+  }
+
+  getPerformance(channelId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/youtube/performance?channelId=${encodeURIComponent(channelId)}`,
+      { ...options, schema: youtubePerformanceSchema }
+    );
+  }
+
+  getPerformanceHistory(channelId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/youtube/performance-history?channelId=${encodeURIComponent(channelId)}`,
+      { ...options, schema: performanceHistorySchema }
+    );
+  }
+
+  getSponsorship(channelId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/youtube/sponsorship?channelId=${encodeURIComponent(channelId)}`,
+      { ...options, schema: sponsorshipSchema }
+    );
+  }
+
+  getAudience(channelId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/youtube/audience?channelId=${encodeURIComponent(channelId)}`,
+      { ...options, schema: audienceSchema }
+    );
+  }
+
+  search(searchBody: SearchRequest, options: CallOptions = {}) {
+    return this.client.request("/youtube/search", {
+      ...options,
+      method: "POST",
+      body: searchBody,
+      schema: youtubeSearchResultsSchema,
+    });
+  }
+
+  naturalLanguageSearch(
+    searchBody: NaturalLanguageSearchRequest,
+    options: CallOptions = {}
+  ) {
+    return this.client.request("/youtube/nls", {
+      ...options,
+      method: "POST",
+      body: searchBody,
+      schema: youtubeSearchResultsSchema,
+    });
+  }
+
+  getTopics(options: CallOptions = {}) {
+    return this.client.request("/youtube/topics", {
+      ...options,
+      schema: z.array(topicSchema),
+    });
+  }
+
+  getNiches(options: CallOptions = {}) {
+    return this.client.request("/youtube/niches", {
+      ...options,
+      schema: z.array(nicheSchema),
+    });
+  }
+}
+
+export class TikTokClient {
+  constructor(private readonly client: CreatorDBClient) {}
+
+  getProfile(uniqueId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/tiktok/profile?uniqueId=${sanitizeId(uniqueId)}`,
+      { ...options, schema: tiktokProfileSchema }
+    );
+  }
+
+  getContact(uniqueId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/tiktok/contact?uniqueId=${sanitizeId(uniqueId)}`,
+      { ...options, schema: contactSchema }
+    );
+  }
+
+  getContentDetail(contentId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/tiktok/content-detail?contentId=${encodeURIComponent(contentId)}`,
+      { ...options, schema: contentDetailSchema }
+    );
+  }
+
+  getPerformance(uniqueId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/tiktok/performance?uniqueId=${sanitizeId(uniqueId)}`,
+      { ...options, schema: tiktokPerformanceSchema }
+    );
+  }
+
+  getPerformanceHistory(uniqueId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/tiktok/performance-history?uniqueId=${sanitizeId(uniqueId)}`,
+      { ...options, schema: performanceHistorySchema }
+    );
+  }
+
+  getAudience(uniqueId: string, options: CallOptions = {}) {
+    return this.client.request(
+      `/tiktok/audience?uniqueId=${sanitizeId(uniqueId)}`,
+      { ...options, schema: audienceSchema }
+    );
+  }
+
+  search(searchBody: SearchRequest, options: CallOptions = {}) {
+    return this.client.request("/tiktok/search", {
+      ...options,
+      method: "POST",
+      body: searchBody,
+      schema: tiktokSearchResultsSchema,
+    });
+  }
+
+  naturalLanguageSearch(
+    searchBody: NaturalLanguageSearchRequest,
+    options: CallOptions = {}
+  ) {
+    return this.client.request("/tiktok/nls", {
+      ...options,
+      method: "POST",
+      body: searchBody,
+      schema: tiktokSearchResultsSchema,
+    });
+  }
+
+  getNiches(options: CallOptions = {}) {
+    return this.client.request("/tiktok/niches", {
+      ...options,
+      schema: z.array(nicheSchema),
+    });
+  }
+}
+
+// =============================================================================
+// CreatorDB Client
+// =============================================================================
+
+export class CreatorDBClient {
+  readonly instagram: InstagramClient;
+  readonly youtube: YouTubeClient;
+  readonly tiktok: TikTokClient;
+
+  private readonly apiKey: string | undefined;
+  private readonly baseUrl: string;
+  private readonly validation: ValidationMode;
+  private readonly cache: CacheStore | undefined;
+  private readonly cacheTtls: Record<string, number>;
+  // Keeps cache entries apart per CreatorDB key, since accounts may see different data
+  private readonly cacheNamespace: string;
+  private readonly retryPolicy: RetryPolicy;
+  readonly budget: BudgetGuard | undefined;
+  private readonly concurrency: ConcurrencyLimiter | undefined;
+
+  constructor(options: CreatorDBClientOptions = {}) {
+    this.apiKey = options.apiKey ?? process.env.CREATORDB_API_KEY;
+    this.baseUrl = options.baseUrl ?? API_BASE_URL;
+    this.validation = options.validation ?? validationModeFromEnv() ?? "warn";
+    this.cache = options.cache;
+    this.cacheTtls = { ...DEFAULT_CACHE_TTLS, ...options.cacheTtls };
+    this.cacheNamespace = this.apiKey
+      ? createHash("sha256").update(this.apiKey).digest("hex").slice(0, 16)
+      : "";
+    this.retryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      ...retryPolicyFromEnv(),
+      ...options.retry,
+    };
+    this.budget = options.budget;
+    this.concurrency = options.concurrency;
+    this.instagram = new InstagramClient(this);
+    this.youtube = new YouTubeClient(this);
+    this.tiktok = new TikTokClient(this);
+  }
+
+  getUsage(range: UsageRange = {}, options: CallOptions = {}) {
+    const params = new URLSearchParams();
+    if (range.start) params.append("start", String(range.start));
+    if (range.end) params.append("end", String(range.end));
+    const queryString = params.toString();
+    return this.request(`/usage${queryString ? `?${queryString}` : ""}`, {
+      ...options,
+      schema: usageSchema,
+    });
+  }
+
+  async request<T = unknown>(
+    endpoint: string,
+    options: RequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    const ttlSeconds = this.cacheTtls[endpointFamily(endpoint)] ?? 0;
+    if (!this.cache || ttlSeconds <= 0) {
+      return this.fetchResponse(endpoint, options);
+    }
+
+    const method = options.method ?? "GET";
+    const body = JSON.stringify(options.body ?? null);
+    const key = `${this.cacheNamespace} ${method} ${endpoint} ${body}`;
+
+    if (!options.cache) {
+      const entry = await this.cache.get(key);
+      if (entry) {
+        const meta: CacheMeta = {
+          status: "hit",
+          storedAt: entry.storedAt,
+          expiresAt: entry.expiresAt,
+        };
+        return { ...(entry.value as ApiResponse<T>), cache: meta };
+      }
+    }
+
+    const response = await this.fetchResponse(endpoint, options);
+    if (options.cache === "bypass") {
+      return { ...response, cache: { status: "bypass" } };
+    }
+
+    const storedAt = Date.now();
+    const expiresAt = storedAt + ttlSeconds * 1000;
+    await this.cache.set(key, { value: response, storedAt, expiresAt });
+    const meta: CacheMeta = { status: options.cache ?? "miss", storedAt, expiresAt };
+    return { ...response, cache: meta };
+  }
+
+  private async fetchResponse<T>(
+    endpoint: string,
+    { method = "GET", body, schema, timeoutMs: requestTimeoutMs }: RequestOptions<T>
+  ): Promise<ApiResponse<T>> {
+    if (!this.apiKey) {
+      throw new ApiError("CREATORDB_API_KEY environment variable is required", 500);
+    }
+
+    // Usage requests are exempt, which also keeps reconciliation from recursing
+    let reservation: BudgetReservation | undefined;
+    if (this.budget?.tracks(endpoint)) {
+      this.budget.reconcileIfDue(this);
+      reservation = this.budget.reserve(endpoint);
+    }
+
+    const url = `${this.baseUrl}${endpoint}`;
+
+    const options: RequestInit = {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "api-key": this.apiKey,
+      },
+    };
+
+    if (body && method === "POST") {
+      options.body = JSON.stringify(body);
+    }
+
+    const timeoutMs = requestTimeoutMs ?? this.retryPolicy.timeoutMs;
+
+    let data: Record<string, any>;
+    try {
+      data = await this.fetchWithRetries(url, options, timeoutMs);
+    } catch (error) {
+      if (reservation) this.budget?.release(reservation);
+      throw error;
+    }
+    return schema ? this.validate(endpoint, data, schema) : (data as ApiResponse<T>);
+  }
+
+  private async fetchWithRetries(
+    url: string,
+    options: RequestInit,
+    timeoutMs: number
+  ): Promise<Record<string, any>> {
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.retryPolicy.maxRetries;
+
+      let response: Response;
+      let text: string;
+      try {
+        ({ response, text } = await this.send(url, options, timeoutMs));
+      } catch (error) {
+        // A full concurrency queue isn't an upstream failure worth retrying
+        if (error instanceof ApiError) throw error;
+        if (canRetry) {
+          await sleep(backoffDelay(attempt, this.retryPolicy));
+          continue;
+        }
+        if (error instanceof TimeoutError) {
+          throw new ApiError(error.message, 504);
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ApiError(`Upstream request failed: ${message}`, 502);
+      }
+
+      if (response.status === 429) {
+        const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        if (
+          canRetry &&
+          retryAfter !== undefined &&
+          retryAfter * 1000 <= this.retryPolicy.maxDelayMs
+        ) {
+          await sleep(retryAfter * 1000);
+          continue;
+        }
+        const data = parseJson(text);
+        throw new ApiError(
+          data?.errorDescription || data?.message || "API Error: 429 Too Many Requests",
+          429,
+          retryAfter
+        );
+      }
+
+      if (response.status >= 500 && canRetry) {
+        await sleep(backoffDelay(attempt, this.retryPolicy));
+        continue;
+      }
+
+      const data = parseJson(text);
+      if (data === undefined) {
+        const contentType = response.headers.get("content-type") ?? "unknown content type";
+        throw new ApiError(
+          `Upstream returned a non-JSON response (${response.status}, ${contentType}): ` +
+            text.slice(0, 200),
+          response.ok ? 502 : response.status
+        );
+      }
+
+      if (!response.ok || data.success === false) {
+        throw new ApiError(
+          data.errorDescription || data.message || `API Error: ${response.status}`,
+          response.status
+        );
+      }
+
+      return data;
+    }
+  }
+
+  // Holds a concurrency slot only while the request is in flight, not during backoff
+  private send(url: string, init: RequestInit, timeoutMs: number) {
+    if (!this.concurrency) return fetchText(url, init, timeoutMs);
+    return this.concurrency.run(() => fetchText(url, init, timeoutMs));
+  }
+
+  private validate<T>(
+    endpoint: string,
+    payload: unknown,
+    schema: z.ZodType<T>
+  ): ApiResponse<T> {
+    if (this.validation === "off") {
+      return payload as ApiResponse<T>;
+    }
+
+    const result = apiResponseSchema(schema).safeParse(payload);
+    if (result.success) {
+      return result.data as ApiResponse<T>;
+    }
+
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    );
+    const error = new ResponseValidationError(endpoint, issues);
+
+    if (this.validation === "strict") {
+      throw error;
+    }
+
+    console.error(`Warning: ${error.message}`);
+    return { ...(payload as ApiResponse<T>), warnings: issues };
+  }
+}
@@ -0,0 +1,312 @@
+import { analyzeGrowth } from "./analytics.js";
+import { mapWithConcurrency } from "./bulk.js";
+import { CallOptions, CreatorDBClient } from "./client.js";
+import { CreatorAccount, parseCreatorAccounts } from "./identity.js";
+import {
+  CreatorReport,
+  ReportSection,
+  ReportSectionError,
+  getCreatorReport,
+  toSectionError,
+} from "./report.js";
+
+// =============================================================================
+// Creator Comparison - normalized side-by-side metrics for 2-10 creators
+// =============================================================================
+
+export const MIN_COMPARE_CREATORS = 2;
+export const MAX_COMPARE_CREATORS = 10;
+const COMPARE_SECTIONS: ReportSection[] = [
+  "profile",
+  "performance",
+  "performance-history",
+  "audience",
+  "sponsorship",
+];
+const COMPARE_CONCURRENCY = 5;
+const TOP_COUNTRIES = 3;
+
+export interface CountryShare {
+  country: string;
+  share: number;
+}
+
+export interface ComparedCreator extends CreatorAccount {
+  /** "platform:id", used to refer to the creator in metric rows */
+  key: string;
+  displayName: string | null;
+  success: boolean;
+  /** Why the creator could not be compared at all */
+  error?: ReportSectionError;
+  /** Sections that failed; their metrics are null */
+  sectionErrors: CreatorReport["errors"];
+  topAudienceCountries: CountryShare[];
+  audienceGender: { male: number | null; female: number | null } | null;
+  audienceAges: Array<{ ageRange: string; share: number }>;
+}
+
+export interface MetricValue {
+  key: string;
+  value: number | null;
+  /** Human-readable context, e.g. the countries behind a share */
+  detail?: string;
+  /** (value - leader) / leader; 0 for the leader, null when unknown */
+  deltaFromLeader: number | null;
+}
+
+export interface ComparisonMetric {
+  metric: string;
+  description: string;
+  /** Key of the creator with the highest value, or null when nobody has one */
+  leader: string | null;
+  values: MetricValue[];
+}
+
+export interface CreatorComparison {
+  generatedAt: string;
+  creators: ComparedCreator[];
+  metrics: ComparisonMetric[];
+}
+
+/**
+ * Reads the 2-10 creators to compare; see parseCreatorAccounts.
+ */
+export function parseComparisonCreators(value: unknown): CreatorAccount[] {
+  return parseCreatorAccounts(value, MIN_COMPARE_CREATORS, MAX_COMPARE_CREATORS);
+}
+
+// =============================================================================
+// Metric Extraction
+// =============================================================================
+
+function record(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 1000) / 10}%`;
+}
+
+function followerGrowth(report: CreatorReport): Extracted {
+  const { followers, period } = analyzeGrowth(
+    report.platform,
+    report.id,
+    report.sections["performance-history"]
+  );
+  if (followers.growth === null || !period) return null;
+  const sign = followers.growth >= 0 ? "+" : "";
+  return {
+    value: followers.growth,
+    detail: `${sign}${percent(followers.growth)} over ${period.days} days`,
+  };
+}
+
+function countryShares(audience: unknown): CountryShare[] {
+  const countries = record(audience).audienceCountries;
+  if (!Array.isArray(countries)) return [];
+  return countries
+    .map((entry) => ({
+      country: String(record(entry).country),
+      share: numberOrNull(record(entry).share),
+    }))
+    .filter((entry): entry is CountryShare => entry.share !== null)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, TOP_COUNTRIES);
+}
+
+function ageShares(audience: unknown): Array<{ ageRange: string; share: number }> {
+  const ages = record(audience).audienceAges;
+  if (!Array.isArray(ages)) return [];
+  return ages
+    .map((entry) => ({
+      ageRange: String(record(entry).ageRange),
+      share: numberOrNull(record(entry).share),
+    }))
+    .filter((entry): entry is { ageRange: string; share: number } => entry.share !== null)
+    .sort((a, b) => b.share - a.share);
+}
+
+type Extracted = Omit<MetricValue, "key" | "deltaFromLeader"> | null;
+
+interface MetricDefinition {
+  metric: string;
+  description: string;
+  extract: (report: CreatorReport, creator: ComparedCreator) => Extracted;
+}
+
+const numeric = (raw: unknown): Extracted => {
+  const number = numberOrNull(raw);
+  return number === null ? null : { value: number };
+};
+
+const METRICS: MetricDefinition[] = [
+  {
+    metric: "followers",
+    description: "Followers (subscribers on YouTube)",
+    extract: (report) => numeric(report.summary.followers),
+  },
+  {
+    metric: "avgEngagementRate",
+    description: "Average engagement rate per post",
+    extract: (report) => numeric(report.summary.avgEngagementRate),
+  },
+  {
+    metric: "avgViews",
+    description: "Average views per post",
+    extract: (report) => numeric(report.summary.avgViews),
+  },
+  {
+    metric: "postsPerWeek",
+    description: "Posting frequency",
+    extract: (report) => numeric(report.summary.postsPerWeek),
+  },
+  {
+    metric: "followerGrowth",
+    description: "Relative follower growth across the performance history",
+    extract: followerGrowth,
+  },
+  {
+    metric: "topAudienceCountryShare",
+    description: "Audience share of the largest country; detail lists the top countries",
+    extract: (_report, creator) => {
+      const [top] = creator.topAudienceCountries;
+      if (!top) return null;
+      const detail = creator.topAudienceCountries
+        .map(({ country, share }) => `${country} ${percent(share)}`)
+        .join(", ");
+      return { value: top.share, detail };
+    },
+  },
+  {
+    metric: "audienceFemaleShare",
+    description: "Share of the audience that is female",
+    extract: (_report, creator) => {
+      const female = creator.audienceGender?.female ?? null;
+      if (female === null) return null;
+      const male = creator.audienceGender?.male;
+      return {
+        value: female,
+        detail: `F ${percent(female)}` + (typeof male === "number" ? ` / M ${percent(male)}` : ""),
+      };
+    },
+  },
+  {
+    metric: "topAgeRangeShare",
+    description: "Audience share of the largest age range",
+    extract: (_report, creator) => {
+      const [top] = creator.audienceAges;
+      return top ? { value: top.share, detail: top.ageRange } : null;
+    },
+  },
+  {
+    metric: "audienceAvgAge",
+    description: "Average audience age",
+    extract: (report) => numeric(record(report.sections.audience).audienceAvgAge),
+  },
+  {
+    metric: "sponsoredContentRatio",
+    description: "Share of recent content that is sponsored (not available on TikTok)",
+    extract: (report) => {
+      const sponsorship = record(report.sections.sponsorship);
+      const ratio = numberOrNull(sponsorship.sponsoredContentRatio);
+      if (ratio === null) return null;
+      const total = numberOrNull(sponsorship.totalSponsoredContents);
+      if (total === null) return { value: ratio };
+      return { value: ratio, detail: `${total} sponsored posts` };
+    },
+  },
+];
+
+function buildMetric(
+  definition: MetricDefinition,
+  creators: ComparedCreator[],
+  reports: Array<CreatorReport | null>
+): ComparisonMetric {
+  const values = creators.map((creator, index): MetricValue => {
+    const report = reports[index];
+    const extracted = report ? definition.extract(report, creator) : null;
+    return { key: creator.key, value: null, ...extracted, deltaFromLeader: null };
+  });
+
+  let leader: MetricValue | undefined;
+  for (const entry of values) {
+    if (entry.value !== null && (!leader || entry.value > (leader.value as number))) leader = entry;
+  }
+  const best = leader?.value ?? null;
+  for (const entry of values) {
+    if (entry.value === null || best === null) continue;
+    entry.deltaFromLeader = best === 0 ? 0 : (entry.value - best) / Math.abs(best);
+  }
+
+  return {
+    metric: definition.metric,
+    description: definition.description,
+    leader: leader?.key ?? null,
+    values,
+  };
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+function comparedCreator(account: CreatorAccount, report: CreatorReport | null): ComparedCreator {
+  const audience = report?.sections.audience;
+  const gender = record(record(audience).audienceGender);
+  return {
+    key: `${account.platform}:${account.id}`,
+    platform: account.platform,
+    id: account.id,
+    displayName: report?.summary.displayName ?? null,
+    success: report !== null,
+    sectionErrors: report?.errors ?? {},
+    topAudienceCountries: countryShares(audience),
+    audienceGender:
+      audience === undefined
+        ? null
+        : { male: numberOrNull(gender.male), female: numberOrNull(gender.female) },
+    audienceAges: ageShares(audience),
+  };
+}
+
+/**
+ * Fetches profile, performance, history, audience and sponsorship for each
+ * creator and lines up normalized metrics. Each metric names its leader (the
+ * highest value) and every creator's relative delta from it. A creator that
+ * can't be fetched stays in the table with null values; the call only fails
+ * when no creator can be fetched.
+ */
+export async function compareCreators(
+  client: CreatorDBClient,
+  accounts: CreatorAccount[],
+  options: CallOptions = {}
+): Promise<CreatorComparison> {
+  const outcomes = await mapWithConcurrency(accounts, COMPARE_CONCURRENCY, async (account) => {
+    try {
+      const { platform, id } = account;
+      return { report: await getCreatorReport(client, platform, id, COMPARE_SECTIONS, options) };
+    } catch (error) {
+      return { error };
+    }
+  });
+
+  if (outcomes.every((outcome) => "error" in outcome)) throw outcomes[0].error;
+
+  const reports = outcomes.map((outcome) => outcome.report ?? null);
+  const creators = accounts.map((account, index) => {
+    const creator = comparedCreator(account, reports[index]);
+    const { error } = outcomes[index];
+    if (error !== undefined) creator.error = toSectionError(error);
+    return creator;
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    creators,
+    metrics: METRICS.map((definition) => buildMetric(definition, creators, reports)),
+  };
+}
@@ -0,0 +1,482 @@
+import { toTimestamp } from "./analytics.js";
+import { mapWithConcurrency } from "./bulk.js";
+import { ApiError, CallOptions, CreatorDBClient, Platform } from "./client.js";
+import { ReportSectionError, getCreatorReport, toSectionError } from "./report.js";
+
+// =============================================================================
+// Brand Conflicts - competitor sponsorships and mentions before signing a creator
+// =============================================================================
+
+const DAY_MS = 86_400_000;
+export const MAX_COMPETITORS = 50;
+export const MAX_CONTENT_IDS = 30;
+const DEFAULT_LOOKBACK_DAYS = 180;
+/** A competitor sponsorship this recent is a high exclusivity risk */
+const RECENT_SPONSORSHIP_DAYS = 90;
+/** This many competitor sponsored posts inside the lookback window is a high risk */
+const FREQUENT_SPONSORSHIPS = 3;
+const CONTENT_CONCURRENCY = 5;
+const MAX_EVIDENCE = 10;
+const EXCERPT_RADIUS = 40;
+
+export type ExclusivityRisk = "none" | "low" | "medium" | "high";
+const RISK_ORDER: ExclusivityRisk[] = ["none", "low", "medium", "high"];
+
+export type EvidenceSource =
+  | "sponsor"
+  | "sponsored_content"
+  | "content"
+  | "bio"
+  | "profile_hashtag";
+
+export interface BrandSpec {
+  name: string;
+  /** Other spellings, handles or product names, e.g. ["coke", "@cocacola"] */
+  aliases?: string[];
+}
+
+export interface BrandEvidence {
+  source: EvidenceSource;
+  contentId: string | null;
+  date: string | null;
+  sponsored: boolean;
+  excerpt: string;
+}
+
+export interface BrandMatch {
+  brand: string;
+  role: "brand" | "competitor";
+  /** Sponsored posts naming the brand */
+  sponsoredPosts: number;
+  /** Unsponsored captions, hashtags and bio mentions */
+  organicMentions: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+  lastSponsored: string | null;
+  /** Exclusivity risk from this brand alone; always "none" for the brand itself */
+  risk: ExclusivityRisk;
+  evidence: BrandEvidence[];
+}
+
+export interface BrandConflictCheck {
+  platform: Platform;
+  id: string;
+  generatedAt: string;
+  brand: string;
+  competitors: string[];
+  lookbackDays: number;
+  exclusivityRisk: ExclusivityRisk;
+  reasons: string[];
+  /** Competitors first, riskiest first, then the brand itself */
+  matches: BrandMatch[];
+  scanned: {
+    /** False on TikTok, which has no sponsorship endpoint */
+    sponsorshipAvailable: boolean;
+    sponsors: number;
+    sponsoredContents: number;
+    contents: number;
+    profileHashtags: number;
+  };
+  /** Lookups that failed; the check covers the rest */
+  errors: Record<string, ReportSectionError>;
+}
+
+// =============================================================================
+// Input Parsing
+// =============================================================================
+
+function toBrandSpec(value: unknown, name: string): BrandSpec {
+  if (typeof value === "string" && value.trim()) return { name: value.trim() };
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const spec = value as Record<string, unknown>;
+    if (typeof spec.name === "string" && spec.name.trim()) {
+      const aliases = Array.isArray(spec.aliases)
+        ? spec.aliases.map((alias) => String(alias).trim()).filter(Boolean)
+        : [];
+      return aliases.length > 0 ? { name: spec.name.trim(), aliases } : { name: spec.name.trim() };
+    }
+  }
+  throw new ApiError(`${name} must be a brand name or { name, aliases }`, 400);
+}
+
+/** Reads `brand` as a name or `{ name, aliases }`. */
+export function parseBrand(value: unknown): BrandSpec {
+  if (value === undefined || value === null || value === "") {
+    throw new ApiError("brand is required", 400);
+  }
+  return toBrandSpec(value, "brand");
+}
+
+/**
+ * Reads `competitors` as an array of names or `{ name, aliases }`, or a
+ * comma-separated string of names.
+ */
+export function parseCompetitors(value: unknown): BrandSpec[] {
+  const list = typeof value === "string" ? value.split(",").filter((name) => name.trim()) : value;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new ApiError("competitors must list at least one brand", 400);
+  }
+  if (list.length > MAX_COMPETITORS) {
+    throw new ApiError(`competitors must list at most ${MAX_COMPETITORS} brands`, 400);
+  }
+  return list.map((entry, index) => toBrandSpec(entry, `competitors[${index}]`));
+}
+
+/** Reads optional `contentIds` as an array or a comma-separated string. */
+export function parseContentIds(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const ids = (Array.isArray(value) ? value : String(value).split(","))
+    .map((id) => String(id).trim())
+    .filter(Boolean);
+  if (ids.length > MAX_CONTENT_IDS) {
+    throw new ApiError(`contentIds must list at most ${MAX_CONTENT_IDS} IDs`, 400);
+  }
+  return [...new Set(ids)];
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+interface BrandTerm {
+  spec: BrandSpec;
+  role: BrandMatch["role"];
+  pattern: RegExp;
+}
+
+// "Coca-Cola" matches "coca cola", "#cocacola" and "@coca_cola", but not "cocacolaesque"
+export function brandPattern(spec: BrandSpec): RegExp {
+  const alternatives = [spec.name, ...(spec.aliases ?? [])]
+    .map((term) =>
+      term
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+        .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[\\s\\-_.']*")
+    )
+    .filter(Boolean);
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`, "iu");
+}
+
+function excerpt(text: string, index: number): string {
+  const start = Math.max(0, index - EXCERPT_RADIUS);
+  const end = Math.min(text.length, index + EXCERPT_RADIUS);
+  const prefix = start > 0 ? "…" : "";
+  return `${prefix}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
+
+function isoDate(time: number | null): string | null {
+  return time === null ? null : new Date(time).toISOString().slice(0, 10);
+}
+
+interface Mention {
+  source: EvidenceSource;
+  text: string;
+  contentId: string | null;
+  time: number | null;
+  sponsored: boolean;
+  /** Posts this mention stands for, e.g. a sponsor entry's content count */
+  count: number;
+  /** Index of the sponsor entry a sponsored caption belongs to */
+  sponsor?: number;
+}
+
+class MatchBuilder {
+  private sponsoredPosts = 0;
+  private organicMentions = 0;
+  private first: number | null = null;
+  private last: number | null = null;
+  private lastSponsored: number | null = null;
+  private sponsoredUndated = false;
+  private readonly evidence: BrandEvidence[] = [];
+  private readonly sponsors = new Set<number>();
+
+  constructor(readonly term: BrandTerm) {}
+
+  add(mention: Mention, index: number) {
+    // A sponsor entry already counts its posts; its captions only add evidence
+    const counted = mention.source === "sponsored_content" && this.sponsors.has(mention.sponsor!);
+    if (mention.source === "sponsor") this.sponsors.add(mention.sponsor!);
+    const count = counted ? 0 : mention.count;
+    if (mention.sponsored) this.sponsoredPosts += count;
+    else this.organicMentions += count;
+
+    const { time } = mention;
+    if (time !== null) {
+      this.first = Math.min(this.first ?? time, time);
+      this.last = Math.max(this.last ?? time, time);
+      if (mention.sponsored) {
+        this.lastSponsored = Math.max(this.lastSponsored ?? time, time);
+      }
+    } else if (mention.sponsored) {
+      this.sponsoredUndated = true;
+    }
+    if (this.evidence.length < MAX_EVIDENCE) {
+      this.evidence.push({
+        source: mention.source,
+        contentId: mention.contentId,
+        date: isoDate(time),
+        sponsored: mention.sponsored,
+        excerpt: excerpt(mention.text, index),
+      });
+    }
+  }
+
+  /**
+   * High: a competitor sponsorship in the last 90 days, or 3+ sponsored
+   * posts with one inside the lookback window. Medium: any sponsorship in the
+   * window (or undated), or organic mentions in dated content inside it.
+   * Low: only older or undated organic mentions.
+   */
+  private risk(now: number, lookbackDays: number): ExclusivityRisk {
+    if (this.term.role === "brand") return "none";
+    const within = (time: number | null, days: number) =>
+      time !== null && now - time <= days * DAY_MS;
+    if (within(this.lastSponsored, RECENT_SPONSORSHIP_DAYS)) return "high";
+    if (within(this.lastSponsored, lookbackDays)) {
+      return this.sponsoredPosts >= FREQUENT_SPONSORSHIPS ? "high" : "medium";
+    }
+    if (this.sponsoredUndated || within(this.last, lookbackDays)) return "medium";
+    return "low";
+  }
+
+  build(now: number, lookbackDays: number): BrandMatch {
+    return {
+      brand: this.term.spec.name,
+      role: this.term.role,
+      sponsoredPosts: this.sponsoredPosts,
+      organicMentions: this.organicMentions,
+      firstSeen: isoDate(this.first),
+      lastSeen: isoDate(this.last),
+      lastSponsored: isoDate(this.lastSponsored),
+      risk: this.risk(now, lookbackDays),
+      evidence: this.evidence,
+    };
+  }
+}
+
+// =============================================================================
+// Sources
+// =============================================================================
+
+function record(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+function list(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.map(record) : [];
+}
+
+function text(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+function hashtagText(hashtags: unknown): string | null {
+  if (!Array.isArray(hashtags)) return null;
+  const names = hashtags.flatMap((tag) => {
+    const name = typeof tag === "string" ? tag : record(tag).name;
+    return typeof name === "string" ? [name.startsWith("#") ? name : `#${name}`] : [];
+  });
+  return names.length > 0 ? names.join(" ") : null;
+}
+
+// Each sponsor entry stands for its posts; its captions are scanned for other brands too
+function sponsorshipMentions(sponsorship: unknown): Mention[] {
+  return list(record(sponsorship).sponsors).flatMap((sponsor, index) => {
+    const contents = list(sponsor.contents);
+    const count =
+      typeof sponsor.contentCount === "number"
+        ? sponsor.contentCount
+        : Math.max(contents.length, 1);
+    const name = [text(sponsor.brandName), text(sponsor.brandId)].filter(Boolean).join(" ");
+    const mentions: Mention[] = [
+      {
+        source: "sponsor",
+        text: name,
+        contentId: null,
+        time: toTimestamp(sponsor.lastSponsoredAt),
+        sponsored: true,
+        count,
+        sponsor: index,
+      },
+    ];
+    for (const content of contents) {
+      const caption = text(content.caption);
+      if (!caption) continue;
+      mentions.push({
+        source: "sponsored_content",
+        text: caption,
+        contentId: text(content.contentId),
+        time: toTimestamp(content.publishedAt),
+        sponsored: true,
+        count: 1,
+        sponsor: index,
+      });
+    }
+    return mentions;
+  });
+}
+
+function contentMentions(content: unknown): Mention[] {
+  const detail = record(content);
+  const body = [text(detail.title), text(detail.caption), hashtagText(detail.hashtags)]
+    .filter(Boolean)
+    .join("\n");
+  if (!body) return [];
+  return [
+    {
+      source: "content",
+      text: body,
+      contentId: text(detail.contentId),
+      time: toTimestamp(detail.publishedAt),
+      sponsored: detail.isSponsored === true,
+      count: 1,
+    },
+  ];
+}
+
+function profileMentions(profile: unknown): Mention[] {
+  const { bio, hashtags } = record(profile);
+  const mentions: Mention[] = [];
+  const bioText = text(bio);
+  if (bioText) {
+    mentions.push({
+      source: "bio",
+      text: bioText,
+      contentId: null,
+      time: null,
+      sponsored: false,
+      count: 1,
+    });
+  }
+  const tags = hashtagText(hashtags);
+  if (tags) {
+    mentions.push({
+      source: "profile_hashtag",
+      text: tags,
+      contentId: null,
+      time: null,
+      sponsored: false,
+      count: 1,
+    });
+  }
+  return mentions;
+}
+
+// =============================================================================
+// Check
+// =============================================================================
+
+export interface BrandConflictInput {
+  brand: BrandSpec;
+  competitors: BrandSpec[];
+  /** Recent content to scan captions and hashtags of, beyond sponsored posts */
+  contentIds?: string[];
+  lookbackDays?: number;
+}
+
+/**
+ * Scans a creator's sponsors, sponsored captions, profile bio and hashtags,
+ * and any listed content for the brand and its competitors. Each competitor
+ * found gets a frequency, dates and an exclusivity risk; the overall risk is
+ * the highest of them. Mentions of the brand itself are reported but never
+ * count as a conflict.
+ */
+export async function checkBrandConflicts(
+  client: CreatorDBClient,
+  platform: Platform,
+  id: string,
+  input: BrandConflictInput,
+  options: CallOptions = {}
+): Promise<BrandConflictCheck> {
+  if (!id) throw new ApiError("id is required", 400);
+  const contentIds = parseContentIds(input.contentIds) ?? [];
+  const lookbackDays = input.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+  if (!Number.isFinite(lookbackDays) || lookbackDays <= 0) {
+    throw new ApiError("lookbackDays must be a positive number", 400);
+  }
+
+  const report = await getCreatorReport(client, platform, id, ["profile", "sponsorship"], options);
+  const errors: BrandConflictCheck["errors"] = { ...report.errors };
+  const contents = await mapWithConcurrency(contentIds, CONTENT_CONCURRENCY, async (contentId) => {
+    try {
+      return (await client[platform].getContentDetail(contentId, options)).data;
+    } catch (error) {
+      errors[`content:${contentId}`] = toSectionError(error);
+      return undefined;
+    }
+  });
+
+  const mentions = [
+    ...sponsorshipMentions(report.sections.sponsorship),
+    ...contents.flatMap(contentMentions),
+    ...profileMentions(report.sections.profile),
+  ];
+  const builders = [
+    new MatchBuilder({ spec: input.brand, role: "brand", pattern: brandPattern(input.brand) }),
+    ...input.competitors.map(
+      (spec) => new MatchBuilder({ spec, role: "competitor", pattern: brandPattern(spec) })
+    ),
+  ];
+  const matched = new Set<MatchBuilder>();
+  for (const mention of mentions) {
+    for (const builder of builders) {
+      const found = builder.term.pattern.exec(mention.text);
+      if (!found) continue;
+      builder.add(mention, found.index);
+      matched.add(builder);
+    }
+  }
+
+  const now = Date.now();
+  const matches = [...matched]
+    .map((builder) => builder.build(now, lookbackDays))
+    .sort(
+      (a, b) =>
+        Number(a.role === "brand") - Number(b.role === "brand") ||
+        RISK_ORDER.indexOf(b.risk) - RISK_ORDER.indexOf(a.risk) ||
+        b.sponsoredPosts + b.organicMentions - (a.sponsoredPosts + a.organicMentions)
+    );
+  const exclusivityRisk = matches.reduce<ExclusivityRisk>(
+    (worst, match) =>
+      RISK_ORDER.indexOf(match.risk) > RISK_ORDER.indexOf(worst) ? match.risk : worst,
+    "none"
+  );
+
+  const reasons = matches
+    .filter((match) => match.role === "competitor")
+    .map((match) => {
+      const parts = [];
+      if (match.sponsoredPosts > 0) {
+        parts.push(
+          `${match.sponsoredPosts} sponsored post(s)` +
+            (match.lastSponsored ? `, last on ${match.lastSponsored}` : "")
+        );
+      }
+      if (match.organicMentions > 0) parts.push(`${match.organicMentions} organic mention(s)`);
+      return `${match.brand} (${match.risk}): ${parts.join("; ")}`;
+    });
+
+  const sponsors = list(record(report.sections.sponsorship).sponsors);
+  const { hashtags } = record(report.sections.profile);
+  return {
+    platform,
+    id,
+    generatedAt: new Date(now).toISOString(),
+    brand: input.brand.name,
+    competitors: input.competitors.map((spec) => spec.name),
+    lookbackDays,
+    exclusivityRisk,
+    reasons,
+    matches,
+    scanned: {
+      sponsorshipAvailable: !report.unsupported.includes("sponsorship"),
+      sponsors: sponsors.length,
+      sponsoredContents: sponsors.reduce((sum, sponsor) => sum + list(sponsor.contents).length, 0),
+      contents: contents.filter((content) => content !== undefined).length,
+      profileHashtags: Array.isArray(hashtags) ? hashtags.length : 0,
+    },
+    errors,
+  };
+}
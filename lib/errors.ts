@@ -0,0 +1,49 @@
+// =============================================================================
+// Errors - shared by the client and the modules layered on top of it
+// =============================================================================
+
+export class ApiError extends Error {
+  status: number;
+  /** Seconds the caller should wait before retrying, from upstream Retry-After. */
+  retryAfter?: number;
+  /** Machine-readable error code for structured error responses. */
+  code?: string;
+  details?: Record<string, unknown>;
+  constructor(message: string, status: number, retryAfter?: number) {
+    super(message);
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ResponseValidationError extends ApiError {
+  issues: string[];
+  constructor(endpoint: string, issues: string[]) {
+    super(`Unexpected response from ${endpoint}: ${issues.join("; ")}`, 502);
+    this.code = "response_validation_failed";
+    this.issues = issues;
+  }
+}
+
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  code?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Converts any thrown value into the `{ success: false, error }` body returned
+ * by both the MCP tools and the HTTP routes.
+ */
+export function toErrorResponse(error: unknown): ErrorResponse {
+  const body: ErrorResponse = {
+    success: false,
+    error: error instanceof Error ? error.message : String(error),
+  };
+  if (error instanceof ApiError) {
+    if (error.code) body.code = error.code;
+    if (error.details) body.details = error.details;
+  }
+  return body;
+}
@@ -0,0 +1,351 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { Response } from "express";
+import { BulkResponse, bulkGetCreators, parseBulkIds } from "./bulk.js";
+import {
+  ApiError,
+  CallOptions,
+  CreatorDBClient,
+  buildNaturalLanguageSearchRequest,
+  buildSearchRequest,
+  isPlatform,
+} from "./client.js";
+import {
+  SearchResults,
+  naturalLanguageSearchCreators,
+  paginationOptions,
+  searchCreators,
+} from "./pagination.js";
+import { withSearchQuery } from "./query.js";
+import { parseReportSections } from "./report.js";
+import { buildXlsx } from "./xlsx.js";
+
+// =============================================================================
+// Exports - search and bulk results as CSV, NDJSON or XLSX
+// =============================================================================
+
+export type ExportFormat = "csv" | "ndjson" | "xlsx";
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "ndjson", "xlsx"];
+
+export type ExportValue = string | number | boolean | null;
+export type ExportRow = Record<string, ExportValue>;
+
+export interface ExportTable {
+  columns: string[];
+  rows: ExportRow[];
+}
+
+/** Columns for bulk exports when none are requested; search exports use every field */
+export const DEFAULT_BULK_COLUMNS = [
+  "id",
+  "success",
+  "displayName",
+  "country",
+  "followers",
+  "avgEngagementRate",
+  "avgViews",
+  "postsPerWeek",
+  "isVerified",
+  "hasSponsors",
+  "niches",
+  "audience.topCountry",
+  "error",
+];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Reads a `format` option. Returns undefined for the default JSON response.
+ */
+export function parseExportFormat(value: unknown): ExportFormat | undefined {
+  if (value === undefined || value === null || value === "" || value === "json") return undefined;
+  if (EXPORT_FORMATS.includes(value as ExportFormat)) return value as ExportFormat;
+  throw new ApiError(`format must be one of: json, ${EXPORT_FORMATS.join(", ")}`, 400);
+}
+
+/**
+ * Reads a `columns` option given as an array or a comma-separated string of
+ * flattened field names (e.g. "uniqueId,totalFollowers,audience.topCountry").
+ */
+export function parseExportColumns(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const columns = (Array.isArray(value) ? value : String(value).split(","))
+    .map((column) => String(column).trim())
+    .filter(Boolean);
+  if (columns.length === 0) throw new ApiError("columns must list at least one column", 400);
+  return [...new Set(columns)];
+}
+
+// =============================================================================
+// Flattening
+// =============================================================================
+
+const LIST_SEPARATOR = "; ";
+const LABEL_KEYS = ["name", "country", "ageRange", "title"];
+
+// Lists of scalars are joined; lists of objects use each item's label, e.g. hashtag names
+function joinList(items: unknown[]): string {
+  return items
+    .map((item) => {
+      if (item === null || typeof item !== "object") return String(item);
+      const record = item as Record<string, unknown>;
+      const label = LABEL_KEYS.find((key) => typeof record[key] === "string");
+      return label ? String(record[label]) : JSON.stringify(item);
+    })
+    .join(LIST_SEPARATOR);
+}
+
+function flattenInto(row: ExportRow, key: string, value: unknown) {
+  if (value === null || value === undefined) {
+    row[key] = null;
+  } else if (Array.isArray(value)) {
+    row[key] = joinList(value);
+  } else if (typeof value === "object") {
+    for (const [name, nested] of Object.entries(value)) {
+      flattenInto(row, key ? `${key}.${name}` : name, nested);
+    }
+  } else if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    row[key] = value;
+  } else {
+    row[key] = String(value);
+  }
+}
+
+/**
+ * Flattens a record into one row: nested objects become dotted columns
+ * ("pricing.minPrice") and lists are joined with "; ".
+ */
+export function flattenRecord(record: unknown, prefix = ""): ExportRow {
+  const row: ExportRow = {};
+  flattenInto(row, prefix, record);
+  return row;
+}
+
+// Adds audience.topCountry / audience.topCountryShare from an audienceCountries list
+function addTopCountry(row: ExportRow, audience: unknown) {
+  const countries = (audience as Record<string, unknown> | undefined)?.audienceCountries;
+  if (!Array.isArray(countries) || countries.length === 0) return;
+  const top = countries.reduce((best, entry) => (entry?.share > best?.share ? entry : best));
+  row["audience.topCountry"] = typeof top?.country === "string" ? top.country : null;
+  row["audience.topCountryShare"] = typeof top?.share === "number" ? top.share : null;
+}
+
+/** Flattens one creator from search results. */
+export function flattenCreator(creator: Record<string, unknown>): ExportRow {
+  const row = flattenRecord(creator);
+  addTopCountry(row, creator);
+  return row;
+}
+
+function selectColumns(rows: ExportRow[], columns?: string[], defaults?: string[]): ExportTable {
+  const selected = columns ?? defaults ?? [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  return {
+    columns: selected,
+    rows: rows.map((row) =>
+      Object.fromEntries(selected.map((column) => [column, row[column] ?? null]))
+    ),
+  };
+}
+
+/** Builds an export table from search or natural language search results. */
+export function searchTable(data: SearchResults | undefined, columns?: string[]): ExportTable {
+  return selectColumns((data?.creators ?? []).map(flattenCreator), columns);
+}
+
+/**
+ * Builds an export table from bulk results: one row per ID with the report
+ * summary, niches and audience top country, plus every fetched section under
+ * its own prefix ("profile.bio", "performance.avgLikes") for custom columns.
+ */
+export function bulkTable(data: BulkResponse, columns?: string[]): ExportTable {
+  const rows = data.results.map((result): ExportRow => {
+    if (!result.success) return { id: result.id, success: false, error: result.error.error };
+
+    const { summary, sections } = result.data;
+    const row: ExportRow = { id: result.id, success: true, ...flattenRecord(summary) };
+    const profile = sections.profile as Record<string, unknown> | undefined;
+    if (Array.isArray(profile?.niches)) row.niches = joinList(profile.niches);
+    addTopCountry(row, sections.audience);
+    for (const [section, payload] of Object.entries(sections)) {
+      Object.assign(row, flattenRecord(payload, section));
+    }
+    row.error = null;
+    return row;
+  });
+  return selectColumns(rows, columns, DEFAULT_BULK_COLUMNS);
+}
+
+// =============================================================================
+// Serializers
+// =============================================================================
+
+// Leading =, +, - or @ would make a spreadsheet evaluate a text cell as a formula
+function csvCell(value: ExportValue): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(table: ExportTable): string {
+  const lines = [
+    table.columns,
+    ...table.rows.map((row) => table.columns.map((column) => row[column])),
+  ];
+  return lines.map((line) => line.map((value) => csvCell(value)).join(",")).join("\r\n") + "\r\n";
+}
+
+export function toNdjson(rows: ExportRow[]): string {
+  return rows.map((row) => JSON.stringify(row) + "\n").join("");
+}
+
+export function renderExport(table: ExportTable, format: ExportFormat): string | Buffer {
+  switch (format) {
+    case "csv":
+      return toCsv(table);
+    case "ndjson":
+      return toNdjson(table.rows);
+    case "xlsx":
+      return buildXlsx([
+        table.columns,
+        ...table.rows.map((row) => table.columns.map((column) => row[column])),
+      ]);
+  }
+}
+
+// =============================================================================
+// HTTP
+// =============================================================================
+
+function setExportHeaders(res: Response, format: ExportFormat, name: string) {
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${name}.${format}"`);
+}
+
+/** Sends a table as a file download. */
+export function sendExport(res: Response, format: ExportFormat, name: string, table: ExportTable) {
+  setExportHeaders(res, format, name);
+  res.send(renderExport(table, format));
+}
+
+/**
+ * Streams rows as NDJSON while pages arrive. Headers go out with the first
+ * rows, so errors raised before that (e.g. invalid filters) can still be sent
+ * as a normal JSON error response.
+ */
+export class NdjsonStream {
+  constructor(
+    private readonly res: Response,
+    private readonly name: string,
+    private readonly columns?: string[]
+  ) {}
+
+  write(rows: ExportRow[]) {
+    if (!this.res.headersSent) {
+      setExportHeaders(this.res, "ndjson", this.name);
+      this.res.status(200);
+    }
+    if (rows.length > 0) this.res.write(toNdjson(selectColumns(rows, this.columns).rows));
+  }
+
+  end() {
+    this.write([]);
+    this.res.end();
+  }
+}
+
+// =============================================================================
+// Files
+// =============================================================================
+
+export type ExportSource = "search" | "natural_language_search" | "bulk";
+export const EXPORT_SOURCES: ExportSource[] = ["search", "natural_language_search", "bulk"];
+
+export interface ExportFileResult {
+  path: string;
+  format: ExportFormat;
+  rows: number;
+  columns: string[];
+}
+
+/**
+ * Writes a table to CREATORDB_EXPORT_DIR (default data/exports). Only the
+ * base name of `name` is used, so callers can't write outside that directory.
+ */
+export async function writeExportFile(
+  table: ExportTable,
+  format: ExportFormat,
+  name: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ExportFileResult> {
+  const directory = path.resolve(env.CREATORDB_EXPORT_DIR ?? "data/exports");
+  const base = path.basename(name).replace(/\.(csv|ndjson|xlsx)$/i, "").replace(/[^\w.-]+/g, "-");
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const file = path.join(directory, `${base || "export"}-${stamp}.${format}`);
+
+  await mkdir(directory, { recursive: true });
+  await writeFile(file, renderExport(table, format));
+  return { path: file, format, rows: table.rows.length, columns: table.columns };
+}
+
+/**
+ * Runs a search, natural language search or bulk lookup from tool arguments
+ * and writes the results to a local file.
+ */
+export async function exportResults(
+  client: CreatorDBClient,
+  input: Record<string, unknown>,
+  options: CallOptions = {}
+): Promise<ExportFileResult> {
+  const { platform, source } = input;
+  if (!isPlatform(platform)) {
+    throw new ApiError("platform must be one of: instagram, youtube, tiktok", 400);
+  }
+  const format = parseExportFormat(input.format);
+  if (!format) throw new ApiError(`format must be one of: ${EXPORT_FORMATS.join(", ")}`, 400);
+  const columns = parseExportColumns(input.columns);
+
+  let table: ExportTable;
+  switch (source) {
+    case "search": {
+      const request = buildSearchRequest(withSearchQuery(platform, input));
+      const response = await searchCreators(client, platform, request, {
+        ...options,
+        ...paginationOptions(input),
+      });
+      table = searchTable(response.data, columns);
+      break;
+    }
+    case "natural_language_search": {
+      if (!input.query) throw new ApiError("query is required", 400);
+      const response = await naturalLanguageSearchCreators(
+        client,
+        platform,
+        buildNaturalLanguageSearchRequest(input),
+        { ...options, ...paginationOptions(input) }
+      );
+      table = searchTable(response.data, columns);
+      break;
+    }
+    case "bulk": {
+      const data = await bulkGetCreators(
+        client,
+        platform,
+        parseBulkIds(input.ids, "ids"),
+        input.sections ? parseReportSections(input.sections) : undefined,
+        { ...options, concurrency: Number(input.concurrency) || undefined }
+      );
+      table = bulkTable(data, columns);
+      break;
+    }
+    default:
+      throw new ApiError(`source must be one of: ${EXPORT_SOURCES.join(", ")}`, 400);
+  }
+
+  const name = typeof input.filename === "string" ? input.filename : `${platform}-${source}`;
+  return writeExportFile(table, format, name);
+}
@@ -0,0 +1,445 @@
+import { ApiError, Platform, SearchFilter } from "./client.js";
+
+// =============================================================================
+// Search Filter Catalog - per-platform filter definitions and validation
+// =============================================================================
+
+export const MAX_FILTERS = 10;
+
+export type FilterOp = SearchFilter["op"];
+export type FilterValueType = "string" | "number" | "boolean" | "string[]";
+
+export interface FilterDefinition {
+  filterName: string;
+  description: string;
+  valueType: FilterValueType;
+  ops: FilterOp[];
+  fuzzy: boolean;
+  /** Fixed set of allowed values, when the field has one */
+  enum?: Array<string | boolean>;
+  /** Regex each string value must match, e.g. ISO country codes */
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  /** Tool that lists the valid values for this field */
+  valuesFrom?: string;
+  examples: unknown[];
+}
+
+export interface FilterIssue {
+  index: number;
+  filterName: string;
+  /** Warnings (unknown filter names with no close match) don't stop the search */
+  severity: "error" | "warning";
+  message: string;
+  suggestion?: string;
+}
+
+// =============================================================================
+// Catalog
+// =============================================================================
+
+const displayName: FilterDefinition = {
+  filterName: "displayName",
+  description: "Creator display name.",
+  valueType: "string",
+  ops: ["=", "in"],
+  fuzzy: true,
+  examples: ["MrBeast"],
+};
+
+// The API's filter reference takes alpha-3 codes ("USA", "GBR", "TWN"), not alpha-2
+const country: FilterDefinition = {
+  filterName: "country",
+  description: "Creator country as ISO 3166-1 alpha-3.",
+  valueType: "string",
+  ops: ["=", "in"],
+  fuzzy: false,
+  pattern: "^[A-Z]{3}$",
+  examples: ["USA", ["USA", "CAN"]],
+};
+
+const mainLanguage: FilterDefinition = {
+  filterName: "mainLanguage",
+  description: "Primary content language as ISO 639-3.",
+  valueType: "string",
+  ops: ["=", "in"],
+  fuzzy: false,
+  pattern: "^[a-z]{3}$",
+  examples: ["eng", ["eng", "spa"]],
+};
+
+const isVerified: FilterDefinition = {
+  filterName: "isVerified",
+  description: "Verified account.",
+  valueType: "boolean",
+  ops: ["="],
+  fuzzy: false,
+  enum: [true, false],
+  examples: [true],
+};
+
+const hasSponsors: FilterDefinition = {
+  filterName: "hasSponsors",
+  description: "Has published sponsored content.",
+  valueType: "boolean",
+  ops: ["="],
+  fuzzy: false,
+  enum: [true, false],
+  examples: [true],
+};
+
+const avgEngagementRate: FilterDefinition = {
+  filterName: "avgEngagementRate",
+  description: "Average engagement rate as a fraction (0.03 = 3%).",
+  valueType: "number",
+  ops: [">", "<", "="],
+  fuzzy: false,
+  minimum: 0,
+  maximum: 1,
+  examples: [0.03],
+};
+
+const totalFollowers: FilterDefinition = {
+  filterName: "totalFollowers",
+  description: "Follower count.",
+  valueType: "number",
+  ops: [">", "<", "="],
+  fuzzy: false,
+  minimum: 0,
+  examples: [100000],
+};
+
+function niches(platform: Platform): FilterDefinition {
+  return {
+    filterName: "niches",
+    description: "Content niches; matches creators in any of the listed niches.",
+    valueType: "string[]",
+    ops: ["in"],
+    fuzzy: false,
+    valuesFrom: `${platform}_get_niches`,
+    examples: [["fashion_Lifestyle"]],
+  };
+}
+
+export const FILTER_CATALOG: Record<Platform, FilterDefinition[]> = {
+  instagram: [
+    displayName,
+    totalFollowers,
+    avgEngagementRate,
+    country,
+    mainLanguage,
+    niches("instagram"),
+    isVerified,
+    hasSponsors,
+  ],
+  youtube: [
+    displayName,
+    {
+      filterName: "totalSubscribers",
+      description: "Subscriber count.",
+      valueType: "number",
+      ops: [">", "<", "="],
+      fuzzy: false,
+      minimum: 0,
+      examples: [1000000],
+    },
+    avgEngagementRate,
+    country,
+    mainLanguage,
+    niches("youtube"),
+    {
+      filterName: "topics",
+      description: "Content topics; matches channels in any of the listed topics.",
+      valueType: "string[]",
+      ops: ["in"],
+      fuzzy: false,
+      valuesFrom: "youtube_get_topics",
+      examples: [["gaming_Gaming"]],
+    },
+    isVerified,
+    hasSponsors,
+  ],
+  tiktok: [
+    displayName,
+    totalFollowers,
+    avgEngagementRate,
+    country,
+    mainLanguage,
+    niches("tiktok"),
+    isVerified,
+    hasSponsors,
+  ],
+};
+
+// Common names people reach for, mapped to the catalog's field names
+const ALIASES: Record<string, string> = {
+  followers: "totalFollowers",
+  totalfollowers: "totalFollowers",
+  subscribers: "totalSubscribers",
+  totalsubscribers: "totalSubscribers",
+  subs: "totalSubscribers",
+  engagement: "avgEngagementRate",
+  engagementrate: "avgEngagementRate",
+  er: "avgEngagementRate",
+  name: "displayName",
+  language: "mainLanguage",
+  lang: "mainLanguage",
+  niche: "niches",
+  topic: "topics",
+  verified: "isVerified",
+  sponsored: "hasSponsors",
+};
+
+/**
+ * ISO 3166-1 alpha-2 to alpha-3 for common markets, used to suggest (and
+ * let the query language accept) two-letter country codes.
+ */
+export const COUNTRY_ALPHA3: Record<string, string> = {
+  AE: "ARE", AR: "ARG", AT: "AUT", AU: "AUS", BE: "BEL", BR: "BRA", CA: "CAN",
+  CH: "CHE", CL: "CHL", CN: "CHN", CO: "COL", CZ: "CZE", DE: "DEU", DK: "DNK",
+  EG: "EGY", ES: "ESP", FI: "FIN", FR: "FRA", GB: "GBR", GR: "GRC", HK: "HKG",
+  ID: "IDN", IE: "IRL", IL: "ISR", IN: "IND", IT: "ITA", JP: "JPN", KR: "KOR",
+  MX: "MEX", MY: "MYS", NG: "NGA", NL: "NLD", NO: "NOR", NZ: "NZL", PE: "PER",
+  PH: "PHL", PK: "PAK", PL: "POL", PT: "PRT", RO: "ROU", RU: "RUS", SA: "SAU",
+  SE: "SWE", SG: "SGP", TH: "THA", TR: "TUR", TW: "TWN", UA: "UKR", UK: "GBR",
+  US: "USA", VN: "VNM", ZA: "ZAF",
+};
+
+export interface FilterCatalog {
+  platform: Platform;
+  maxFilters: number;
+  filters: FilterDefinition[];
+}
+
+export function getFilterCatalog(platform: Platform): FilterCatalog {
+  return { platform, maxFilters: MAX_FILTERS, filters: FILTER_CATALOG[platform] };
+}
+
+export function findFilter(platform: Platform, filterName: string): FilterDefinition | undefined {
+  return FILTER_CATALOG[platform].find((filter) => filter.filterName === filterName);
+}
+
+// =============================================================================
+// Suggestions
+// =============================================================================
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Maps a filter name or common alias ("followers", "er", "niche") to the
+ * platform's catalog name, ignoring case. Returns undefined when unknown.
+ */
+export function resolveFilterName(platform: Platform, filterName: string): string | undefined {
+  const names = FILTER_CATALOG[platform].map((filter) => filter.filterName);
+  const lower = filterName.toLowerCase().replace(/[^a-z]/g, "");
+
+  const exact = names.find((name) => name.toLowerCase() === lower);
+  if (exact) return exact;
+
+  const alias = ALIASES[lower];
+  if (!alias) return undefined;
+  if (names.includes(alias)) return alias;
+  // e.g. "followers" on YouTube, which counts subscribers
+  if (alias === "totalFollowers" && names.includes("totalSubscribers")) return "totalSubscribers";
+  if (alias === "totalSubscribers" && names.includes("totalFollowers")) return "totalFollowers";
+  return undefined;
+}
+
+/**
+ * Suggests the closest catalog filter name for an unknown one, via aliases,
+ * case-insensitive matches or edit distance to a name or alias.
+ */
+export function suggestFilterName(platform: Platform, filterName: string): string | undefined {
+  const resolved = resolveFilterName(platform, filterName);
+  if (resolved) return resolved;
+
+  const lower = filterName.toLowerCase();
+  const candidates = [
+    ...FILTER_CATALOG[platform].map((filter) => filter.filterName),
+    ...Object.keys(ALIASES),
+  ];
+  let best: { name: string; candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const name = resolveFilterName(platform, candidate);
+    if (!name) continue;
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (!best || distance < best.distance) best = { name, candidate, distance };
+  }
+  return best && best.distance <= Math.max(2, Math.floor(best.candidate.length / 3))
+    ? best.name
+    : undefined;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+type ValueIssue = Pick<FilterIssue, "message" | "suggestion">;
+
+const errorIssue = (issue: Omit<FilterIssue, "severity">): FilterIssue => ({
+  ...issue,
+  severity: "error",
+});
+
+function valueIssue(definition: FilterDefinition, filter: SearchFilter): ValueIssue | undefined {
+  const { op, value } = filter;
+  const name = definition.filterName;
+
+  if (op === "in" || definition.valueType === "string[]") {
+    const strings = Array.isArray(value) && value.every((item) => typeof item === "string");
+    if (!strings || value.length === 0) {
+      return {
+        message: `${name} with op "${op}" needs a non-empty array of strings`,
+        suggestion: typeof value === "string" ? JSON.stringify([value]) : undefined,
+      };
+    }
+  } else if (typeof value !== definition.valueType) {
+    const unquoted = typeof value === "string" && definition.valueType !== "string";
+    return {
+      message: `${name} needs a ${definition.valueType} value, got ${JSON.stringify(value)}${unquoted ? " (drop the quotes)" : ""}`,
+    };
+  }
+
+  if (typeof value === "number") {
+    if (definition.minimum !== undefined && value < definition.minimum) {
+      return { message: `${name} must be at least ${definition.minimum}` };
+    }
+    if (definition.maximum !== undefined && value > definition.maximum) {
+      return {
+        message: `${name} must be at most ${definition.maximum}`,
+        suggestion: name === "avgEngagementRate" ? String(value / 100) : undefined,
+      };
+    }
+  }
+
+  if (definition.pattern) {
+    const pattern = new RegExp(definition.pattern);
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      if (typeof item !== "string" || pattern.test(item)) continue;
+      const upper = item.toUpperCase();
+      const suggestion =
+        name === "country"
+          ? (COUNTRY_ALPHA3[upper] ?? (/^[A-Z]{3}$/.test(upper) ? upper : undefined))
+          : name === "mainLanguage" && /^[a-z]{3}$/i.test(item)
+            ? item.toLowerCase()
+            : undefined;
+      return { message: `${name} value "${item}" must match ${definition.pattern}`, suggestion };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks filters against the platform's catalog without calling upstream.
+ * Returns every problem found, each with a "did you mean" suggestion when
+ * one is obvious. An unknown filter name close to a catalog one is taken for
+ * a typo and is an error. The catalog isn't exhaustive, so other unknown
+ * names are only warnings and go upstream as they are.
+ */
+export function findFilterIssues(platform: Platform, filters: SearchFilter[]): FilterIssue[] {
+  const issues: FilterIssue[] = [];
+
+  if (filters.length > MAX_FILTERS) {
+    issues.push(
+      errorIssue({
+        index: MAX_FILTERS,
+        filterName: filters[MAX_FILTERS].filterName,
+        message: `At most ${MAX_FILTERS} filters are allowed per search (got ${filters.length})`,
+      })
+    );
+  }
+
+  filters.forEach((filter, index) => {
+    const filterName = String(filter?.filterName ?? "");
+    const definition = findFilter(platform, filterName);
+
+    if (!definition) {
+      const suggestion = suggestFilterName(platform, filterName);
+      issues.push(
+        suggestion
+          ? errorIssue({
+              index,
+              filterName,
+              message: `Unknown ${platform} filter "${filterName}"`,
+              suggestion,
+            })
+          : {
+              index,
+              filterName,
+              severity: "warning",
+              message: `Unknown ${platform} filter "${filterName}", sent to the API unchecked`,
+            }
+      );
+      return;
+    }
+
+    if (!definition.ops.includes(filter.op)) {
+      issues.push(
+        errorIssue({
+          index,
+          filterName,
+          message: `Operator "${filter.op}" is not supported for ${filterName} (use ${definition.ops.join(", ")})`,
+          suggestion: definition.ops[0],
+        })
+      );
+      return;
+    }
+
+    if (filter.isFuzzySearch && !definition.fuzzy) {
+      issues.push(
+        errorIssue({ index, filterName, message: `${filterName} does not support fuzzy search` })
+      );
+    }
+
+    const issue = valueIssue(definition, filter);
+    if (issue) issues.push(errorIssue({ index, filterName, ...issue }));
+  });
+
+  return issues;
+}
+
+function describeIssue(issue: FilterIssue): string {
+  const hint = issue.suggestion ? `. Did you mean "${issue.suggestion}"?` : "";
+  return `filters[${issue.index}]: ${issue.message}${hint}`;
+}
+
+/**
+ * Throws a 400 ApiError (code "invalid_search_filters") listing every error
+ * when the filters don't match the platform's catalog. Returns the warnings,
+ * for the search response to pass on.
+ */
+export function validateSearchFilters(platform: Platform, filters: unknown): string[] {
+  if (!Array.isArray(filters)) {
+    throw new ApiError("filters must be an array of filter objects", 400);
+  }
+
+  const issues = findFilterIssues(platform, filters);
+  const errors = issues.filter((issue) => issue.severity === "error");
+  if (errors.length > 0) {
+    const summary = errors.map(describeIssue).join("; ");
+    const error = new ApiError(`Invalid search filters: ${summary}`, 400);
+    error.code = "invalid_search_filters";
+    error.details = { platform, issues: errors };
+    throw error;
+  }
+  return issues.map(describeIssue);
+}
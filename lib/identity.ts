@@ -0,0 +1,490 @@
+import {
+  ApiError,
+  CallOptions,
+  CreatorDBClient,
+  PLATFORMS,
+  Platform,
+  buildSearchRequest,
+  isPlatform,
+} from "./client.js";
+
+// =============================================================================
+// Creator Identity Resolver - links one person's accounts across platforms
+// =============================================================================
+
+export interface CreatorAccount {
+  platform: Platform;
+  /** Instagram/TikTok uniqueId or YouTube channelId */
+  id: string;
+}
+
+export interface IdentityCandidate extends CreatorAccount {
+  displayName: string | null;
+  followers: number | null;
+  /** 0-1, higher means more likely the same person */
+  confidence: number;
+  /** Evidence behind the score, e.g. "links_back", "name_similarity:0.92" */
+  signals: string[];
+}
+
+export interface IdentityResolution {
+  source: CreatorAccount & { displayName: string | null };
+  /** Accounts previously confirmed as the same person */
+  confirmed: CreatorAccount[];
+  /** Proposed matches on platforms with no confirmed account, best first */
+  candidates: IdentityCandidate[];
+  /** Platforms whose lookups failed, with the reason */
+  errors: Array<{ platform: Platform; error: string }>;
+}
+
+export interface ResolveOptions extends CallOptions {
+  /** Candidates returned per platform (default 5) */
+  maxCandidates?: number;
+}
+
+const SEARCH_PAGE_SIZE = 10;
+// Top candidates per platform whose full profile is fetched to check links
+const VERIFY_LIMIT = 3;
+const DEFAULT_MAX_CANDIDATES = 5;
+
+const WEIGHTS = {
+  nameSimilarity: 0.45,
+  linkedFromSource: 0.35,
+  linksBack: 0.35,
+  handleMatch: 0.15,
+  bioMention: 0.1,
+  sameCountry: 0.05,
+};
+
+// =============================================================================
+// Identity Store - confirmed cross-platform mappings
+// =============================================================================
+
+export interface IdentityStore {
+  /** Returns every account confirmed as the same person, excluding `account`. */
+  get(account: CreatorAccount): Promise<CreatorAccount[]>;
+  /** Records that all of these accounts belong to one person. */
+  link(accounts: CreatorAccount[]): Promise<void>;
+}
+
+/**
+ * Validates a platform/id pair from tool arguments or a request body.
+ */
+export function toCreatorAccount(platform: unknown, id: unknown): CreatorAccount {
+  if (!isPlatform(platform)) {
+    throw new ApiError(`platform must be one of: ${PLATFORMS.join(", ")}`, 400);
+  }
+  if (typeof id !== "string" || !id.trim()) {
+    throw new ApiError("id is required", 400);
+  }
+  return { platform, id: id.trim() };
+}
+
+/**
+ * Reads a list of creators given as `{ platform, id }` objects or
+ * "platform:id" strings, or one comma-separated string of those. Duplicates
+ * are dropped; throws 400 unless the count is within `min`..`max`.
+ */
+export function parseCreatorAccounts(value: unknown, min: number, max: number): CreatorAccount[] {
+  const items =
+    typeof value === "string" ? value.split(",").filter((item) => item.trim()) : value;
+  if (!Array.isArray(items)) {
+    throw new ApiError(
+      'creators must be an array of { platform, id } or "platform:id" strings',
+      400
+    );
+  }
+
+  const accounts = new Map<string, CreatorAccount>();
+  for (const item of items) {
+    let account: CreatorAccount;
+    if (typeof item === "string") {
+      const index = item.indexOf(":");
+      account = toCreatorAccount(item.slice(0, index).trim(), item.slice(index + 1));
+    } else {
+      account = toCreatorAccount(item?.platform, item?.id);
+    }
+    accounts.set(accountKey(account), account);
+  }
+
+  if (accounts.size < min || accounts.size > max) {
+    throw new ApiError(
+      `creators must list between ${min} and ${max} distinct creators (got ${accounts.size})`,
+      400
+    );
+  }
+  return [...accounts.values()];
+}
+
+/** "platform:id", the key a creator account is stored under. */
+export function accountKey({ platform, id }: CreatorAccount): string {
+  return `${platform}:${id}`;
+}
+
+function parseAccountKey(key: string): CreatorAccount {
+  const index = key.indexOf(":");
+  return { platform: key.slice(0, index) as Platform, id: key.slice(index + 1) };
+}
+
+export class MemoryIdentityStore implements IdentityStore {
+  private readonly groups = new Map<string, Set<string>>();
+
+  async get(account: CreatorAccount): Promise<CreatorAccount[]> {
+    const key = accountKey(account);
+    const group = this.groups.get(key);
+    if (!group) return [];
+    return [...group].filter((member) => member !== key).map(parseAccountKey);
+  }
+
+  async link(accounts: CreatorAccount[]): Promise<void> {
+    const merged = new Set<string>();
+    for (const account of accounts) {
+      const key = accountKey(account);
+      for (const member of this.groups.get(key) ?? [key]) merged.add(member);
+    }
+    for (const member of merged) this.groups.set(member, merged);
+  }
+}
+
+/**
+ * Builds the identity store from CREATORDB_IDENTITY_STORE ("sqlite" or
+ * "memory", default `defaultBackend`). The SQLite file lives at
+ * CREATORDB_IDENTITY_PATH (default data/identities.sqlite).
+ */
+export async function createIdentityStoreFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  defaultBackend: "memory" | "sqlite" = "sqlite"
+): Promise<IdentityStore> {
+  const backend = env.CREATORDB_IDENTITY_STORE ?? defaultBackend;
+
+  switch (backend) {
+    case "memory":
+      return new MemoryIdentityStore();
+    case "sqlite": {
+      const { SqliteIdentityStore } = await import("./sqlite-identity.js");
+      return new SqliteIdentityStore(env.CREATORDB_IDENTITY_PATH ?? "data/identities.sqlite");
+    }
+    default:
+      throw new Error(`Unknown CREATORDB_IDENTITY_STORE backend: ${backend}`);
+  }
+}
+
+// =============================================================================
+// Matching Helpers
+// =============================================================================
+
+interface ProfileFacts {
+  displayName: string | null;
+  followers: number | null;
+  country: string | null;
+  bio: string;
+  links: string[];
+}
+
+function profileFacts(data: Record<string, unknown>): ProfileFacts {
+  const followers = data.totalFollowers ?? data.totalSubscribers;
+  return {
+    displayName: typeof data.displayName === "string" ? data.displayName : null,
+    followers: typeof followers === "number" ? followers : null,
+    country: typeof data.country === "string" ? data.country : null,
+    bio: typeof data.bio === "string" ? data.bio : "",
+    links: Array.isArray(data.links) ? data.links.map(String) : [],
+  };
+}
+
+function normalizeName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function bigrams(text: string): string[] {
+  if (text.length < 2) return [text];
+  return Array.from({ length: text.length - 1 }, (_, i) => text.slice(i, i + 2));
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalized names (0-1).
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = bigrams(normalizeName(a));
+  const right = bigrams(normalizeName(b));
+  if (!left[0] || !right[0]) return 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of left) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  let overlap = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * overlap) / (left.length + right.length);
+}
+
+const LINK_PATTERNS: Array<{ platform: Platform; pattern: RegExp }> = [
+  { platform: "instagram", pattern: /instagram\.com\/([A-Za-z0-9._]+)/gi },
+  { platform: "tiktok", pattern: /tiktok\.com\/@([A-Za-z0-9._]+)/gi },
+  { platform: "youtube", pattern: /youtube\.com\/channel\/(UC[A-Za-z0-9_-]{22})/gi },
+];
+
+const RESERVED_PATHS = new Set(["p", "reel", "reels", "explore", "stories", "accounts"]);
+
+/**
+ * Extracts account IDs for each platform from profile links and bio text.
+ */
+export function extractAccountIds(texts: string[]): Map<Platform, Set<string>> {
+  const found = new Map<Platform, Set<string>>();
+  for (const text of texts) {
+    for (const { platform, pattern } of LINK_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const id = platform === "youtube" ? match[1] : match[1].toLowerCase();
+        if (RESERVED_PATHS.has(id)) continue;
+        if (!found.has(platform)) found.set(platform, new Set());
+        found.get(platform)!.add(id);
+      }
+    }
+  }
+  return found;
+}
+
+// YouTube @handles can't be turned into a channelId, but they are a strong name hint
+function youtubeHandles(texts: string[]): string[] {
+  return texts.flatMap((text) =>
+    [...text.matchAll(/youtube\.com\/@([A-Za-z0-9._-]+)/gi)].map((match) => match[1].toLowerCase())
+  );
+}
+
+function accountHandles(account: CreatorAccount, facts: ProfileFacts): string[] {
+  const handles = youtubeHandles([...facts.links, facts.bio]);
+  if (account.platform !== "youtube") handles.push(account.id.toLowerCase());
+  return handles.map(normalizeName);
+}
+
+function refersTo(texts: string[], account: CreatorAccount, handles: string[]): boolean {
+  if (texts.length === 0) return false;
+  const ids = extractAccountIds(texts).get(account.platform);
+  const id = account.platform === "youtube" ? account.id : account.id.toLowerCase();
+  if (ids?.has(id)) return true;
+  return (
+    account.platform === "youtube" &&
+    youtubeHandles(texts).some((handle) => handles.includes(normalizeName(handle)))
+  );
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// =============================================================================
+// Resolver
+// =============================================================================
+
+interface Draft {
+  account: CreatorAccount;
+  displayName: string | null;
+  followers: number | null;
+  country: string | null;
+  linkedFromSource: boolean;
+}
+
+function scoreDraft(
+  draft: Draft,
+  source: CreatorAccount,
+  sourceFacts: ProfileFacts,
+  sourceHandles: string[],
+  candidateFacts?: ProfileFacts
+): IdentityCandidate {
+  const signals: string[] = [];
+  let confidence = 0;
+
+  if (sourceFacts.displayName && draft.displayName) {
+    const similarity = nameSimilarity(sourceFacts.displayName, draft.displayName);
+    confidence += similarity * WEIGHTS.nameSimilarity;
+    signals.push(`name_similarity:${round(similarity)}`);
+  }
+  if (draft.linkedFromSource) {
+    confidence += WEIGHTS.linkedFromSource;
+    signals.push("linked_from_source");
+  }
+  if (draft.account.platform !== "youtube" && sourceHandles.includes(normalizeName(draft.account.id))) {
+    confidence += WEIGHTS.handleMatch;
+    signals.push("handle_match");
+  }
+  if (candidateFacts && refersTo(candidateFacts.links, source, sourceHandles)) {
+    confidence += WEIGHTS.linksBack;
+    signals.push("links_back");
+  } else if (candidateFacts && refersTo([candidateFacts.bio], source, sourceHandles)) {
+    confidence += WEIGHTS.bioMention;
+    signals.push("bio_mention");
+  }
+  if (sourceFacts.country && draft.country === sourceFacts.country) {
+    confidence += WEIGHTS.sameCountry;
+    signals.push("same_country");
+  }
+
+  return {
+    ...draft.account,
+    displayName: draft.displayName,
+    followers: draft.followers,
+    confidence: round(Math.min(1, confidence)),
+    signals,
+  };
+}
+
+async function searchByName(
+  client: CreatorDBClient,
+  platform: Platform,
+  displayName: string,
+  options: CallOptions
+): Promise<Draft[]> {
+  const request = buildSearchRequest({
+    filters: [{ filterName: "displayName", op: "=", value: displayName, isFuzzySearch: true }],
+    pageSize: SEARCH_PAGE_SIZE,
+  });
+  const result = await client[platform].search(request, options);
+
+  return result.data.creators.map((creator) => {
+    const { displayName, followers, country } = profileFacts(creator);
+    const id = String(platform === "youtube" ? creator.channelId : creator.uniqueId);
+    return { account: { platform, id }, displayName, followers, country, linkedFromSource: false };
+  });
+}
+
+async function proposeCandidates(
+  client: CreatorDBClient,
+  platform: Platform,
+  source: CreatorAccount,
+  sourceFacts: ProfileFacts,
+  options: ResolveOptions
+): Promise<IdentityCandidate[]> {
+  const sourceHandles = accountHandles(source, sourceFacts);
+  const drafts = new Map<string, Draft>();
+
+  const linkedIds = extractAccountIds([...sourceFacts.links, sourceFacts.bio]).get(platform);
+  for (const id of linkedIds ?? []) {
+    drafts.set(id, {
+      account: { platform, id },
+      displayName: null,
+      followers: null,
+      country: null,
+      linkedFromSource: true,
+    });
+  }
+
+  if (sourceFacts.displayName) {
+    for (const draft of await searchByName(client, platform, sourceFacts.displayName, options)) {
+      const existing = drafts.get(draft.account.id);
+      drafts.set(draft.account.id, { ...draft, linkedFromSource: Boolean(existing) });
+    }
+  }
+
+  const ranked = [...drafts.values()]
+    .map((draft) => ({ draft, preliminary: scoreDraft(draft, source, sourceFacts, sourceHandles) }))
+    .sort((a, b) => b.preliminary.confidence - a.preliminary.confidence);
+
+  // Fetch full profiles for the leading candidates to look for links back
+  const verified = await Promise.all(
+    ranked.map(async ({ draft, preliminary }, index) => {
+      if (index >= VERIFY_LIMIT) return preliminary;
+      try {
+        const profile = await client[platform].getProfile(draft.account.id, options);
+        const facts = profileFacts(profile.data);
+        const enriched = {
+          ...draft,
+          displayName: draft.displayName ?? facts.displayName,
+          followers: draft.followers ?? facts.followers,
+          country: draft.country ?? facts.country,
+        };
+        return scoreDraft(enriched, source, sourceFacts, sourceHandles, facts);
+      } catch {
+        // Links found on the source profile may point at accounts CreatorDB doesn't track
+        return draft.linkedFromSource && !draft.displayName ? undefined : preliminary;
+      }
+    })
+  );
+
+  return verified
+    .filter((candidate): candidate is IdentityCandidate => candidate !== undefined)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, options.maxCandidates ?? DEFAULT_MAX_CANDIDATES);
+}
+
+/**
+ * Proposes matching accounts on the other platforms for one creator account.
+ * Platforms with a confirmed mapping in the store are skipped, so once every
+ * platform is confirmed the lookup makes no upstream requests.
+ */
+export async function resolveCreatorIdentity(
+  client: CreatorDBClient,
+  store: IdentityStore,
+  source: CreatorAccount,
+  options: ResolveOptions = {}
+): Promise<IdentityResolution> {
+  const confirmed = await store.get(source);
+  const pending = PLATFORMS.filter(
+    (platform) =>
+      platform !== source.platform && !confirmed.some((account) => account.platform === platform)
+  );
+
+  if (pending.length === 0) {
+    return { source: { ...source, displayName: null }, confirmed, candidates: [], errors: [] };
+  }
+
+  const profile = await client[source.platform].getProfile(source.id, options);
+  const sourceFacts = profileFacts(profile.data);
+
+  const settled = await Promise.allSettled(
+    pending.map((platform) => proposeCandidates(client, platform, source, sourceFacts, options))
+  );
+
+  const candidates: IdentityCandidate[] = [];
+  const errors: IdentityResolution["errors"] = [];
+  settled.forEach((outcome, index) => {
+    if (outcome.status === "fulfilled") {
+      candidates.push(...outcome.value);
+    } else {
+      const reason = outcome.reason;
+      errors.push({
+        platform: pending[index],
+        error: reason instanceof Error ? reason.message : String(reason),
+      });
+    }
+  });
+
+  return {
+    source: { ...source, displayName: sourceFacts.displayName },
+    confirmed,
+    candidates: candidates.sort((a, b) => b.confidence - a.confidence),
+    errors,
+  };
+}
+
+/**
+ * Stores `confirm` as the same person as `source`, then resolves `source`.
+ * Used by the MCP tool and the HTTP routes alike.
+ */
+export async function confirmAndResolveIdentity(
+  client: CreatorDBClient,
+  store: IdentityStore,
+  input: Record<string, unknown>,
+  options: CallOptions = {}
+): Promise<IdentityResolution> {
+  const source = toCreatorAccount(input.platform, input.id);
+
+  if (input.confirm !== undefined) {
+    if (!Array.isArray(input.confirm)) {
+      throw new ApiError("confirm must be an array of { platform, id } objects", 400);
+    }
+    const accounts = input.confirm.map((account) =>
+      toCreatorAccount(account?.platform, account?.id)
+    );
+    await store.link([source, ...accounts]);
+  }
+
+  const maxCandidates = Number(input.maxCandidates) || undefined;
+  return resolveCreatorIdentity(client, store, source, { ...options, maxCandidates });
+}
@@ -0,0 +1,237 @@
+import { randomUUID } from "node:crypto";
+import type { Server as HttpServer } from "node:http";
+import { NextFunction, Request, Response } from "express";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { AuthConfig, authenticate } from "./auth.js";
+import { ApiError } from "./errors.js";
+
+// =============================================================================
+// MCP over HTTP - Streamable HTTP transport with a legacy SSE fallback
+// =============================================================================
+//
+// Each client session gets its own MCP Server instance (the SDK binds a server
+// to a single transport); they all share the process-wide CreatorDBClient, so
+// cache and budget state are shared across the team. A session belongs to the
+// client that opened it and is closed after sitting idle.
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1"]);
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Clients allowed to connect (CREATORDB_CLIENTS); required beyond loopback */
+  auth?: AuthConfig;
+  /** Sessions without a request for this long are closed (default 30 minutes) */
+  sessionIdleMs?: number;
+}
+
+export interface HttpTransportHandle {
+  close(): Promise<void>;
+}
+
+type SessionTransport = StreamableHTTPServerTransport | SSEServerTransport;
+
+interface Session {
+  transport: SessionTransport;
+  /** The client that opened the session; null when authentication is off */
+  clientId: string | null;
+  lastActiveAt: number;
+}
+
+function jsonRpcError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Lets in clients from CREATORDB_CLIENTS by bearer key and records the client
+ * id in `res.locals.clientId`. HMAC signatures can't be checked here because
+ * the SDK app has already parsed the body they sign. An MCP session can call
+ * every tool, so only clients with the "*" scope and nothing denied may open one.
+ */
+function requireClient(config: AuthConfig) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const auth = authenticate(config, {
+        method: req.method,
+        url: req.originalUrl,
+        headers: req.headers,
+      });
+      if (!auth.scopes.includes("*") || auth.deny.length > 0) {
+        throw new ApiError(
+          `Client ${auth.clientId} may not open MCP sessions: they need the "*" scope with nothing denied`,
+          403
+        );
+      }
+      res.locals.clientId = auth.clientId;
+      next();
+    } catch (error) {
+      const status = error instanceof ApiError ? error.status : 500;
+      jsonRpcError(res, status, error instanceof Error ? error.message : String(error));
+    }
+  };
+}
+
+/**
+ * Reads MCP_SESSION_IDLE_MINUTES, the idle timeout for HTTP sessions.
+ * Returns undefined when unset so the default applies.
+ */
+export function sessionIdleMsFromEnv(env: NodeJS.ProcessEnv = process.env): number | undefined {
+  if (!env.MCP_SESSION_IDLE_MINUTES) return undefined;
+  const minutes = Number(env.MCP_SESSION_IDLE_MINUTES);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    throw new Error(
+      `MCP_SESSION_IDLE_MINUTES must be a positive number of minutes, got "${env.MCP_SESSION_IDLE_MINUTES}"`
+    );
+  }
+  return minutes * 60 * 1000;
+}
+
+export async function startHttpTransport(
+  createServer: () => Server,
+  { host, port, auth, sessionIdleMs = DEFAULT_SESSION_IDLE_MS }: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  // Every session spends the server's CreatorDB key, so don't serve the network unguarded
+  if (!auth && !LOOPBACK_HOSTS.has(host)) {
+    throw new Error(
+      `Refusing to serve MCP on ${host} without authentication: ` +
+        "set CREATORDB_CLIENTS or bind to 127.0.0.1"
+    );
+  }
+
+  const app = createMcpExpressApp({ host });
+  const sessions = new Map<string, Session>();
+  if (auth) app.use(["/mcp", "/sse", "/messages"], requireClient(auth));
+
+  const clientOf = (res: Response): string | null => res.locals.clientId ?? null;
+
+  // A session only answers the client that opened it, so a leaked session ID
+  // is no use to another client. Refuses the request when the client differs,
+  // otherwise marks the session active.
+  function claimSession(session: Session, res: Response): boolean {
+    if (session.clientId !== clientOf(res)) {
+      jsonRpcError(res, 403, "Forbidden: the session belongs to another client");
+      return false;
+    }
+    session.lastActiveAt = Date.now();
+    return true;
+  }
+
+  function addSession(id: string, transport: SessionTransport, res: Response) {
+    sessions.set(id, { transport, clientId: clientOf(res), lastActiveAt: Date.now() });
+  }
+
+  // Closing a transport removes its session through its onclose handler
+  const sweep = setInterval(
+    () => {
+      const cutoff = Date.now() - sessionIdleMs;
+      for (const session of sessions.values()) {
+        if (session.lastActiveAt < cutoff) void session.transport.close();
+      }
+    },
+    Math.min(sessionIdleMs, SWEEP_INTERVAL_MS)
+  );
+  sweep.unref();
+
+  // ---------------------------------------------------------------------------
+  // Streamable HTTP (protocol version 2025-03-26 and later)
+  // ---------------------------------------------------------------------------
+
+  app.post("/mcp", async (req: Request, res: Response) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (session && !claimSession(session, res)) return;
+    const existing = session?.transport;
+
+    if (existing instanceof StreamableHTTPServerTransport) {
+      await existing.handleRequest(req, res, req.body);
+      return;
+    }
+    if (existing || sessionId || !isInitializeRequest(req.body)) {
+      jsonRpcError(res, 400, "Bad Request: no valid session ID provided");
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        addSession(id, transport, res);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  // GET opens the server-to-client notification stream, DELETE ends the session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (session && !claimSession(session, res)) return;
+    const transport = session?.transport;
+    if (!(transport instanceof StreamableHTTPServerTransport)) {
+      jsonRpcError(res, 400, "Bad Request: invalid or missing session ID");
+      return;
+    }
+    await transport.handleRequest(req, res);
+  };
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  // ---------------------------------------------------------------------------
+  // HTTP+SSE fallback (protocol version 2024-11-05)
+  // ---------------------------------------------------------------------------
+
+  app.get("/sse", async (_req: Request, res: Response) => {
+    const transport = new SSEServerTransport("/messages", res);
+    addSession(transport.sessionId, transport, res);
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+    };
+    await createServer().connect(transport);
+  });
+
+  app.post("/messages", async (req: Request, res: Response) => {
+    const session = sessions.get(String(req.query.sessionId));
+    if (session && !claimSession(session, res)) return;
+    const transport = session?.transport;
+    if (!(transport instanceof SSEServerTransport)) {
+      jsonRpcError(res, 400, "Bad Request: no SSE session found for sessionId");
+      return;
+    }
+    await transport.handlePostMessage(req, res, req.body);
+  });
+
+  app.get("/health", (_req: Request, res: Response) => {
+    res.json({ status: "ok", sessions: sessions.size });
+  });
+
+  const httpServer = await new Promise<HttpServer>((resolve, reject) => {
+    const listener = app.listen(port, host, () => resolve(listener));
+    listener.on("error", reject);
+  });
+
+  return {
+    async close() {
+      clearInterval(sweep);
+      await Promise.allSettled([...sessions.values()].map(({ transport }) => transport.close()));
+      sessions.clear();
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
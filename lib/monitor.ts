@@ -0,0 +1,556 @@
+import { existsSync, readFileSync } from "node:fs";
+import { z } from "zod";
+import { Alert, AlertRuleType, AlertStore, deliverAlert } from "./alerts.js";
+import { mapWithConcurrency } from "./bulk.js";
+import type { CreatorDBClient } from "./client.js";
+import { CreatorAccount, accountKey, parseCreatorAccounts } from "./identity.js";
+import {
+  SNAPSHOT_METRICS,
+  WatchlistSnapshot,
+  WatchlistStore,
+  diffSnapshots,
+  snapshotCreators,
+  snapshotMetric,
+} from "./watchlist.js";
+
+// =============================================================================
+// Monitoring - scheduled watchlist snapshots checked against alert rules
+// =============================================================================
+
+const DAY_MS = 86_400_000;
+// setTimeout overflows past ~24.8 days; longer waits are re-armed in steps
+const MAX_TIMER_MS = 2 ** 31 - 1;
+const DEFAULT_COOLDOWN_HOURS = 24;
+// Snapshot requests per creator: profile, performance and sponsorship
+const REQUESTS_PER_CREATOR = 3;
+const SNAPSHOT_FAMILIES = new Set(["profile", "performance", "sponsorship"]);
+// Alerts delivered to the webhooks at once after a run's snapshots are checked
+const DELIVERY_CONCURRENCY = 4;
+
+const ruleBase = {
+  id: z.string().min(1),
+  description: z.string().optional(),
+  /** Creators the rule applies to ("platform:id" or objects); every watched creator when omitted */
+  creators: z.array(z.unknown()).optional(),
+  /** Minimum time between alerts for the same rule and creator */
+  cooldownHours: z.number().nonnegative().optional(),
+};
+
+const ruleSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...ruleBase,
+    type: z.literal("threshold"),
+    metric: z.enum(SNAPSHOT_METRICS),
+    below: z.number().optional(),
+    above: z.number().optional(),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal("change"),
+    metric: z.enum(SNAPSHOT_METRICS),
+    /** Relative change that triggers the rule, e.g. 0.2 for +20% */
+    minChange: z.number().optional(),
+    /** Relative change at or below which the rule triggers, e.g. -0.1 for a 10% drop */
+    maxChange: z.number().optional(),
+    windowDays: z.number().positive().default(7),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal("new_sponsor"),
+    /** Brands to alert on, matched case-insensitively; any new sponsor when omitted */
+    brands: z.array(z.string().min(1)).optional(),
+  }),
+]);
+
+export const monitorConfigSchema = z
+  .object({
+    /** Cron expression in UTC ("0 6 * * 1") or an interval ("30m", "6h", "1d") */
+    schedule: z.string().default("1d"),
+    /** Creators snapshotted per run; the least recently snapshotted go first */
+    maxCreatorsPerRun: z.number().int().positive().default(50),
+    /** Share of each request budget limit left untouched for interactive use */
+    budgetReserve: z.number().min(0).max(1).default(0.2),
+    webhooks: z
+      .array(
+        z.object({
+          url: z.url(),
+          secret: z.string().optional(),
+          headers: z.record(z.string(), z.string()).optional(),
+        })
+      )
+      .default([]),
+    rules: z.array(ruleSchema).default([]),
+  })
+  .superRefine((config, ctx) => {
+    const ids = new Set<string>();
+    config.rules.forEach((rule, index) => {
+      if (ids.has(rule.id)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["rules", index, "id"],
+          message: "duplicate rule id",
+        });
+      }
+      ids.add(rule.id);
+      if (rule.type === "threshold" && rule.below === undefined && rule.above === undefined) {
+        ctx.addIssue({ code: "custom", path: ["rules", index], message: "needs below or above" });
+      }
+      if (rule.type === "change" && rule.minChange === undefined && rule.maxChange === undefined) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["rules", index],
+          message: "needs minChange or maxChange",
+        });
+      }
+    });
+  });
+
+export type MonitorConfig = z.infer<typeof monitorConfigSchema>;
+export type AlertRule = MonitorConfig["rules"][number];
+
+export interface RuleHit {
+  message: string;
+  details: Record<string, unknown>;
+}
+
+export interface MonitorRun {
+  startedAt: string;
+  finishedAt: string;
+  watched: number;
+  snapshotted: number;
+  failed: number;
+  /** Watched creators left for a later run by maxCreatorsPerRun or the budget */
+  deferred: number;
+  /** True when the request budget, not maxCreatorsPerRun, capped the run */
+  budgetLimited: boolean;
+  alerts: Alert[];
+}
+
+export interface MonitorStatus {
+  enabled: boolean;
+  schedule: string | null;
+  running: boolean;
+  nextRunAt: string | null;
+  lastRun: MonitorRun | null;
+  lastError: string | null;
+  rules: Array<{ id: string; type: AlertRuleType; description: string | null }>;
+  webhooks: string[];
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Loads monitoring config from CREATORDB_MONITOR, which holds either JSON or
+ * the path to a JSON file. Returns undefined when monitoring isn't configured.
+ */
+export function loadMonitorConfig(env: NodeJS.ProcessEnv = process.env): MonitorConfig | undefined {
+  const source = env.CREATORDB_MONITOR?.trim();
+  if (!source) return undefined;
+
+  let json = source;
+  if (!source.startsWith("{")) {
+    if (!existsSync(source)) throw new Error(`Monitor config file not found: ${source}`);
+    json = readFileSync(source, "utf8");
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("CREATORDB_MONITOR must be a JSON object or the path to a JSON file");
+  }
+  const result = monitorConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    );
+    throw new Error(`Invalid monitor config: ${issues.join("; ")}`);
+  }
+
+  const config = result.data;
+  parseSchedule(config.schedule);
+  for (const rule of config.rules) {
+    try {
+      if (rule.creators) parseCreatorAccounts(rule.creators, 1, Infinity);
+    } catch (error) {
+      throw new Error(`Invalid monitor config: rule ${rule.id}: ${(error as Error).message}`);
+    }
+  }
+  return config;
+}
+
+// =============================================================================
+// Schedules
+// =============================================================================
+
+export interface Schedule {
+  expression: string;
+  /** The first run time strictly after `after` */
+  next(after: Date): Date;
+}
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+// Expands one cron field ("*", "5", "1-5", "*/15", "0-30/10", "1,15") to its values
+function parseCronField(field: string, { name, min, max }: (typeof CRON_FIELDS)[number]) {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid cron ${name}: ${part}`);
+    const step = match[4] ? Number(match[4]) : 1;
+    let start = min;
+    let end = max;
+    if (match[2] !== undefined) {
+      start = Number(match[2]);
+      end = match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    }
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron ${name}: ${part}`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+/**
+ * Parses a 5-field cron expression (minute, hour, day of month, month, day
+ * of week; evaluated in UTC) or an interval such as "30m", "6h" or "1d".
+ */
+export function parseSchedule(expression: string): Schedule {
+  const interval = /^(\d+)\s*([mhd])$/i.exec(expression.trim());
+  if (interval) {
+    const unit = { m: 60_000, h: 3_600_000, d: DAY_MS }[
+      interval[2].toLowerCase() as "m" | "h" | "d"
+    ];
+    const ms = Number(interval[1]) * unit;
+    if (ms <= 0) throw new Error(`Invalid schedule interval: ${expression}`);
+    return { expression, next: (after) => new Date(after.getTime() + ms) };
+  }
+
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid schedule: ${expression}. Use a 5-field cron expression or an interval like "6h"`
+    );
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index])
+  );
+  if (weekdays.has(7)) weekdays.add(0);
+  // Standard cron: when both day fields are restricted, either one may match
+  const anyDay = fields[2] === "*";
+  const anyWeekday = fields[4] === "*";
+  const dayMatches = (time: Date) => {
+    const day = days.has(time.getUTCDate());
+    const weekday = weekdays.has(time.getUTCDay());
+    return anyDay || anyWeekday ? day && weekday : day || weekday;
+  };
+
+  // Steps a month, day or hour at a time past fields that can't match
+  const next = (after: Date) => {
+    const time = new Date(Math.floor(after.getTime() / 60_000) * 60_000 + 60_000);
+    const limit = time.getTime() + 5 * 366 * DAY_MS;
+    while (time.getTime() < limit) {
+      if (!months.has(time.getUTCMonth() + 1)) {
+        time.setUTCMonth(time.getUTCMonth() + 1, 1);
+        time.setUTCHours(0, 0);
+      } else if (!dayMatches(time)) {
+        time.setUTCDate(time.getUTCDate() + 1);
+        time.setUTCHours(0, 0);
+      } else if (!hours.has(time.getUTCHours())) {
+        time.setUTCHours(time.getUTCHours() + 1, 0);
+      } else if (!minutes.has(time.getUTCMinutes())) {
+        time.setTime(time.getTime() + 60_000);
+      } else {
+        return time;
+      }
+    }
+    throw new Error(`Schedule never runs: ${expression}`);
+  };
+  next(new Date());
+  return { expression, next };
+}
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+function formatValue(value: number): string {
+  return Math.abs(value) < 1 ? String(Number(value.toFixed(4))) : value.toLocaleString("en-US");
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? "+" : ""}${Math.round(value * 1000) / 10}%`;
+}
+
+/**
+ * Checks one rule against a creator's snapshots (oldest first) and returns
+ * the alert message and details when the latest snapshot triggers it.
+ */
+export function evaluateRule(rule: AlertRule, snapshots: WatchlistSnapshot[]): RuleHit | null {
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest) return null;
+
+  switch (rule.type) {
+    case "threshold": {
+      const value = snapshotMetric(latest, rule.metric);
+      if (value === null) return null;
+      if (rule.below !== undefined && value < rule.below) {
+        return {
+          message: `${rule.metric} ${formatValue(value)} is below ${formatValue(rule.below)}`,
+          details: { metric: rule.metric, value, below: rule.below },
+        };
+      }
+      if (rule.above !== undefined && value > rule.above) {
+        return {
+          message: `${rule.metric} ${formatValue(value)} is above ${formatValue(rule.above)}`,
+          details: { metric: rule.metric, value, above: rule.above },
+        };
+      }
+      return null;
+    }
+
+    case "change": {
+      const value = snapshotMetric(latest, rule.metric);
+      const windowStart = Date.parse(latest.takenAt) - rule.windowDays * DAY_MS;
+      // The oldest snapshot inside the window is the baseline
+      const baseline = snapshots.find(
+        (snapshot) =>
+          snapshot !== latest &&
+          Date.parse(snapshot.takenAt) >= windowStart &&
+          snapshotMetric(snapshot, rule.metric)
+      );
+      const base = baseline ? snapshotMetric(baseline, rule.metric) : null;
+      if (value === null || !baseline || !base) return null;
+      const change = (value - base) / base;
+      const triggered =
+        (rule.minChange !== undefined && change >= rule.minChange) ||
+        (rule.maxChange !== undefined && change <= rule.maxChange);
+      if (!triggered) return null;
+      const days =
+        Math.round(((Date.parse(latest.takenAt) - Date.parse(baseline.takenAt)) / DAY_MS) * 10) /
+        10;
+      return {
+        message:
+          `${rule.metric} ${formatPercent(change)} in ${days} days ` +
+          `(${formatValue(base)} → ${formatValue(value)})`,
+        details: {
+          metric: rule.metric,
+          from: base,
+          to: value,
+          relativeChange: Math.round(change * 10_000) / 10_000,
+          baselineSnapshotId: baseline.snapshotId,
+          days,
+        },
+      };
+    }
+
+    case "new_sponsor": {
+      const previous = snapshots[snapshots.length - 2];
+      if (!previous) return null;
+      const { sponsorships } = diffSnapshots(previous, latest);
+      const wanted = rule.brands?.map((brand) => brand.toLowerCase());
+      const matches = (brandName: string) =>
+        !wanted || wanted.some((brand) => brandName.toLowerCase().includes(brand));
+      const newBrands = sponsorships.newBrands.filter((sponsor) => matches(sponsor.brandName));
+      const renewed = sponsorships.renewed.filter((sponsor) => matches(sponsor.brandName));
+      if (newBrands.length === 0 && renewed.length === 0) return null;
+      const names = [...newBrands, ...renewed].map((sponsor) => sponsor.brandName);
+      return {
+        message: `New sponsorship: ${names.join(", ")}`,
+        details: { newBrands, renewed, previousSnapshotId: previous.snapshotId },
+      };
+    }
+  }
+}
+
+function appliesTo(rule: AlertRule, account: CreatorAccount): boolean {
+  if (!rule.creators) return true;
+  const key = accountKey(account);
+  return parseCreatorAccounts(rule.creators, 1, Infinity).some(
+    (creator) => accountKey(creator) === key
+  );
+}
+
+// How many creators the request budget allows, keeping `reserve` of each limit
+function budgetAllowance(client: CreatorDBClient, reserve: number): number {
+  let allowed = Infinity;
+  for (const limit of client.budget?.status().limits ?? []) {
+    const available = limit.remaining - reserve * limit.limit;
+    if (limit.scope === "*") {
+      allowed = Math.min(allowed, Math.floor(available / REQUESTS_PER_CREATOR));
+    } else if (SNAPSHOT_FAMILIES.has(limit.scope)) {
+      allowed = Math.min(allowed, Math.floor(available));
+    }
+  }
+  return Math.max(0, allowed);
+}
+
+// =============================================================================
+// Scheduler
+// =============================================================================
+
+/**
+ * Snapshots watched creators on a schedule, checks every rule against the
+ * new snapshots and POSTs each alert to the configured webhooks. Runs never
+ * overlap: asking for a run while one is in progress returns that run.
+ */
+export class Monitor {
+  private readonly schedule: Schedule;
+  private timer: NodeJS.Timeout | undefined;
+  private nextRunAt: Date | undefined;
+  private current: Promise<MonitorRun> | undefined;
+  private lastRun: MonitorRun | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly client: CreatorDBClient,
+    private readonly watchlist: WatchlistStore,
+    private readonly alerts: AlertStore,
+    private readonly config: MonitorConfig
+  ) {
+    this.schedule = parseSchedule(config.schedule);
+  }
+
+  start() {
+    this.scheduleNext();
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.nextRunAt = undefined;
+  }
+
+  run(): Promise<MonitorRun> {
+    this.current ??= this.execute()
+      .then((run) => {
+        this.lastRun = run;
+        this.lastError = null;
+        return run;
+      })
+      .catch((error) => {
+        this.lastError = error instanceof Error ? error.message : String(error);
+        throw error;
+      })
+      .finally(() => {
+        this.current = undefined;
+      });
+    return this.current;
+  }
+
+  status(): MonitorStatus {
+    return {
+      enabled: true,
+      schedule: this.schedule.expression,
+      running: this.current !== undefined,
+      nextRunAt: this.nextRunAt?.toISOString() ?? null,
+      lastRun: this.lastRun,
+      lastError: this.lastError,
+      rules: this.config.rules.map((rule) => ({
+        id: rule.id,
+        type: rule.type,
+        description: rule.description ?? null,
+      })),
+      webhooks: this.config.webhooks.map((webhook) => webhook.url),
+    };
+  }
+
+  // Skips run times missed while a long run was in progress
+  private scheduleNext() {
+    const now = new Date();
+    let next = this.schedule.next(this.nextRunAt ?? now);
+    while (next <= now) next = this.schedule.next(next);
+    this.nextRunAt = next;
+    this.arm();
+  }
+
+  private arm() {
+    const delay = Math.min(MAX_TIMER_MS, (this.nextRunAt?.getTime() ?? 0) - Date.now());
+    this.timer = setTimeout(
+      () => {
+        if (this.nextRunAt && Date.now() < this.nextRunAt.getTime()) return this.arm();
+        this.run()
+          .catch(() => undefined)
+          .finally(() => {
+            if (this.timer) this.scheduleNext();
+          });
+      },
+      Math.max(0, delay)
+    );
+    this.timer.unref();
+  }
+
+  private async execute(): Promise<MonitorRun> {
+    const startedAt = new Date().toISOString();
+    const watched = (await this.watchlist.list()).sort((a, b) =>
+      (a.lastSnapshotAt ?? "").localeCompare(b.lastSnapshotAt ?? "")
+    );
+    const allowance = budgetAllowance(this.client, this.config.budgetReserve);
+    const limit = Math.min(this.config.maxCreatorsPerRun, allowance);
+    const selected = watched.slice(0, limit);
+    const results = await snapshotCreators(this.client, this.watchlist, selected);
+
+    const pending: Array<Omit<Alert, "alertId" | "deliveries">> = [];
+    for (const result of results) {
+      if (result.snapshotId === null) continue;
+      const snapshots = await this.watchlist.listSnapshots(result);
+      for (const rule of this.config.rules) {
+        if (!appliesTo(rule, result)) continue;
+        const hit = evaluateRule(rule, snapshots);
+        if (!hit || (await this.coolingDown(rule, result))) continue;
+
+        pending.push({
+          ruleId: rule.id,
+          type: rule.type,
+          platform: result.platform,
+          id: result.id,
+          message: `${accountKey(result)}: ${hit.message}`,
+          triggeredAt: new Date().toISOString(),
+          snapshotId: result.snapshotId,
+          details: hit.details,
+        });
+      }
+    }
+
+    // A slow webhook holds up at most its own slot, not the rule checks
+    const alerts = await mapWithConcurrency(pending, DELIVERY_CONCURRENCY, async (alert) => {
+      const deliveries = await deliverAlert(this.config.webhooks, alert);
+      return this.alerts.saveAlert({ ...alert, deliveries });
+    });
+
+    const snapshotted = results.filter((result) => result.snapshotId !== null).length;
+    return {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      watched: watched.length,
+      snapshotted,
+      failed: results.length - snapshotted,
+      deferred: watched.length - selected.length,
+      budgetLimited: allowance < this.config.maxCreatorsPerRun && allowance < watched.length,
+      alerts,
+    };
+  }
+
+  private async coolingDown(rule: AlertRule, account: CreatorAccount): Promise<boolean> {
+    const hours = rule.cooldownHours ?? (rule.type === "new_sponsor" ? 0 : DEFAULT_COOLDOWN_HOURS);
+    if (hours === 0) return false;
+    const since = new Date(Date.now() - hours * 3_600_000).toISOString();
+    const recent = await this.alerts.listAlerts({
+      ruleId: rule.id,
+      platform: account.platform,
+      id: account.id,
+      since,
+      limit: 1,
+    });
+    return recent.length > 0;
+  }
+}
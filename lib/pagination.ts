@@ -0,0 +1,203 @@
+import {
+  ApiError,
+  ApiResponse,
+  CallOptions,
+  CreatorDBClient,
+  NaturalLanguageSearchRequest,
+  Platform,
+  SearchRequest,
+} from "./client.js";
+import { validateSearchFilters } from "./filters.js";
+
+// =============================================================================
+// Search Helpers - pre-flight filter validation and server-side auto-pagination
+// =============================================================================
+
+export const MAX_PAGE_SIZE = 100;
+export const DEFAULT_MAX_RESULTS = 100;
+export const MAX_AUTO_PAGINATE_RESULTS = 1000;
+
+export interface PaginationOptions {
+  /** Fetch pages until maxResults creators are collected or results run out */
+  autoPaginate?: boolean;
+  /** Creators to collect in auto-paginate mode (default 100, max 1000) */
+  maxResults?: number;
+}
+
+export interface SearchOptions extends CallOptions, PaginationOptions {
+  /** Called with each page's new creators as it arrives, e.g. to stream NDJSON */
+  onPage?: (creators: Array<Record<string, unknown>>) => void;
+}
+
+export interface PaginationMeta {
+  pagesFetched: number;
+  /** Pages that were billed upstream; cache hits are free */
+  quotaConsumed: number;
+  returned: number;
+  duplicatesRemoved: number;
+  /** True when the last page reached the end of the results */
+  exhausted: boolean;
+  /** Offset to continue from, or null when exhausted */
+  nextOffset: number | null;
+}
+
+export interface SearchResults {
+  total?: number | null;
+  creators: Array<Record<string, unknown>>;
+  [key: string]: unknown;
+}
+
+export interface PaginatedSearchResponse extends ApiResponse<SearchResults> {
+  pagination: PaginationMeta;
+}
+
+export type SearchResponse = ApiResponse<SearchResults> | PaginatedSearchResponse;
+
+/**
+ * Reads `autoPaginate` and `maxResults` from tool arguments, a JSON body or
+ * a query string.
+ */
+export function paginationOptions(input: Record<string, unknown>): PaginationOptions {
+  const autoPaginate = input.autoPaginate === true || input.autoPaginate === "true";
+  if (!autoPaginate) return {};
+
+  const maxResults = input.maxResults === undefined ? DEFAULT_MAX_RESULTS : Number(input.maxResults);
+  if (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > MAX_AUTO_PAGINATE_RESULTS) {
+    throw new ApiError(
+      `maxResults must be an integer between 1 and ${MAX_AUTO_PAGINATE_RESULTS}`,
+      400
+    );
+  }
+  return { autoPaginate, maxResults };
+}
+
+export function creatorId(platform: Platform, creator: Record<string, unknown>): string {
+  return String(platform === "youtube" ? creator.channelId : creator.uniqueId);
+}
+
+/**
+ * Fetches consecutive pages starting at `offset` and merges them, dropping
+ * creators already seen. Stops at maxResults, at the end of the results, or
+ * when a page adds nothing new (so a misbehaving upstream can't loop forever).
+ */
+async function paginate(
+  platform: Platform,
+  offset: number,
+  maxResults: number,
+  fetchPage: (offset: number, pageSize: number) => Promise<ApiResponse<SearchResults>>,
+  onPage?: SearchOptions["onPage"]
+): Promise<PaginatedSearchResponse> {
+  const creators = new Map<string, Record<string, unknown>>();
+  const warnings = new Set<string>();
+  const meta: PaginationMeta = {
+    pagesFetched: 0,
+    quotaConsumed: 0,
+    returned: 0,
+    duplicatesRemoved: 0,
+    exhausted: false,
+    nextOffset: offset,
+  };
+  let last: ApiResponse<SearchResults> | undefined;
+
+  while (creators.size < maxResults) {
+    const pageSize = Math.min(MAX_PAGE_SIZE, maxResults - creators.size);
+    const page = await fetchPage(offset, pageSize);
+    last = page;
+    meta.pagesFetched++;
+    if (page.cache?.status !== "hit") meta.quotaConsumed++;
+    page.warnings?.forEach((warning) => warnings.add(warning));
+
+    const before = creators.size;
+    const added: Array<Record<string, unknown>> = [];
+    for (const creator of page.data.creators) {
+      const id = creatorId(platform, creator);
+      if (creators.has(id)) {
+        meta.duplicatesRemoved++;
+      } else if (creators.size < maxResults) {
+        creators.set(id, creator);
+        added.push(creator);
+      }
+    }
+    onPage?.(added);
+
+    offset += page.data.creators.length;
+    const total = page.data.total;
+    if (
+      page.data.creators.length < pageSize ||
+      (typeof total === "number" && offset >= total) ||
+      creators.size === before
+    ) {
+      meta.exhausted = true;
+      break;
+    }
+  }
+
+  meta.returned = creators.size;
+  meta.nextOffset = meta.exhausted ? null : offset;
+
+  const response: PaginatedSearchResponse = {
+    success: true,
+    data: { total: last?.data.total, creators: [...creators.values()] },
+    traceId: last?.traceId,
+    timestamp: last?.timestamp,
+    pagination: meta,
+  };
+  if (warnings.size > 0) response.warnings = [...warnings];
+  return response;
+}
+
+/**
+ * Structured search for one platform, auto-paginating when requested. Filters
+ * are checked against the platform's catalog first, so a bad value fails fast
+ * with suggestions instead of spending a request, as does a misspelled filter
+ * name. Unknown names with no close match are passed through and reported in
+ * `warnings`.
+ */
+export async function searchCreators(
+  client: CreatorDBClient,
+  platform: Platform,
+  request: SearchRequest,
+  { autoPaginate, maxResults, onPage, ...options }: SearchOptions = {}
+): Promise<SearchResponse> {
+  const filterWarnings = validateSearchFilters(platform, request.filters);
+  let response: SearchResponse;
+  if (!autoPaginate) {
+    response = await client[platform].search(request, options);
+    onPage?.(response.data.creators);
+  } else {
+    response = await paginate(
+      platform,
+      request.offset,
+      maxResults ?? DEFAULT_MAX_RESULTS,
+      (offset, pageSize) => client[platform].search({ ...request, offset, pageSize }, options),
+      onPage
+    );
+  }
+  if (filterWarnings.length === 0) return response;
+  return { ...response, warnings: [...filterWarnings, ...(response.warnings ?? [])] };
+}
+
+/**
+ * Natural language search for one platform, auto-paginating when requested.
+ */
+export async function naturalLanguageSearchCreators(
+  client: CreatorDBClient,
+  platform: Platform,
+  request: NaturalLanguageSearchRequest,
+  { autoPaginate, maxResults, onPage, ...options }: SearchOptions = {}
+): Promise<SearchResponse> {
+  if (!autoPaginate) {
+    const response = await client[platform].naturalLanguageSearch(request, options);
+    onPage?.(response.data.creators);
+    return response;
+  }
+
+  return paginate(
+    platform,
+    request.offset,
+    maxResults ?? DEFAULT_MAX_RESULTS,
+    (offset, pageSize) =>
+      client[platform].naturalLanguageSearch({ ...request, offset, pageSize }, options),
+    onPage
+  );
+}
@@ -0,0 +1,241 @@
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { Platform, isPlatform } from "./client.js";
+
+// =============================================================================
+// MCP Prompts - reusable influencer-marketing workflows
+// =============================================================================
+
+export const prompts: Prompt[] = [
+  {
+    name: "vet_creator",
+    title: "Vet a creator",
+    description:
+      "Due-diligence report on a single creator: reach, engagement, growth, audience, brand history and contact details.",
+    arguments: [
+      {
+        name: "uniqueId",
+        description: "Instagram/TikTok account ID or YouTube channel ID (UC...).",
+        required: true,
+      },
+      {
+        name: "platform",
+        description: "instagram, youtube or tiktok.",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "find_creators_for_campaign",
+    title: "Find creators for a campaign",
+    description:
+      "Builds a ranked shortlist of creators matching a campaign's niche, country, follower range and budget.",
+    arguments: [
+      { name: "platform", description: "instagram, youtube or tiktok.", required: true },
+      { name: "niche", description: "Campaign niche or topic, e.g. 'fashion'.", required: true },
+      {
+        name: "country",
+        description: "Target country as ISO 3166-1 alpha-3, e.g. 'USA'.",
+        required: false,
+      },
+      {
+        name: "minFollowers",
+        description: "Minimum followers/subscribers, e.g. 10000.",
+        required: false,
+      },
+      {
+        name: "maxFollowers",
+        description: "Maximum followers/subscribers, e.g. 500000.",
+        required: false,
+      },
+      {
+        name: "budget",
+        description: "Total campaign budget including currency, e.g. '5000 USD'.",
+        required: false,
+      },
+    ],
+  },
+  {
+    name: "compare_creators",
+    title: "Compare these creators",
+    description: "Side-by-side comparison of several creators on one platform.",
+    arguments: [
+      { name: "platform", description: "instagram, youtube or tiktok.", required: true },
+      {
+        name: "creators",
+        description: "Comma-separated account IDs or YouTube channel IDs (2-10).",
+        required: true,
+      },
+    ],
+  },
+];
+
+// =============================================================================
+// Argument Helpers
+// =============================================================================
+
+function requireArgument(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+function requirePlatform(args: Record<string, string>): Platform {
+  const platform = requireArgument(args, "platform").toLowerCase();
+  if (!isPlatform(platform)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid platform "${args.platform}" (expected instagram, youtube or tiktok)`
+    );
+  }
+  return platform;
+}
+
+function idParam(platform: Platform): string {
+  return platform === "youtube" ? "channelId" : "uniqueId";
+}
+
+function followerField(platform: Platform): string {
+  return platform === "youtube" ? "totalSubscribers" : "totalFollowers";
+}
+
+function userMessage(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+// =============================================================================
+// Prompt Builders
+// =============================================================================
+
+function vetCreator(args: Record<string, string>): GetPromptResult {
+  const platform = requirePlatform(args);
+  const id = requireArgument(args, "uniqueId");
+
+  const sponsorshipNote =
+    platform === "tiktok"
+      ? "TikTok has no sponsorship section: infer brand deals from the profile's `hasSponsors` flag and note the gap."
+      : "Use the sponsorship section for past brand partners.";
+
+  return userMessage(
+    `Vet ${platform} creator ${id}`,
+    [
+      `Vet the ${platform} creator "${id}" for a brand partnership.`,
+      "",
+      `Call \`get_creator_report\` (platform: "${platform}", id: "${id}") to fetch the profile, performance, performance history, audience, sponsorship and contact in one call.`,
+      sponsorshipNote,
+      "",
+      "Sections listed under the report's `errors` go under Data Gaps.",
+      "",
+      "Lay out the answer with these headings:",
+      "1. **Summary** - one paragraph with a Go / Caution / No-go verdict.",
+      "2. **Reach & Engagement** - a table of followers, average views, likes, comments, engagement rate and posting frequency.",
+      "3. **Growth** - follower and engagement trend over the history window, flagging sudden jumps or drops that may indicate bought followers.",
+      "4. **Audience** - top 5 countries, gender split and dominant age ranges.",
+      "5. **Brand History** - sponsors, sponsored-content ratio and any competing brands.",
+      "6. **Contact** - emails and links.",
+      "7. **Risks & Data Gaps** - bullet list.",
+      "",
+      "Quote numbers exactly as returned and give percentages to one decimal place.",
+    ].join("\n")
+  );
+}
+
+function findCreatorsForCampaign(args: Record<string, string>): GetPromptResult {
+  const platform = requirePlatform(args);
+  const niche = requireArgument(args, "niche");
+  const field = followerField(platform);
+  const taxonomyTool =
+    platform === "youtube"
+      ? "`youtube_get_niches` or `youtube_get_topics`"
+      : `\`${platform}_get_niches\``;
+
+  const filters = [`   - \`niches\` (op "in") with the matching niche values`];
+  if (args.country) filters.push(`   - \`country\` (op "=") "${args.country}"`);
+  if (args.minFollowers) filters.push(`   - \`${field}\` (op ">") ${args.minFollowers}`);
+  if (args.maxFollowers) filters.push(`   - \`${field}\` (op "<") ${args.maxFollowers}`);
+
+  const budgetStep = args.budget
+    ? [
+        "",
+        `The total budget is ${args.budget}. Estimate a rate per creator with ` +
+          "`estimate_creator_rate`, then recommend a mix of creators whose combined cost " +
+          "fits the budget.",
+      ]
+    : [];
+
+  return userMessage(
+    `Find ${platform} creators for a ${niche} campaign`,
+    [
+      `Find ${platform} creators for a "${niche}" campaign.`,
+      "",
+      `1. Call ${taxonomyTool} and pick the niche values that best match "${niche}".`,
+      `2. Call \`${platform}_search\` with pageSize 50, sorted by \`avgEngagementRate\` descending, and these filters:`,
+      ...filters,
+      "   If it returns fewer than 10 creators, relax the narrowest filter once and say which one you relaxed.",
+      `3. For the top 10 results, call \`${platform}_get_audience\` to confirm the audience is concentrated in the target country.`,
+      ...budgetStep,
+      "",
+      "Lay out the answer as:",
+      "1. **Search Criteria** - the exact filters used.",
+      `2. **Shortlist** - a table with rank, name, ${idParam(platform)}, ${field}, engagement rate, top audience country share` +
+        (args.budget ? ", estimated rate" : "") +
+        " and a one-line rationale.",
+      "3. **Recommendation** - the 3 creators you would contact first and why.",
+      "4. **Next Steps** - suggest running the `vet_creator` prompt on each recommended creator.",
+    ].join("\n")
+  );
+}
+
+function compareCreators(args: Record<string, string>): GetPromptResult {
+  const platform = requirePlatform(args);
+  const ids = requireArgument(args, "creators")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  if (ids.length < 2 || ids.length > 10) {
+    throw new McpError(ErrorCode.InvalidParams, "creators must list between 2 and 10 IDs");
+  }
+
+  return userMessage(
+    `Compare ${ids.length} ${platform} creators`,
+    [
+      `Compare these ${platform} creators: ${ids.map((id) => `"${id}"`).join(", ")}.`,
+      "",
+      `Call \`compare_creators\` with creators [${ids.map((id) => `{ platform: "${platform}", id: "${id}" }`).join(", ")}].`,
+      "It returns each metric's leader and relative deltas. If a creator has an error or null values, mark those cells as 'n/a' rather than dropping the creator.",
+      "",
+      "Lay out the answer as:",
+      `1. **Comparison Table** - one row per creator with ${followerField(platform)}, engagement rate, average views, posts per week, follower growth, top audience country share and sponsored content ratio.`,
+      "2. **Leaders** - which creator leads each metric and by how much.",
+      "3. **Audience Overlap** - where the creators' audience countries, genders and ages agree or differ.",
+      "4. **Verdict** - which creator fits best for reach, for engagement and for value.",
+    ].join("\n")
+  );
+}
+
+const builders: Record<string, (args: Record<string, string>) => GetPromptResult> = {
+  vet_creator: vetCreator,
+  find_creators_for_campaign: findCreatorsForCampaign,
+  compare_creators: compareCreators,
+};
+
+/**
+ * Renders a prompt template with the given arguments.
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const build = builders[name];
+  if (!build) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  return build(args);
+}
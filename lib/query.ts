@@ -0,0 +1,398 @@
+import { ApiError, Platform, SearchFilter } from "./client.js";
+import {
+  COUNTRY_ALPHA3,
+  FilterDefinition,
+  FilterOp,
+  findFilter,
+  resolveFilterName,
+  suggestFilterName,
+} from "./filters.js";
+
+// =============================================================================
+// Search Query DSL - compact text queries compiled to SearchFilter arrays
+// =============================================================================
+//
+//   followers>100k country in (US,CA) niche:fashion er>3% verified sort:-totalFollowers
+//
+// Clauses are separated by whitespace:
+//   field>value, field<value      numeric comparisons (100k, 1.2M, 3%)
+//   field:value, field=value      equality; list fields like niches become "in"
+//   field:a,b                     any of the listed values (non-numeric fields)
+//   field~value                   fuzzy match (displayName)
+//   field in (a, b)               any of the listed values
+//   verified, !verified           boolean fields on their own
+//   sort:field, sort:-field       sort ascending / descending
+// Values containing spaces can be quoted: name~"Jane Doe".
+
+export interface ParsedSearchQuery {
+  filters: SearchFilter[];
+  sortBy?: string;
+  desc?: boolean;
+}
+
+export class QueryParseError extends ApiError {
+  constructor(query: string, position: number, token: string, reason: string) {
+    super(`Invalid query at position ${position + 1} ("${token}"): ${reason}`, 400);
+    this.code = "invalid_query";
+    this.details = {
+      query,
+      position,
+      token,
+      pointer: `${query}\n${" ".repeat(position)}${"^".repeat(Math.max(1, token.length))}`,
+    };
+  }
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+const NUMBER = /^(-?\d+(?:\.\d+)?)([kmb])?(%)?$/i;
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+/**
+ * Parses human-friendly numbers: "100k", "1.2M", "2,500", "3%" (= 0.03).
+ */
+export function parseHumanNumber(raw: string): number | undefined {
+  const match = NUMBER.exec(raw.replace(/,/g, ""));
+  if (!match) return undefined;
+  const [, digits, suffix, percent] = match;
+  let value = Number(digits) * (suffix ? MULTIPLIERS[suffix.toLowerCase()] : 1);
+  if (percent) value /= 100;
+  // Drop float noise from the multiplication, e.g. 1.2 * 1e6
+  return Number(value.toPrecision(12));
+}
+
+const BOOLEANS: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  "1": true,
+  false: false,
+  no: false,
+  "0": false,
+};
+
+function convertScalar(
+  definition: FilterDefinition,
+  raw: string
+): string | number | boolean | undefined {
+  switch (definition.valueType) {
+    case "number":
+      return parseHumanNumber(raw);
+    case "boolean":
+      return BOOLEANS[raw.toLowerCase()];
+    default:
+      if (definition.filterName === "country") {
+        const upper = raw.toUpperCase();
+        return COUNTRY_ALPHA3[upper] ?? upper;
+      }
+      if (definition.filterName === "mainLanguage") return raw.toLowerCase();
+      return raw;
+  }
+}
+
+function expectedValue(definition: FilterDefinition): string {
+  switch (definition.valueType) {
+    case "number":
+      return "a number like 100k, 1.2M or 3%";
+    case "boolean":
+      return "true or false";
+    default:
+      return "a value";
+  }
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+interface Token {
+  text: string;
+  start: number;
+}
+
+class QueryParser {
+  private position = 0;
+  private readonly filters: SearchFilter[] = [];
+  private sortBy?: string;
+  private desc?: boolean;
+
+  constructor(
+    private readonly platform: Platform,
+    private readonly query: string
+  ) {}
+
+  parse(): ParsedSearchQuery {
+    this.skipSpaces();
+    while (this.position < this.query.length) {
+      this.parseClause();
+      this.skipSpaces();
+    }
+
+    const result: ParsedSearchQuery = { filters: this.filters };
+    if (this.sortBy) {
+      result.sortBy = this.sortBy;
+      result.desc = this.desc;
+    }
+    return result;
+  }
+
+  private fail(token: Token, reason: string): never {
+    throw new QueryParseError(this.query, token.start, token.text, reason);
+  }
+
+  private skipSpaces() {
+    while (/\s/.test(this.query[this.position] ?? "")) this.position++;
+  }
+
+  private readWhile(pattern: RegExp): Token {
+    const start = this.position;
+    while (this.position < this.query.length && pattern.test(this.query[this.position])) {
+      this.position++;
+    }
+    return { text: this.query.slice(start, this.position), start };
+  }
+
+  // Reads a quoted string or a bare word. Inside a list "," ends the word;
+  // elsewhere it's kept so "1,500" reads as a number.
+  private readValue(inList = false): Token {
+    const start = this.position;
+    const quote = this.query[start];
+    if (quote === '"' || quote === "'") {
+      const end = this.query.indexOf(quote, start + 1);
+      if (end === -1) {
+        this.fail({ text: this.query.slice(start), start }, "unterminated quoted value");
+      }
+      this.position = end + 1;
+      return { text: this.query.slice(start + 1, end), start };
+    }
+    const token = this.readWhile(inList ? /[^\s,()]/ : /[^\s()]/);
+    if (!token.text) {
+      this.fail({ text: this.query[start] ?? "", start }, "expected a value");
+    }
+    return token;
+  }
+
+  private readList(): Token[] {
+    const open = this.position;
+    this.position++; // "("
+    const items: Token[] = [];
+    for (;;) {
+      this.skipSpaces();
+      if (this.position >= this.query.length) {
+        this.fail({ text: this.query.slice(open), start: open }, 'missing ")" to close the list');
+      }
+      items.push(this.readValue(true));
+      this.skipSpaces();
+      const next = this.query[this.position];
+      if (next === undefined) {
+        this.fail({ text: this.query.slice(open), start: open }, 'missing ")" to close the list');
+      }
+      this.position++;
+      if (next === ")") return items;
+      if (next !== ",") {
+        this.fail({ text: next, start: this.position - 1 }, 'expected "," or ")" in list');
+      }
+    }
+  }
+
+  // Splits a bare "US,CA" into list items for equality on non-numeric fields,
+  // keeping each item's position; quoted values and numbers like 1,500 stay whole
+  private splitValue(definition: FilterDefinition, operator: Token, value: Token): Token[] {
+    const quoted = this.query[value.start] === '"' || this.query[value.start] === "'";
+    if (
+      quoted ||
+      definition.valueType === "number" ||
+      ![":", "=", "in"].includes(operator.text) ||
+      !value.text.includes(",")
+    ) {
+      return [value];
+    }
+
+    const items: Token[] = [];
+    let start = value.start;
+    for (const text of value.text.split(",")) {
+      if (!text) this.fail(value, "empty item in the list");
+      items.push({ text, start });
+      start += text.length + 1;
+    }
+    return items;
+  }
+
+  private readOperator(): Token | undefined {
+    const start = this.position;
+    const two = this.query.slice(start, start + 2);
+    if (two === ">=" || two === "<=" || two === "!=") {
+      this.position += 2;
+      return { text: two, start };
+    }
+    const one = this.query[start];
+    if (one && ">:<=~".includes(one)) {
+      this.position++;
+      return { text: one, start };
+    }
+    if (/^in(?=[\s(])/i.test(this.query.slice(start))) {
+      this.position += 2;
+      return { text: "in", start };
+    }
+    return undefined;
+  }
+
+  private parseClause() {
+    const negated = this.query[this.position] === "!";
+    if (negated) this.position++;
+
+    const field = this.readWhile(/[A-Za-z0-9_.]/);
+    if (!field.text) {
+      const next = this.query[this.position];
+      this.fail(
+        { text: next ?? "", start: this.position },
+        next === undefined
+          ? 'expected a filter name after "!" but reached the end of query'
+          : "expected a filter name, e.g. followers>100k"
+      );
+    }
+
+    const afterField = this.position;
+    this.skipSpaces();
+    const operator = this.readOperator();
+    if (!operator) {
+      this.position = afterField;
+      this.addBoolean(field, !negated);
+      return;
+    }
+    if (negated) this.fail(field, '"!" only applies to boolean filters such as !verified');
+
+    this.skipSpaces();
+    if (field.text.toLowerCase() === "sort") {
+      this.parseSort(operator);
+      return;
+    }
+
+    const definition = this.definition(field);
+    const values =
+      this.query[this.position] === "("
+        ? this.readList()
+        : this.splitValue(definition, operator, this.readValue());
+    this.addFilter(definition, field, operator, values);
+  }
+
+  private definition(field: Token): FilterDefinition {
+    const name = resolveFilterName(this.platform, field.text);
+    const definition = name ? findFilter(this.platform, name) : undefined;
+    if (!definition) {
+      const suggestion = suggestFilterName(this.platform, field.text);
+      this.fail(
+        field,
+        `unknown ${this.platform} filter` + (suggestion ? `. Did you mean "${suggestion}"?` : "")
+      );
+    }
+    return definition;
+  }
+
+  // Sort fields aren't limited to the filter catalog; aliases still resolve
+  private parseSort(operator: Token) {
+    if (operator.text !== ":" && operator.text !== "=") {
+      this.fail(operator, "use sort:field or sort:-field");
+    }
+    const value = this.readValue();
+    const name = value.text.replace(/^[-+]/, "");
+    if (!name) this.fail(value, "expected a field to sort by");
+    this.sortBy = resolveFilterName(this.platform, name) ?? name;
+    this.desc = value.text.startsWith("-");
+  }
+
+  private addBoolean(field: Token, value: boolean) {
+    const definition = this.definition(field);
+    if (definition.valueType !== "boolean") {
+      const example = `${definition.filterName}${definition.ops.includes(">") ? ">" : ":"}...`;
+      this.fail(field, `expected an operator after ${definition.filterName}, e.g. ${example}`);
+    }
+    this.filters.push({ filterName: definition.filterName, op: "=", value });
+  }
+
+  private addFilter(definition: FilterDefinition, field: Token, operator: Token, values: Token[]) {
+    const name = definition.filterName;
+    let op: FilterOp;
+    let isFuzzySearch = false;
+
+    switch (operator.text) {
+      case ">":
+      case "<":
+        op = operator.text;
+        break;
+      case "~":
+        op = "=";
+        isFuzzySearch = true;
+        break;
+      case "in":
+        op = "in";
+        break;
+      case ":":
+      case "=":
+        op = definition.valueType === "string[]" || values.length > 1 ? "in" : "=";
+        break;
+      default:
+        this.fail(operator, `"${operator.text}" is not supported; use >, <, : or in`);
+    }
+
+    if (!definition.ops.includes(op)) {
+      this.fail(operator, `${name} does not support "${operator.text}" (use ${definition.ops.join(", ")})`);
+    }
+    if (isFuzzySearch && !definition.fuzzy) {
+      this.fail(operator, `${name} does not support fuzzy matching`);
+    }
+    if (op !== "in" && values.length > 1) {
+      this.fail(values[1], `${name} ${operator.text} takes a single value`);
+    }
+
+    const pattern = definition.pattern ? new RegExp(definition.pattern) : undefined;
+    const converted = values.map((token) => {
+      const value = convertScalar(definition, token.text);
+      if (value === undefined) this.fail(token, `expected ${expectedValue(definition)} for ${name}`);
+      if (pattern && typeof value === "string" && !pattern.test(value)) {
+        this.fail(token, `${name} value "${value}" must match ${definition.pattern}`);
+      }
+      return value;
+    });
+
+    const filter: SearchFilter = {
+      filterName: name,
+      op,
+      value: op === "in" ? (converted as string[]) : converted[0],
+    };
+    if (isFuzzySearch) filter.isFuzzySearch = true;
+    this.filters.push(filter);
+  }
+}
+
+/**
+ * Compiles a query such as `followers>100k country in (US,CA) er>3%` into
+ * SearchFilters for the platform. Throws QueryParseError (400, code
+ * "invalid_query") pointing at the offending token.
+ */
+export function parseSearchQuery(platform: Platform, query: string): ParsedSearchQuery {
+  return new QueryParser(platform, query).parse();
+}
+
+/**
+ * Merges a `query` string from tool arguments or a request body into the
+ * structured search input: its filters are appended to any explicit
+ * `filters`, and its sort applies unless `sortBy` is given.
+ */
+export function withSearchQuery(
+  platform: Platform,
+  input: Record<string, unknown>
+): Record<string, unknown> {
+  const { query, ...rest } = input;
+  if (typeof query !== "string" || !query.trim()) return rest;
+
+  const parsed = parseSearchQuery(platform, query);
+  const filters = Array.isArray(rest.filters) ? rest.filters : [];
+  const merged: Record<string, unknown> = { ...rest, filters: [...filters, ...parsed.filters] };
+  if (parsed.sortBy && !rest.sortBy) {
+    merged.sortBy = parsed.sortBy;
+    merged.desc = parsed.desc;
+  }
+  return merged;
+}
@@ -0,0 +1,433 @@
+import { existsSync, readFileSync } from "node:fs";
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { AuthContext, routeFamily } from "./auth.js";
+import { ApiError, toErrorResponse } from "./errors.js";
+
+// =============================================================================
+// Rate Limiting - per-client token buckets and a cap on concurrent upstream calls
+// =============================================================================
+
+const ALL_ROUTES = "*";
+// Scope of the per-IP bucket for failed authentication
+const AUTH_FAILURES = "auth-failures";
+const DEFAULT_QUEUE_TIMEOUT_MS = 30_000;
+// Buckets kept by the in-memory store; the least recently used is dropped past this
+const DEFAULT_MAX_BUCKETS = 10_000;
+
+const bucketSchema = z.object({
+  /** Sustained rate the bucket refills at */
+  perMinute: z.number().positive(),
+  /** Bucket size: how many requests may be made back to back (default perMinute) */
+  burst: z.number().int().positive().optional(),
+});
+
+const bucketsSchema = z.record(z.string().min(1), bucketSchema);
+
+export const rateLimitConfigSchema = z.object({
+  /** Buckets keyed by route family ("search", "report", "campaigns", ...) or "*" */
+  limits: bucketsSchema.default({}),
+  /** Per-client overrides of `limits`, keyed by client id from CREATORDB_CLIENTS */
+  clients: z.record(z.string().min(1), bucketsSchema).default({}),
+  /** Failed authentication attempts allowed per IP address */
+  authFailures: bucketSchema.default({ perMinute: 10 }),
+  /** Upstream requests allowed in flight at once across all clients */
+  maxConcurrentUpstream: z.number().int().positive().optional(),
+  /** How long a request waits for an upstream slot before failing with 503 */
+  queueTimeoutMs: z.number().int().positive().default(DEFAULT_QUEUE_TIMEOUT_MS),
+});
+
+export type RateLimitConfig = z.infer<typeof rateLimitConfigSchema>;
+
+export interface TokenBucket {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface BucketRequest {
+  key: string;
+  bucket: TokenBucket;
+}
+
+export interface BucketState {
+  /** Whether this bucket had a token; the request goes through only if every bucket had one */
+  allowed: boolean;
+  /** Tokens left after this request, possibly fractional */
+  tokens: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Route family of the bucket, or "*" for the client's overall limit */
+  scope: string;
+  limit: number;
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  reset: number;
+  /** Seconds until a request would be allowed; 0 when this one was */
+  retryAfter: number;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+export class RateLimitedError extends ApiError {
+  constructor(result: RateLimitResult) {
+    const target =
+      result.scope === ALL_ROUTES
+        ? "all routes"
+        : result.scope === AUTH_FAILURES
+          ? "failed authentication attempts"
+          : `"${result.scope}" routes`;
+    super(
+      `Rate limit exceeded for ${target}: ${result.limit} requests per burst. ` +
+        `Retry in ${result.retryAfter}s.`,
+      429,
+      result.retryAfter
+    );
+    this.code = "rate_limited";
+    this.details = { scope: result.scope, limit: result.limit, retryAfter: result.retryAfter };
+  }
+}
+
+// =============================================================================
+// Limiter Store
+// =============================================================================
+
+/**
+ * Keeps token bucket state. `take` refills the buckets for the time since
+ * they were last used, then takes `cost` tokens from each of them if every
+ * one holds at least one token, and from none otherwise (a cost of 0 just
+ * checks). It must do so atomically, so stores shared between processes
+ * (e.g. serverless instances) don't hand out the same token twice.
+ */
+export interface RateLimitStore {
+  take(requests: BucketRequest[], now: number, cost?: number): Promise<BucketState[]>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(private readonly maxBuckets = DEFAULT_MAX_BUCKETS) {}
+
+  async take(requests: BucketRequest[], now: number, cost = 1): Promise<BucketState[]> {
+    const levels = requests.map(({ key, bucket }) => {
+      const state = this.buckets.get(key);
+      return state
+        ? Math.min(
+            bucket.capacity,
+            state.tokens + (Math.max(0, now - state.updatedAt) / 1000) * bucket.refillPerSecond
+          )
+        : bucket.capacity;
+    });
+    const allowed = levels.every((tokens) => tokens >= 1);
+
+    return requests.map(({ key }, index) => {
+      const tokens = allowed ? levels[index] - cost : levels[index];
+      // Re-inserting keeps the map in least recently used order
+      this.buckets.delete(key);
+      if (this.buckets.size >= this.maxBuckets) {
+        this.buckets.delete(this.buckets.keys().next().value!);
+      }
+      this.buckets.set(key, { tokens, updatedAt: now });
+      return { allowed: levels[index] >= 1, tokens };
+    });
+  }
+}
+
+/**
+ * Builds the limiter store from CREATORDB_RATE_LIMIT_STORE ("memory" or
+ * "redis", default "memory"). The Redis store talks to a Redis REST endpoint
+ * (Upstash or Vercel KV) at CREATORDB_RATE_LIMIT_REDIS_URL with
+ * CREATORDB_RATE_LIMIT_REDIS_TOKEN, falling back to KV_REST_API_URL and
+ * KV_REST_API_TOKEN.
+ */
+export async function createRateLimitStoreFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<RateLimitStore> {
+  const backend = env.CREATORDB_RATE_LIMIT_STORE ?? "memory";
+
+  switch (backend) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "redis": {
+      const url = env.CREATORDB_RATE_LIMIT_REDIS_URL ?? env.KV_REST_API_URL;
+      const token = env.CREATORDB_RATE_LIMIT_REDIS_TOKEN ?? env.KV_REST_API_TOKEN;
+      if (!url || !token) {
+        throw new Error(
+          "CREATORDB_RATE_LIMIT_STORE=redis needs CREATORDB_RATE_LIMIT_REDIS_URL and " +
+            "CREATORDB_RATE_LIMIT_REDIS_TOKEN"
+        );
+      }
+      const { RedisRateLimitStore } = await import("./redis-rate-limit.js");
+      return new RedisRateLimitStore(url, token);
+    }
+    default:
+      throw new Error(`Unknown CREATORDB_RATE_LIMIT_STORE backend: ${backend}`);
+  }
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Loads rate limits from CREATORDB_RATE_LIMITS, which holds either JSON or
+ * the path to a JSON file. Returns undefined when no limits are configured.
+ */
+export function loadRateLimitConfig(
+  env: NodeJS.ProcessEnv = process.env
+): RateLimitConfig | undefined {
+  const source = env.CREATORDB_RATE_LIMITS?.trim();
+  if (!source) return undefined;
+
+  let json = source;
+  if (!source.startsWith("{")) {
+    if (!existsSync(source)) throw new Error(`Rate limit config file not found: ${source}`);
+    json = readFileSync(source, "utf8");
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("CREATORDB_RATE_LIMITS must be a JSON object or the path to a JSON file");
+  }
+  const result = rateLimitConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    );
+    throw new Error(`Invalid rate limit config: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Express's "trust proxy" setting from CREATORDB_TRUST_PROXY: "true", the
+ * number of proxy hops, or trusted addresses and subnets such as
+ * "loopback, 10.0.0.0/8". Behind a proxy this makes `req.ip`, and so the
+ * per-IP buckets, come from X-Forwarded-For. Unset or "false" trusts no proxy.
+ */
+export function trustProxyFromEnv(env: NodeJS.ProcessEnv = process.env): boolean | number | string {
+  const value = env.CREATORDB_TRUST_PROXY?.trim();
+  if (!value || value === "false") return false;
+  if (value === "true") return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+// =============================================================================
+// Rate Limiter
+// =============================================================================
+
+function toTokenBucket({ perMinute, burst }: z.infer<typeof bucketSchema>): TokenBucket {
+  return { capacity: burst ?? Math.max(1, Math.ceil(perMinute)), refillPerSecond: perMinute / 60 };
+}
+
+function toResult(scope: string, bucket: TokenBucket, state: BucketState): RateLimitResult {
+  return {
+    allowed: state.allowed,
+    scope,
+    limit: bucket.capacity,
+    remaining: Math.floor(state.tokens),
+    reset: Math.ceil((bucket.capacity - state.tokens) / bucket.refillPerSecond),
+    retryAfter: state.allowed ? 0 : Math.ceil((1 - state.tokens) / bucket.refillPerSecond),
+  };
+}
+
+export class RateLimiter {
+  constructor(
+    private readonly config: RateLimitConfig,
+    private readonly store: RateLimitStore
+  ) {}
+
+  /** Buckets that apply to a client's requests to a route family, most specific first. */
+  bucketsFor(clientId: string | null, family: string): Array<[string, TokenBucket]> {
+    const limits = {
+      ...this.config.limits,
+      ...(clientId ? this.config.clients[clientId] : undefined),
+    };
+    return [family, ALL_ROUTES]
+      .filter((scope) => limits[scope])
+      .map((scope) => [scope, toTokenBucket(limits[scope])]);
+  }
+
+  /**
+   * Takes a token from every bucket that applies, or from none when one of
+   * them is empty. Returns the first empty bucket when the request is
+   * refused, otherwise the one with the fewest requests left; undefined when
+   * no limit applies.
+   */
+  async take(
+    key: string,
+    clientId: string | null,
+    family: string,
+    now = Date.now()
+  ): Promise<RateLimitResult | undefined> {
+    const buckets = this.bucketsFor(clientId, family);
+    if (buckets.length === 0) return undefined;
+
+    const states = await this.store.take(
+      buckets.map(([scope, bucket]) => ({ key: `${key}:${scope}`, bucket })),
+      now
+    );
+    const results = buckets.map(([scope, bucket], index) => toResult(scope, bucket, states[index]));
+    return (
+      results.find((result) => !result.allowed) ??
+      results.reduce((tightest, result) =>
+        result.remaining < tightest.remaining ? result : tightest
+      )
+    );
+  }
+}
+
+/**
+ * Rate limits every request it's mounted on. Mount it after the auth
+ * middleware: authenticated clients are limited by client id, anonymous
+ * requests by IP address. Sets `X-RateLimit-Limit`, `X-RateLimit-Remaining`
+ * and `X-RateLimit-Reset` (seconds), and refuses with a 429 and `Retry-After`.
+ * A failing store lets requests through rather than taking the API down.
+ */
+export function createRateLimitMiddleware(
+  config: RateLimitConfig | undefined,
+  store: RateLimitStore
+) {
+  const limiter = config && new RateLimiter(config, store);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!limiter) return next();
+
+    const clientId = (res.locals.auth as AuthContext | undefined)?.clientId ?? null;
+    const key = clientId ? `client:${clientId}` : `ip:${req.ip}`;
+    let result: RateLimitResult | undefined;
+    try {
+      result = await limiter.take(key, clientId, routeFamily(req.path));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Warning: rate limit check failed, allowing the request: ${message}`);
+      return next();
+    }
+    if (!result) return next();
+
+    res.setHeader("X-RateLimit-Limit", String(result.limit));
+    res.setHeader("X-RateLimit-Remaining", String(result.remaining));
+    res.setHeader("X-RateLimit-Reset", String(result.reset));
+    if (result.allowed) return next();
+
+    res.setHeader("Retry-After", String(result.retryAfter));
+    res.status(429).json(toErrorResponse(new RateLimitedError(result)));
+  };
+}
+
+/**
+ * Throttles failed authentication by IP address, so credentials can't be
+ * guessed at full speed. Mount it before the auth middleware: an address
+ * whose `authFailures` bucket is empty gets a 429 before its credentials are
+ * checked, and every 401 takes a token from the bucket once it is sent.
+ */
+export function createAuthFailureLimiter(
+  config: RateLimitConfig | undefined,
+  store: RateLimitStore
+) {
+  const bucket = config && toTokenBucket(config.authFailures);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!bucket) return next();
+
+    const request = { key: `ip:${req.ip}:${AUTH_FAILURES}`, bucket };
+    let state: BucketState;
+    try {
+      [state] = await store.take([request], Date.now(), 0);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Warning: rate limit check failed, allowing the request: ${message}`);
+      return next();
+    }
+    if (!state.allowed) {
+      const result = toResult(AUTH_FAILURES, bucket, state);
+      res.setHeader("Retry-After", String(result.retryAfter));
+      return res.status(429).json(toErrorResponse(new RateLimitedError(result)));
+    }
+
+    res.on("finish", () => {
+      if (res.statusCode !== 401) return;
+      store.take([request], Date.now()).catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Warning: could not count a failed authentication: ${message}`);
+      });
+    });
+    next();
+  };
+}
+
+// =============================================================================
+// Upstream Concurrency
+// =============================================================================
+
+/**
+ * Caps how many upstream requests are in flight at once. Share one instance
+ * between CreatorDBClients to cap them together; requests past the cap wait
+ * in line and fail with a 503 after `queueTimeoutMs`.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(
+    readonly max: number,
+    private readonly queueTimeoutMs = DEFAULT_QUEUE_TIMEOUT_MS
+  ) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  status() {
+    return { max: this.max, active: this.active, queued: this.waiting.length };
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.max) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      // The releasing request hands its slot over, so `active` stays the same
+      const grant = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.waiting.splice(this.waiting.indexOf(grant), 1);
+        const error = new ApiError(
+          `Too many upstream requests in flight (limit ${this.max}); try again shortly`,
+          503,
+          1
+        );
+        error.code = "upstream_busy";
+        reject(error);
+      }, this.queueTimeoutMs);
+      this.waiting.push(grant);
+    });
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
+
+/** The shared upstream cap from the config, if `maxConcurrentUpstream` is set. */
+export function createConcurrencyLimiter(
+  config: RateLimitConfig | undefined
+): ConcurrencyLimiter | undefined {
+  if (!config?.maxConcurrentUpstream) return undefined;
+  return new ConcurrencyLimiter(config.maxConcurrentUpstream, config.queueTimeoutMs);
+}
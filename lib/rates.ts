@@ -0,0 +1,349 @@
+import { existsSync, readFileSync } from "node:fs";
+import { z } from "zod";
+import { ApiError, CallOptions, CreatorDBClient, Platform } from "./client.js";
+import { COUNTRY_ALPHA3 } from "./filters.js";
+import { getCreatorReport } from "./report.js";
+
+// =============================================================================
+// Rate Estimation - price ranges per deliverable from CPM/CPE rate cards
+// =============================================================================
+
+const DEFAULT_RATE_CARDS_PATH = "config/rate-cards.json";
+const DEFAULT_COUNTRY = "*";
+
+const rangeSchema = z
+  .tuple([z.number().nonnegative(), z.number().nonnegative()])
+  .refine(([min, max]) => min <= max, "min must not be greater than max");
+
+const deliverableSchema = z.object({
+  description: z.string().optional(),
+  /** Price per 1,000 expected views */
+  cpm: rangeSchema,
+  /** Price per expected engagement (likes + comments) */
+  cpe: rangeSchema.optional(),
+  /** Expected views relative to the creator's average, e.g. 0.5 for stories */
+  viewsFactor: z.number().positive().optional(),
+  /** Performance field holding the average views for this format */
+  viewsMetric: z.string().optional(),
+  /** Prefer CreatorDB's own pricing estimate when the profile has one (YouTube) */
+  useCreatorDbPricing: z.boolean().optional(),
+});
+
+const platformCardSchema = z.object({
+  /** Share of followers assumed to see a post when average views are unknown */
+  reachRate: z.number().positive().max(1),
+  deliverables: z.record(z.string(), deliverableSchema),
+});
+
+export const rateCardsSchema = z.object({
+  currency: z.string(),
+  platforms: z.object({
+    instagram: platformCardSchema,
+    youtube: platformCardSchema,
+    tiktok: platformCardSchema,
+  }),
+  /** Multipliers for niches, matched case-insensitively as substrings of the creator's niches */
+  niches: z.record(z.string(), z.number().positive()).default({}),
+  /** Multipliers by ISO country code; "*" applies to unlisted countries */
+  countries: z.record(z.string(), z.number().positive()).default({}),
+});
+
+export type RateCards = z.infer<typeof rateCardsSchema>;
+
+export interface RateRange {
+  min: number;
+  max: number;
+}
+
+export interface DeliverableRate {
+  deliverable: string;
+  description: string | null;
+  currency: string;
+  /** Null when the creator has no view or engagement data to price from */
+  min: number | null;
+  max: number | null;
+  source: "rate_card" | "creatordb";
+  expectedViews: number | null;
+  expectedEngagements: number | null;
+  /** Rate card methods behind the estimate */
+  basis: Array<"cpm" | "cpe">;
+  /** The rate card estimate, when CreatorDB pricing was used instead */
+  rateCardEstimate?: RateRange | null;
+}
+
+export interface RateMultiplier {
+  value: number;
+  /** Niche or country key that matched, or null for the default */
+  matched: string | null;
+}
+
+export interface CreatorDbPricing {
+  currency: string | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+export interface RateEstimate {
+  platform: Platform;
+  id: string;
+  generatedAt: string;
+  displayName: string | null;
+  inputs: {
+    followers: number | null;
+    avgViews: number | null;
+    avgLikes: number | null;
+    avgComments: number | null;
+    avgEngagementRate: number | null;
+    country: string | null;
+    niches: string[];
+  };
+  multipliers: { niche: RateMultiplier; country: RateMultiplier };
+  /** CreatorDB's own price range from the YouTube profile, when present */
+  creatorDbPricing: CreatorDbPricing | null;
+  deliverables: DeliverableRate[];
+}
+
+// =============================================================================
+// Rate Cards
+// =============================================================================
+
+/**
+ * Loads rate cards from CREATORDB_RATE_CARDS, which holds either JSON or the
+ * path to a JSON file (default config/rate-cards.json). The file is read on
+ * every call so edits apply without a restart.
+ */
+export function loadRateCards(env: NodeJS.ProcessEnv = process.env): RateCards {
+  const source = env.CREATORDB_RATE_CARDS?.trim() || DEFAULT_RATE_CARDS_PATH;
+  let json = source;
+  if (!source.startsWith("{")) {
+    if (!existsSync(source)) throw new ApiError(`Rate card file not found: ${source}`, 500);
+    json = readFileSync(source, "utf8");
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new ApiError(
+      "CREATORDB_RATE_CARDS must be a JSON object or the path to a JSON file",
+      500
+    );
+  }
+  const result = rateCardsSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    );
+    throw new ApiError(`Invalid rate cards: ${issues.join("; ")}`, 500);
+  }
+  return result.data;
+}
+
+// =============================================================================
+// Estimation
+// =============================================================================
+
+function record(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+// Card keys and creator countries may be alpha-2 or alpha-3; compare as alpha-3
+function alpha3(code: string): string {
+  const upper = code.trim().toUpperCase();
+  return COUNTRY_ALPHA3[upper] ?? upper;
+}
+
+function countryMultiplier(cards: RateCards, country: string | null): RateMultiplier {
+  if (country) {
+    const key = Object.keys(cards.countries).find((code) => alpha3(code) === alpha3(country));
+    if (key) return { value: cards.countries[key], matched: key };
+  }
+  return { value: cards.countries[DEFAULT_COUNTRY] ?? 1, matched: null };
+}
+
+// The most valuable matching niche sets the multiplier
+function nicheMultiplier(cards: RateCards, niches: string[]): RateMultiplier {
+  let best: RateMultiplier = { value: 1, matched: null };
+  for (const [key, value] of Object.entries(cards.niches)) {
+    const matches = niches.some((niche) => niche.toLowerCase().includes(key.toLowerCase()));
+    if (matches && (best.matched === null || value > best.value)) best = { value, matched: key };
+  }
+  return best;
+}
+
+function checkDeliverables(cards: RateCards, platform: Platform, deliverables?: string[]) {
+  const available = cards.platforms[platform].deliverables;
+  const unknown = (deliverables ?? []).filter((name) => !(name in available));
+  if (unknown.length > 0) {
+    throw new ApiError(
+      `Unknown deliverable(s) for ${platform}: ${unknown.join(", ")}. ` +
+        `Valid deliverables: ${Object.keys(available).join(", ")}`,
+      400
+    );
+  }
+}
+
+// Prices are rounded to two significant figures; quotes are never that precise
+function roundPrice(value: number): number {
+  if (value <= 0) return 0;
+  const magnitude = 10 ** Math.max(0, Math.floor(Math.log10(value)) - 1);
+  return Math.round(value / magnitude) * magnitude;
+}
+
+/**
+ * Prices every deliverable on the platform's rate card from a creator's
+ * profile and performance payloads. CPM prices expected views and CPE
+ * expected engagements; when both apply the range is their average, scaled
+ * by the niche and country multipliers.
+ */
+export function estimateRates(
+  cards: RateCards,
+  platform: Platform,
+  id: string,
+  sections: { profile?: unknown; performance?: unknown },
+  deliverables?: string[]
+): RateEstimate {
+  const profile = record(sections.profile);
+  const performance = record(sections.performance);
+  const card = cards.platforms[platform];
+  checkDeliverables(cards, platform, deliverables);
+
+  const inputs: RateEstimate["inputs"] = {
+    followers: numberOrNull(profile.totalFollowers) ?? numberOrNull(profile.totalSubscribers),
+    avgViews: numberOrNull(performance.avgViews),
+    avgLikes: numberOrNull(performance.avgLikes),
+    avgComments: numberOrNull(performance.avgComments),
+    avgEngagementRate:
+      numberOrNull(performance.avgEngagementRate) ?? numberOrNull(profile.avgEngagementRate),
+    country: typeof profile.country === "string" ? profile.country : null,
+    niches: Array.isArray(profile.niches) ? profile.niches.map(String) : [],
+  };
+  const multipliers = {
+    niche: nicheMultiplier(cards, inputs.niches),
+    country: countryMultiplier(cards, inputs.country),
+  };
+  const multiplier = multipliers.niche.value * multipliers.country.value;
+
+  const pricing = profile.pricing ? record(profile.pricing) : null;
+  const creatorDbPricing = pricing
+    ? {
+        currency: typeof pricing.currency === "string" ? pricing.currency : null,
+        minPrice: numberOrNull(pricing.minPrice),
+        maxPrice: numberOrNull(pricing.maxPrice),
+      }
+    : null;
+
+  // Fall back to reach and engagement rate when averages are missing
+  const baseViews =
+    inputs.avgViews ?? (inputs.followers !== null ? inputs.followers * card.reachRate : null);
+  const baseEngagements =
+    inputs.avgLikes !== null || inputs.avgComments !== null
+      ? (inputs.avgLikes ?? 0) + (inputs.avgComments ?? 0)
+      : inputs.followers !== null && inputs.avgEngagementRate !== null
+        ? inputs.followers * inputs.avgEngagementRate
+        : null;
+
+  const rates = Object.entries(card.deliverables)
+    .filter(([name]) => !deliverables || deliverables.includes(name))
+    .map(([name, deliverable]): DeliverableRate => {
+      const factor = deliverable.viewsFactor ?? 1;
+      const views = deliverable.viewsMetric
+        ? numberOrNull(performance[deliverable.viewsMetric])
+        : baseViews;
+      const expectedViews = views !== null ? Math.round(views * factor) : null;
+      const expectedEngagements =
+        baseEngagements !== null && deliverable.cpe ? Math.round(baseEngagements * factor) : null;
+
+      const estimates: RateRange[] = [];
+      const basis: DeliverableRate["basis"] = [];
+      if (expectedViews !== null) {
+        estimates.push({
+          min: (expectedViews / 1000) * deliverable.cpm[0],
+          max: (expectedViews / 1000) * deliverable.cpm[1],
+        });
+        basis.push("cpm");
+      }
+      if (expectedEngagements !== null && deliverable.cpe) {
+        estimates.push({
+          min: expectedEngagements * deliverable.cpe[0],
+          max: expectedEngagements * deliverable.cpe[1],
+        });
+        basis.push("cpe");
+      }
+      const average = (key: keyof RateRange) =>
+        roundPrice((multiplier * estimates.reduce((sum, e) => sum + e[key], 0)) / estimates.length);
+      const estimate = estimates.length > 0 ? { min: average("min"), max: average("max") } : null;
+
+      const rate: DeliverableRate = {
+        deliverable: name,
+        description: deliverable.description ?? null,
+        currency: cards.currency,
+        min: estimate?.min ?? null,
+        max: estimate?.max ?? null,
+        source: "rate_card",
+        expectedViews,
+        expectedEngagements,
+        basis,
+      };
+      if (
+        deliverable.useCreatorDbPricing &&
+        creatorDbPricing?.minPrice != null &&
+        creatorDbPricing.maxPrice != null
+      ) {
+        return {
+          ...rate,
+          currency: creatorDbPricing.currency ?? cards.currency,
+          min: creatorDbPricing.minPrice,
+          max: creatorDbPricing.maxPrice,
+          source: "creatordb",
+          rateCardEstimate: estimate,
+        };
+      }
+      return rate;
+    });
+
+  return {
+    platform,
+    id,
+    generatedAt: new Date().toISOString(),
+    displayName: typeof profile.displayName === "string" ? profile.displayName : null,
+    inputs,
+    multipliers,
+    creatorDbPricing,
+    deliverables: rates,
+  };
+}
+
+/**
+ * Reads a `deliverables` option given as an array or a comma-separated
+ * string. Returns undefined to price every deliverable.
+ */
+export function parseDeliverables(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const names = (Array.isArray(value) ? value : String(value).split(","))
+    .map((name) => String(name).trim())
+    .filter(Boolean);
+  return names.length > 0 ? [...new Set(names)] : undefined;
+}
+
+/**
+ * Fetches a creator's profile and performance and prices them against the
+ * local rate cards.
+ */
+export async function estimateCreatorRate(
+  client: CreatorDBClient,
+  platform: Platform,
+  id: string,
+  deliverables?: string[],
+  options: CallOptions = {}
+): Promise<RateEstimate> {
+  if (!id) throw new ApiError("id is required", 400);
+  const cards = loadRateCards();
+  checkDeliverables(cards, platform, deliverables);
+  const report = await getCreatorReport(client, platform, id, ["profile", "performance"], options);
+  return estimateRates(cards, platform, id, report.sections, deliverables);
+}
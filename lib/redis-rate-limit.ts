@@ -0,0 +1,84 @@
+import type { BucketRequest, BucketState, RateLimitStore } from "./rate-limit.js";
+
+// =============================================================================
+// Redis Rate Limit Store - token buckets shared by stateless instances over a
+// Redis REST endpoint (Upstash, Vercel KV)
+// =============================================================================
+
+const REQUEST_TIMEOUT_MS = 2_000;
+
+// Refills every bucket and takes from all of them or none in one script, so
+// concurrent instances can't both spend the last token. ARGV holds the time,
+// the cost, then capacity and rate per key. Numbers go back as strings since
+// Redis truncates Lua floats.
+const TAKE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local levels = {}
+local allowed = 1
+for i = 1, #KEYS do
+  local capacity = tonumber(ARGV[i * 2 + 1])
+  local rate = tonumber(ARGV[i * 2 + 2])
+  local state = redis.call("HMGET", KEYS[i], "tokens", "updated")
+  local tokens = tonumber(state[1]) or capacity
+  local updated = tonumber(state[2]) or now
+  levels[i] = math.min(capacity, tokens + math.max(0, now - updated) / 1000 * rate)
+  if levels[i] < 1 then allowed = 0 end
+end
+local result = {allowed}
+for i = 1, #KEYS do
+  local capacity = tonumber(ARGV[i * 2 + 1])
+  local rate = tonumber(ARGV[i * 2 + 2])
+  local tokens = levels[i]
+  if allowed == 1 then tokens = tokens - cost end
+  redis.call("HSET", KEYS[i], "tokens", tostring(tokens), "updated", tostring(now))
+  redis.call("PEXPIRE", KEYS[i], math.ceil((capacity - tokens) / rate * 1000) + 1000)
+  result[i + 1] = tostring(tokens)
+end
+return result
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly url: string,
+    private readonly token: string,
+    private readonly prefix = "creatordb:ratelimit:"
+  ) {}
+
+  async take(requests: BucketRequest[], now: number, cost = 1): Promise<BucketState[]> {
+    const command = [
+      "EVAL",
+      TAKE_SCRIPT,
+      String(requests.length),
+      ...requests.map(({ key }) => `${this.prefix}${key}`),
+      String(now),
+      String(cost),
+      ...requests.flatMap(({ bucket }) => [
+        String(bucket.capacity),
+        String(bucket.refillPerSecond),
+      ]),
+    ];
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.token}`, "Content-Type": "application/json" },
+      body: JSON.stringify(command),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    let body: { result?: [number, ...string[]]; error?: string } = {};
+    try {
+      body = await response.json();
+    } catch {
+      // Reported below
+    }
+    if (!response.ok || !body.result) {
+      throw new Error(`Redis rate limit store failed: ${body.error ?? `HTTP ${response.status}`}`);
+    }
+    const [allowed, ...levels] = body.result;
+    // A refused request left every bucket as it was, so the ones with a token still have it
+    return levels.map((level) => {
+      const tokens = Number(level);
+      return { allowed: allowed === 1 || tokens >= 1, tokens };
+    });
+  }
+}
@@ -0,0 +1,188 @@
+import {
+  ApiError,
+  ApiResponse,
+  CallOptions,
+  CreatorDBClient,
+  Platform,
+  toErrorResponse,
+} from "./client.js";
+
+// =============================================================================
+// Creator Report - one normalized document from parallel section lookups
+// =============================================================================
+
+export type ReportSection =
+  | "profile"
+  | "performance"
+  | "performance-history"
+  | "audience"
+  | "sponsorship"
+  | "contact";
+
+export const REPORT_SECTIONS: ReportSection[] = [
+  "profile",
+  "performance",
+  "performance-history",
+  "audience",
+  "sponsorship",
+  "contact",
+];
+
+export interface ReportSectionError {
+  /** HTTP status of the failed lookup, when known */
+  status: number | null;
+  error: string;
+  code?: string;
+}
+
+/**
+ * Headline metrics pulled from the profile and performance sections, with
+ * platform differences (followers vs. subscribers) smoothed over.
+ */
+export interface ReportSummary {
+  displayName: string | null;
+  country: string | null;
+  followers: number | null;
+  avgEngagementRate: number | null;
+  avgViews: number | null;
+  postsPerWeek: number | null;
+  isVerified: boolean | null;
+  hasSponsors: boolean | null;
+}
+
+export interface CreatorReport {
+  platform: Platform;
+  id: string;
+  generatedAt: string;
+  summary: ReportSummary;
+  /** Upstream `data` payload per section that was fetched successfully */
+  sections: Partial<Record<ReportSection, unknown>>;
+  /** Sections whose lookup failed; the rest of the report is still usable */
+  errors: Partial<Record<ReportSection, ReportSectionError>>;
+  /** Requested sections the platform has no endpoint for */
+  unsupported: ReportSection[];
+}
+
+/**
+ * Parses a `sections` option given as an array or a comma-separated string.
+ * Returns every section when none are given.
+ */
+export function parseReportSections(value: unknown): ReportSection[] {
+  if (value === undefined || value === null || value === "") return REPORT_SECTIONS;
+
+  const names = (Array.isArray(value) ? value : String(value).split(","))
+    .map((name) => String(name).trim())
+    .filter(Boolean);
+  const unknown = names.filter((name) => !REPORT_SECTIONS.includes(name as ReportSection));
+  if (unknown.length > 0) {
+    throw new ApiError(
+      `Unknown report section(s): ${unknown.join(", ")}. Valid sections: ${REPORT_SECTIONS.join(", ")}`,
+      400
+    );
+  }
+  return [...new Set(names as ReportSection[])];
+}
+
+/** Converts a failed lookup into the `{ status, error, code }` shape used in reports. */
+export function toSectionError(error: unknown): ReportSectionError {
+  const { error: message, code } = toErrorResponse(error);
+  const status = error instanceof ApiError ? error.status : null;
+  return code ? { status, error: message, code } : { status, error: message };
+}
+
+function fetchSection(
+  client: CreatorDBClient,
+  platform: Platform,
+  section: ReportSection,
+  id: string,
+  options: CallOptions
+): Promise<ApiResponse> | undefined {
+  const api = client[platform];
+  switch (section) {
+    case "profile":
+      return api.getProfile(id, options);
+    case "performance":
+      return api.getPerformance(id, options);
+    case "performance-history":
+      return api.getPerformanceHistory(id, options);
+    case "audience":
+      return api.getAudience(id, options);
+    case "contact":
+      return api.getContact(id, options);
+    case "sponsorship":
+      return "getSponsorship" in api ? api.getSponsorship(id, options) : undefined;
+  }
+}
+
+function pick<T>(source: unknown, key: string, type: "string" | "number" | "boolean"): T | null {
+  const value = (source as Record<string, unknown> | undefined)?.[key];
+  return typeof value === type ? (value as T) : null;
+}
+
+function summarize(sections: CreatorReport["sections"]): ReportSummary {
+  const { profile, performance } = sections;
+  return {
+    displayName: pick(profile, "displayName", "string"),
+    country: pick(profile, "country", "string"),
+    followers:
+      pick(profile, "totalFollowers", "number") ?? pick(profile, "totalSubscribers", "number"),
+    avgEngagementRate:
+      pick(performance, "avgEngagementRate", "number") ??
+      pick(profile, "avgEngagementRate", "number"),
+    avgViews: pick(performance, "avgViews", "number"),
+    postsPerWeek: pick(performance, "postsPerWeek", "number"),
+    isVerified: pick(profile, "isVerified", "boolean"),
+    hasSponsors: pick(profile, "hasSponsors", "boolean"),
+  };
+}
+
+/**
+ * Fetches the requested sections for one creator in parallel. A failing
+ * section is recorded under `errors` instead of failing the report; the
+ * report only throws when every requested section fails.
+ */
+export async function getCreatorReport(
+  client: CreatorDBClient,
+  platform: Platform,
+  id: string,
+  sections: ReportSection[] = REPORT_SECTIONS,
+  options: CallOptions = {}
+): Promise<CreatorReport> {
+  if (!id.trim()) throw new ApiError("id is required", 400);
+  const report: CreatorReport = {
+    platform,
+    id,
+    generatedAt: new Date().toISOString(),
+    summary: summarize({}),
+    sections: {},
+    errors: {},
+    unsupported: [],
+  };
+
+  const pending = sections.flatMap((section) => {
+    const request = fetchSection(client, platform, section, id, options);
+    if (!request) {
+      report.unsupported.push(section);
+      return [];
+    }
+    return [{ section, request }];
+  });
+
+  const settled = await Promise.allSettled(pending.map(({ request }) => request));
+  settled.forEach((outcome, index) => {
+    const { section } = pending[index];
+    if (outcome.status === "fulfilled") {
+      report.sections[section] = outcome.value.data;
+    } else {
+      report.errors[section] = toSectionError(outcome.reason);
+    }
+  });
+
+  // Nothing to show: surface the first failure (e.g. a 404 for an unknown creator)
+  if (pending.length > 0 && settled.every((outcome) => outcome.status === "rejected")) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  report.summary = summarize(report.sections);
+  return report;
+}
@@ -0,0 +1,130 @@
+import {
+  ErrorCode,
+  McpError,
+  Resource,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ApiResponse, CreatorDBClient } from "./client.js";
+
+// =============================================================================
+// MCP Resources - reference data and creator documents addressable by URI
+// =============================================================================
+
+const JSON_MIME_TYPE = "application/json";
+
+export const resources: Resource[] = [
+  {
+    uri: "creatordb://instagram/niches",
+    name: "Instagram niches",
+    description:
+      "All Instagram niches with categories and creator counts. Use these values for the 'niches' search filter.",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uri: "creatordb://youtube/niches",
+    name: "YouTube niches",
+    description:
+      "All YouTube niches with categories and creator counts. Use these values for the 'niches' search filter.",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uri: "creatordb://youtube/topics",
+    name: "YouTube topics",
+    description:
+      "All YouTube topics (content categories) with creator counts. Use these values for the 'topics' search filter.",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uri: "creatordb://tiktok/niches",
+    name: "TikTok niches",
+    description:
+      "All TikTok niches with categories and creator counts. Use these values for the 'niches' search filter.",
+    mimeType: JSON_MIME_TYPE,
+  },
+];
+
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: "creatordb://instagram/profile/{uniqueId}",
+    name: "Instagram creator profile",
+    description: "Complete Instagram creator profile for an account ID (e.g. 'instagram').",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: "creatordb://instagram/audience/{uniqueId}",
+    name: "Instagram creator audience",
+    description: "Audience demographics (country, gender, age) for an Instagram account ID.",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: "creatordb://youtube/profile/{channelId}",
+    name: "YouTube creator profile",
+    description: "Complete YouTube channel profile for a channel ID (UC...).",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: "creatordb://youtube/audience/{channelId}",
+    name: "YouTube creator audience",
+    description: "Audience demographics (country, gender, age) for a YouTube channel ID.",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: "creatordb://tiktok/profile/{uniqueId}",
+    name: "TikTok creator profile",
+    description: "Complete TikTok creator profile for an account ID (e.g. 'tiktok').",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: "creatordb://tiktok/audience/{uniqueId}",
+    name: "TikTok creator audience",
+    description: "Audience demographics (country, gender, age) for a TikTok account ID.",
+    mimeType: JSON_MIME_TYPE,
+  },
+];
+
+const RESOURCE_URI = /^creatordb:\/\/(instagram|youtube|tiktok)\/([a-z-]+)(?:\/([^/]+))?$/;
+
+function fetchResource(
+  client: CreatorDBClient,
+  platform: string,
+  kind: string,
+  id: string | undefined
+): Promise<ApiResponse> | undefined {
+  const api = client[platform as "instagram" | "youtube" | "tiktok"];
+
+  if (id === undefined) {
+    if (kind === "niches") return api.getNiches();
+    if (kind === "topics" && platform === "youtube") return client.youtube.getTopics();
+    return undefined;
+  }
+
+  if (kind === "profile") return api.getProfile(id);
+  if (kind === "audience") return api.getAudience(id);
+  return undefined;
+}
+
+/**
+ * Resolves a creatordb:// URI to its JSON contents, served through the
+ * client's cache like the equivalent tool call.
+ */
+export async function readResource(client: CreatorDBClient, uri: string) {
+  const match = RESOURCE_URI.exec(uri);
+  const [, platform, kind, encodedId] = match ?? [];
+  const id = encodedId === undefined ? undefined : decodeURIComponent(encodedId);
+  const pending = match ? fetchResource(client, platform, kind, id) : undefined;
+
+  if (!pending) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+
+  const result = await pending;
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: JSON_MIME_TYPE,
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
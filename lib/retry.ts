@@ -0,0 +1,109 @@
+// =============================================================================
+// Retry Helpers - timeouts, exponential backoff and Retry-After parsing
+// =============================================================================
+
+export interface RetryPolicy {
+  /** Per-attempt timeout covering both the request and reading the body. */
+  timeoutMs: number;
+  /** Retries after the first attempt; 0 disables retrying. */
+  maxRetries: number;
+  baseDelayMs: number;
+  /** Upper bound for backoff, and the longest Retry-After we are willing to wait. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  timeoutMs: 30_000,
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+/**
+ * Reads CREATORDB_TIMEOUT_MS (a positive number) and CREATORDB_MAX_RETRIES
+ * (a whole number, 0 to disable). Throws on anything else, so a typo such as
+ * "10s" fails at startup instead of timing out every request.
+ */
+export function retryPolicyFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Partial<RetryPolicy> {
+  const policy: Partial<RetryPolicy> = {};
+  if (env.CREATORDB_TIMEOUT_MS) {
+    const timeoutMs = Number(env.CREATORDB_TIMEOUT_MS);
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      throw new Error(
+        `CREATORDB_TIMEOUT_MS must be a positive number of milliseconds, got "${env.CREATORDB_TIMEOUT_MS}"`
+      );
+    }
+    policy.timeoutMs = timeoutMs;
+  }
+  if (env.CREATORDB_MAX_RETRIES) {
+    const maxRetries = Number(env.CREATORDB_MAX_RETRIES);
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+      throw new Error(
+        `CREATORDB_MAX_RETRIES must be a whole number (0 or more), got "${env.CREATORDB_MAX_RETRIES}"`
+      );
+    }
+    policy.maxRetries = maxRetries;
+  }
+  return policy;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * base * 2^attempt, capped at maxDelayMs.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP-date) into seconds.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Upstream request timed out after ${timeoutMs}ms`);
+  }
+}
+
+/**
+ * Fetches a URL and reads the body as text, aborting both steps once
+ * timeoutMs elapses so a stalled connection can't hang the caller.
+ */
+export async function fetchText(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<{ response: Response; text: string }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    const text = await response.text();
+    return { response, text };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new TimeoutError(timeoutMs);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
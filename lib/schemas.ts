@@ -0,0 +1,290 @@
+import { z } from "zod";
+
+// =============================================================================
+// Response Schemas - runtime validation for CreatorDB API V3 payloads
+// =============================================================================
+//
+// Objects are declared loose so new upstream fields pass through untouched;
+// only the fields we rely on are typed. Most fields are nullish because the
+// upstream omits or nulls metrics it has not computed yet.
+
+const optionalNumber = z.number().nullish();
+const optionalString = z.string().nullish();
+const optionalBoolean = z.boolean().nullish();
+const timestamp = z.union([z.number(), z.string()]).nullish();
+
+// =============================================================================
+// Envelope
+// =============================================================================
+
+export function apiResponseSchema<T extends z.ZodType>(data: T) {
+  return z.looseObject({
+    success: z.boolean(),
+    data,
+    traceId: optionalString,
+    timestamp: timestamp,
+  });
+}
+
+// =============================================================================
+// Shared Building Blocks
+// =============================================================================
+
+export const hashtagSchema = z.union([
+  z.string(),
+  z.looseObject({
+    name: z.string(),
+    count: optionalNumber,
+  }),
+]);
+
+export const shareSchema = z.looseObject({
+  share: z.number(),
+});
+
+export const countryShareSchema = shareSchema.extend({
+  country: z.string(),
+});
+
+export const ageShareSchema = shareSchema.extend({
+  ageRange: z.string(),
+});
+
+export const genderSplitSchema = z.looseObject({
+  male: optionalNumber,
+  female: optionalNumber,
+});
+
+export const audienceSchema = z.looseObject({
+  audienceCountries: z.array(countryShareSchema).nullish(),
+  audienceGender: genderSplitSchema.nullish(),
+  audienceAges: z.array(ageShareSchema).nullish(),
+  audienceAvgAge: optionalNumber,
+});
+
+export const contactSchema = z.looseObject({
+  emails: z.array(z.string()).nullish(),
+  links: z.array(z.string()).nullish(),
+});
+
+export const sponsoredContentSchema = z.looseObject({
+  contentId: z.string(),
+  publishedAt: timestamp,
+  caption: optionalString,
+});
+
+export const sponsorSchema = z.looseObject({
+  brandName: z.string(),
+  brandId: optionalString,
+  contentCount: optionalNumber,
+  lastSponsoredAt: timestamp,
+  contents: z.array(sponsoredContentSchema).nullish(),
+});
+
+export const sponsorshipSchema = z.looseObject({
+  totalSponsoredContents: optionalNumber,
+  sponsoredContentRatio: optionalNumber,
+  sponsors: z.array(sponsorSchema).nullish(),
+});
+
+export const performanceSchema = z.looseObject({
+  avgEngagementRate: optionalNumber,
+  avgViews: optionalNumber,
+  avgLikes: optionalNumber,
+  avgComments: optionalNumber,
+  postsPerWeek: optionalNumber,
+});
+
+export const historyPointSchema = z.looseObject({
+  date: z.union([z.number(), z.string()]),
+  totalFollowers: optionalNumber,
+  totalSubscribers: optionalNumber,
+  avgEngagementRate: optionalNumber,
+  avgViews: optionalNumber,
+  avgLikes: optionalNumber,
+});
+
+export const performanceHistorySchema = z.looseObject({
+  history: z.array(historyPointSchema),
+});
+
+export const contentDetailSchema = z.looseObject({
+  contentId: z.string(),
+  publishedAt: timestamp,
+  caption: optionalString,
+  title: optionalString,
+  hashtags: z.array(hashtagSchema).nullish(),
+  views: optionalNumber,
+  likes: optionalNumber,
+  comments: optionalNumber,
+  isSponsored: optionalBoolean,
+});
+
+export const nicheSchema = z.looseObject({
+  niche: z.string(),
+  category: optionalString,
+  creatorCount: optionalNumber,
+});
+
+export const topicSchema = z.looseObject({
+  topic: z.string(),
+  creatorCount: optionalNumber,
+});
+
+export const usageSchema = z.looseObject({
+  totalRequests: optionalNumber,
+  quotaUsed: optionalNumber,
+  quotaRemaining: optionalNumber,
+  endpoints: z.array(z.looseObject({
+    endpoint: z.string(),
+    platform: optionalString,
+    requests: optionalNumber,
+    quotaUsed: optionalNumber,
+  })).nullish(),
+});
+
+const profileBaseSchema = z.looseObject({
+  displayName: optionalString,
+  avatarUrl: optionalString,
+  bio: optionalString,
+  country: optionalString,
+  mainLanguage: optionalString,
+  totalContents: optionalNumber,
+  isVerified: optionalBoolean,
+  hasSponsors: optionalBoolean,
+  niches: z.array(z.string()).nullish(),
+  hashtags: z.array(hashtagSchema).nullish(),
+  links: z.array(z.string()).nullish(),
+  lastUpdated: timestamp,
+});
+
+// =============================================================================
+// Instagram
+// =============================================================================
+
+export const instagramProfileSchema = profileBaseSchema.extend({
+  uniqueId: z.string(),
+  totalFollowers: optionalNumber,
+  totalFollowing: optionalNumber,
+  avgEngagementRate: optionalNumber,
+});
+
+export const instagramPerformanceSchema = performanceSchema.extend({
+  followerGrowthRate: optionalNumber,
+  consistencyScore: optionalNumber,
+});
+
+export const instagramCreatorSummarySchema = z.looseObject({
+  uniqueId: z.string(),
+  displayName: optionalString,
+  totalFollowers: optionalNumber,
+  avgEngagementRate: optionalNumber,
+  country: optionalString,
+  niches: z.array(z.string()).nullish(),
+});
+
+// =============================================================================
+// YouTube
+// =============================================================================
+
+export const youtubePricingSchema = z.looseObject({
+  currency: optionalString,
+  minPrice: optionalNumber,
+  maxPrice: optionalNumber,
+});
+
+export const youtubeProfileSchema = profileBaseSchema.extend({
+  channelId: z.string(),
+  totalSubscribers: optionalNumber,
+  totalViews: optionalNumber,
+  categories: z.array(z.string()).nullish(),
+  topics: z.array(z.string()).nullish(),
+  pricing: youtubePricingSchema.nullish(),
+  relatedCreators: z.array(z.string()).nullish(),
+});
+
+export const youtubePerformanceSchema = performanceSchema.extend({
+  avgShortsViews: optionalNumber,
+  uploadsPerWeek: optionalNumber,
+});
+
+export const youtubeCreatorSummarySchema = z.looseObject({
+  channelId: z.string(),
+  displayName: optionalString,
+  totalSubscribers: optionalNumber,
+  avgEngagementRate: optionalNumber,
+  country: optionalString,
+  niches: z.array(z.string()).nullish(),
+  topics: z.array(z.string()).nullish(),
+});
+
+// =============================================================================
+// TikTok
+// =============================================================================
+
+export const tiktokProfileSchema = profileBaseSchema.extend({
+  uniqueId: z.string(),
+  totalFollowers: optionalNumber,
+  totalFollowing: optionalNumber,
+  totalLikes: optionalNumber,
+  avgEngagementRate: optionalNumber,
+});
+
+export const tiktokPerformanceSchema = performanceSchema.extend({
+  avgShares: optionalNumber,
+});
+
+export const tiktokCreatorSummarySchema = z.looseObject({
+  uniqueId: z.string(),
+  displayName: optionalString,
+  totalFollowers: optionalNumber,
+  avgEngagementRate: optionalNumber,
+  country: optionalString,
+  niches: z.array(z.string()).nullish(),
+});
+
+// =============================================================================
+// Search
+// =============================================================================
+
+export function searchResultsSchema<T extends z.ZodType>(creator: T) {
+  return z.looseObject({
+    total: optionalNumber,
+    creators: z.array(creator),
+  });
+}
+
+export const instagramSearchResultsSchema = searchResultsSchema(instagramCreatorSummarySchema);
+export const youtubeSearchResultsSchema = searchResultsSchema(youtubeCreatorSummarySchema);
+export const tiktokSearchResultsSchema = searchResultsSchema(tiktokCreatorSummarySchema);
+
+// =============================================================================
+// Inferred Types
+// =============================================================================
+
+export type Audience = z.infer<typeof audienceSchema>;
+export type Contact = z.infer<typeof contactSchema>;
+export type Sponsorship = z.infer<typeof sponsorshipSchema>;
+export type Sponsor = z.infer<typeof sponsorSchema>;
+export type Performance = z.infer<typeof performanceSchema>;
+export type PerformanceHistory = z.infer<typeof performanceHistorySchema>;
+export type HistoryPoint = z.infer<typeof historyPointSchema>;
+export type ContentDetail = z.infer<typeof contentDetailSchema>;
+export type Niche = z.infer<typeof nicheSchema>;
+export type Topic = z.infer<typeof topicSchema>;
+export type Usage = z.infer<typeof usageSchema>;
+
+export type InstagramProfile = z.infer<typeof instagramProfileSchema>;
+export type InstagramPerformance = z.infer<typeof instagramPerformanceSchema>;
+export type InstagramCreatorSummary = z.infer<typeof instagramCreatorSummarySchema>;
+export type InstagramSearchResults = z.infer<typeof instagramSearchResultsSchema>;
+
+export type YouTubeProfile = z.infer<typeof youtubeProfileSchema>;
+export type YouTubePerformance = z.infer<typeof youtubePerformanceSchema>;
+export type YouTubeCreatorSummary = z.infer<typeof youtubeCreatorSummarySchema>;
+export type YouTubeSearchResults = z.infer<typeof youtubeSearchResultsSchema>;
+
+export type TikTokProfile = z.infer<typeof tiktokProfileSchema>;
+export type TikTokPerformance = z.infer<typeof tiktokPerformanceSchema>;
+export type TikTokCreatorSummary = z.infer<typeof tiktokCreatorSummarySchema>;
+export type TikTokSearchResults = z.infer<typeof tiktokSearchResultsSchema>;
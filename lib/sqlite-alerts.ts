@@ -0,0 +1,110 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { Alert, AlertFilter, AlertRuleType, AlertStore } from "./alerts.js";
+import type { Platform } from "./client.js";
+
+// =============================================================================
+// SQLite Alert Store - persists the monitoring alert history
+// =============================================================================
+
+interface AlertRow {
+  id: number;
+  rule_id: string;
+  type: AlertRuleType;
+  platform: Platform;
+  account_id: string;
+  message: string;
+  triggered_at: number;
+  snapshot_id: number;
+  details: string;
+  deliveries: string;
+}
+
+function toAlert(row: AlertRow): Alert {
+  return {
+    alertId: row.id,
+    ruleId: row.rule_id,
+    type: row.type,
+    platform: row.platform,
+    id: row.account_id,
+    message: row.message,
+    triggeredAt: new Date(row.triggered_at).toISOString(),
+    snapshotId: row.snapshot_id,
+    details: JSON.parse(row.details) as Alert["details"],
+    deliveries: JSON.parse(row.deliveries) as Alert["deliveries"],
+  };
+}
+
+export class SqliteAlertStore implements AlertStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        rule_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        platform TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        message TEXT NOT NULL,
+        triggered_at INTEGER NOT NULL,
+        snapshot_id INTEGER NOT NULL,
+        details TEXT NOT NULL,
+        deliveries TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS alerts_rule_account
+        ON alerts (rule_id, platform, account_id, triggered_at);
+    `);
+  }
+
+  async saveAlert(alert: Omit<Alert, "alertId">): Promise<Alert> {
+    const { lastInsertRowid } = this.db
+      .prepare(
+        `INSERT INTO alerts (rule_id, type, platform, account_id, message, triggered_at,
+           snapshot_id, details, deliveries)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        alert.ruleId,
+        alert.type,
+        alert.platform,
+        alert.id,
+        alert.message,
+        Date.parse(alert.triggeredAt),
+        alert.snapshotId,
+        JSON.stringify(alert.details),
+        JSON.stringify(alert.deliveries)
+      );
+    return { ...alert, alertId: Number(lastInsertRowid) };
+  }
+
+  async listAlerts(filter: AlertFilter): Promise<Alert[]> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    if (filter.ruleId) {
+      conditions.push("rule_id = ?");
+      params.push(filter.ruleId);
+    }
+    if (filter.platform) {
+      conditions.push("platform = ?");
+      params.push(filter.platform);
+    }
+    if (filter.id) {
+      conditions.push("account_id = ?");
+      params.push(filter.id);
+    }
+    if (filter.since) {
+      conditions.push("triggered_at >= ?");
+      params.push(Date.parse(filter.since));
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM alerts ${where} ORDER BY id DESC LIMIT ?`)
+      .all(...params, filter.limit) as AlertRow[];
+    return rows.map(toAlert);
+  }
+}
@@ -0,0 +1,71 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { CacheEntry, CacheStore } from "./cache.js";
+
+// =============================================================================
+// SQLite Cache Backend - persists cached responses across restarts
+// =============================================================================
+
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+export class SqliteCacheStore implements CacheStore {
+  private readonly db: Database.Database;
+  private lastPrunedAt = 0;
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cache (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        stored_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const row = this.db
+      .prepare("SELECT value, stored_at, expires_at FROM cache WHERE key = ?")
+      .get(key) as { value: string; stored_at: number; expires_at: number } | undefined;
+    if (!row) return undefined;
+
+    if (row.expires_at <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    return {
+      value: JSON.parse(row.value),
+      storedAt: row.stored_at,
+      expiresAt: row.expires_at,
+    };
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO cache (key, value, stored_at, expires_at) VALUES (?, ?, ?, ?)"
+      )
+      .run(key, JSON.stringify(entry.value), entry.storedAt, entry.expiresAt);
+    this.prune();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare("DELETE FROM cache WHERE key = ?").run(key);
+  }
+
+  async clear(): Promise<void> {
+    this.db.exec("DELETE FROM cache");
+  }
+
+  private prune() {
+    const now = Date.now();
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+    this.db.prepare("DELETE FROM cache WHERE expires_at <= ?").run(now);
+  }
+}
@@ -0,0 +1,174 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { Platform } from "./client.js";
+import type {
+  Campaign,
+  CampaignCreator,
+  CampaignStore,
+  CreatorSnapshot,
+  CreatorStatus,
+} from "./campaigns.js";
+import type { CreatorAccount } from "./identity.js";
+
+// =============================================================================
+// SQLite Campaign Store - persists campaigns and their shortlisted creators
+// =============================================================================
+
+interface CampaignRow {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface CreatorRow {
+  campaign_id: string;
+  platform: Platform;
+  account_id: string;
+  status: CreatorStatus;
+  notes: string | null;
+  tags: string;
+  snapshot: string | null;
+  added_at: number;
+  updated_at: number;
+}
+
+const toIso = (time: number) => new Date(time).toISOString();
+
+function toCampaign(row: CampaignRow): Campaign {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+function toCreator(row: CreatorRow): CampaignCreator {
+  return {
+    campaignId: row.campaign_id,
+    platform: row.platform,
+    id: row.account_id,
+    status: row.status,
+    notes: row.notes,
+    tags: JSON.parse(row.tags) as string[],
+    snapshot: row.snapshot ? (JSON.parse(row.snapshot) as CreatorSnapshot) : null,
+    addedAt: toIso(row.added_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+export class SqliteCampaignStore implements CampaignStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS campaigns (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS campaign_creators (
+        campaign_id TEXT NOT NULL REFERENCES campaigns (id) ON DELETE CASCADE,
+        platform TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        notes TEXT,
+        tags TEXT NOT NULL,
+        snapshot TEXT,
+        added_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (campaign_id, platform, account_id)
+      );
+    `);
+  }
+
+  async saveCampaign(campaign: Campaign): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO campaigns (id, name, description, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name,
+           description = excluded.description,
+           updated_at = excluded.updated_at`
+      )
+      .run(
+        campaign.id,
+        campaign.name,
+        campaign.description,
+        Date.parse(campaign.createdAt),
+        Date.parse(campaign.updatedAt)
+      );
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    const row = this.db.prepare("SELECT * FROM campaigns WHERE id = ?").get(id) as
+      | CampaignRow
+      | undefined;
+    return row && toCampaign(row);
+  }
+
+  async listCampaigns(): Promise<Campaign[]> {
+    const rows = this.db
+      .prepare("SELECT * FROM campaigns ORDER BY created_at DESC")
+      .all() as CampaignRow[];
+    return rows.map(toCampaign);
+  }
+
+  async deleteCampaign(id: string): Promise<boolean> {
+    return this.db.prepare("DELETE FROM campaigns WHERE id = ?").run(id).changes > 0;
+  }
+
+  async listCreators(campaignId: string): Promise<CampaignCreator[]> {
+    const rows = this.db
+      .prepare("SELECT * FROM campaign_creators WHERE campaign_id = ? ORDER BY added_at, rowid")
+      .all(campaignId) as CreatorRow[];
+    return rows.map(toCreator);
+  }
+
+  async saveCreator(creator: CampaignCreator): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO campaign_creators
+           (campaign_id, platform, account_id, status, notes, tags, snapshot, added_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (campaign_id, platform, account_id) DO UPDATE SET
+           status = excluded.status,
+           notes = excluded.notes,
+           tags = excluded.tags,
+           snapshot = excluded.snapshot,
+           updated_at = excluded.updated_at`
+      )
+      .run(
+        creator.campaignId,
+        creator.platform,
+        creator.id,
+        creator.status,
+        creator.notes,
+        JSON.stringify(creator.tags),
+        creator.snapshot ? JSON.stringify(creator.snapshot) : null,
+        Date.parse(creator.addedAt),
+        Date.parse(creator.updatedAt)
+      );
+  }
+
+  async removeCreator(campaignId: string, account: CreatorAccount): Promise<boolean> {
+    return (
+      this.db
+        .prepare(
+          "DELETE FROM campaign_creators WHERE campaign_id = ? AND platform = ? AND account_id = ?"
+        )
+        .run(campaignId, account.platform, account.id).changes > 0
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { Platform } from "./client.js";
+import type { CreatorAccount, IdentityStore } from "./identity.js";
+
+// =============================================================================
+// SQLite Identity Store - persists confirmed cross-platform mappings
+// =============================================================================
+
+export class SqliteIdentityStore implements IdentityStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS identity_accounts (
+        platform TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        identity_id TEXT NOT NULL,
+        confirmed_at INTEGER NOT NULL,
+        PRIMARY KEY (platform, account_id)
+      );
+      CREATE INDEX IF NOT EXISTS identity_accounts_identity
+        ON identity_accounts (identity_id);
+    `);
+  }
+
+  async get(account: CreatorAccount): Promise<CreatorAccount[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT other.platform, other.account_id
+         FROM identity_accounts AS self
+         JOIN identity_accounts AS other ON other.identity_id = self.identity_id
+         WHERE self.platform = ? AND self.account_id = ?
+           AND NOT (other.platform = self.platform AND other.account_id = self.account_id)
+         ORDER BY other.confirmed_at`
+      )
+      .all(account.platform, account.id) as Array<{ platform: Platform; account_id: string }>;
+    return rows.map((row) => ({ platform: row.platform, id: row.account_id }));
+  }
+
+  async link(accounts: CreatorAccount[]): Promise<void> {
+    const findIdentity = this.db.prepare(
+      "SELECT identity_id FROM identity_accounts WHERE platform = ? AND account_id = ?"
+    );
+    const mergeIdentity = this.db.prepare(
+      "UPDATE identity_accounts SET identity_id = ? WHERE identity_id = ?"
+    );
+    const insertAccount = this.db.prepare(
+      `INSERT OR IGNORE INTO identity_accounts (platform, account_id, identity_id, confirmed_at)
+       VALUES (?, ?, ?, ?)`
+    );
+
+    this.db.transaction(() => {
+      const existing = accounts
+        .map((account) => findIdentity.get(account.platform, account.id) as
+          | { identity_id: string }
+          | undefined)
+        .filter((row) => row !== undefined)
+        .map((row) => row.identity_id);
+
+      const identityId = existing[0] ?? randomUUID();
+      for (const other of new Set(existing)) {
+        if (other !== identityId) mergeIdentity.run(identityId, other);
+      }
+      const now = Date.now();
+      for (const account of accounts) {
+        insertAccount.run(account.platform, account.id, identityId, now);
+      }
+    })();
+  }
+}
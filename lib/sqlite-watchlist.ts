@@ -0,0 +1,143 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { Platform } from "./client.js";
+import type { CreatorAccount } from "./identity.js";
+import type { WatchedCreator, WatchlistSnapshot, WatchlistStore } from "./watchlist.js";
+
+// =============================================================================
+// SQLite Watchlist Store - persists watched creators and their snapshots
+// =============================================================================
+
+interface WatchedRow {
+  platform: Platform;
+  account_id: string;
+  added_at: number;
+  snapshot_count: number;
+  last_snapshot_at: number | null;
+}
+
+interface SnapshotRow {
+  id: number;
+  platform: Platform;
+  account_id: string;
+  taken_at: number;
+  profile: string | null;
+  performance: string | null;
+  sponsorship: string | null;
+  errors: string;
+}
+
+const toIso = (time: number) => new Date(time).toISOString();
+const toJson = (value: unknown) => (value == null ? null : JSON.stringify(value));
+const fromJson = (value: string | null): unknown => (value === null ? null : JSON.parse(value));
+
+function toSnapshot(row: SnapshotRow): WatchlistSnapshot {
+  return {
+    snapshotId: row.id,
+    platform: row.platform,
+    id: row.account_id,
+    takenAt: toIso(row.taken_at),
+    profile: fromJson(row.profile),
+    performance: fromJson(row.performance),
+    sponsorship: fromJson(row.sponsorship),
+    errors: JSON.parse(row.errors) as WatchlistSnapshot["errors"],
+  };
+}
+
+export class SqliteWatchlistStore implements WatchlistStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS watched_creators (
+        platform TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        added_at INTEGER NOT NULL,
+        PRIMARY KEY (platform, account_id)
+      );
+      CREATE TABLE IF NOT EXISTS creator_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        platform TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        taken_at INTEGER NOT NULL,
+        profile TEXT,
+        performance TEXT,
+        sponsorship TEXT,
+        errors TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS creator_snapshots_account
+        ON creator_snapshots (platform, account_id, id);
+    `);
+  }
+
+  async watch(accounts: CreatorAccount[], addedAt: string): Promise<CreatorAccount[]> {
+    const insert = this.db.prepare(
+      `INSERT INTO watched_creators (platform, account_id, added_at) VALUES (?, ?, ?)
+       ON CONFLICT (platform, account_id) DO NOTHING`
+    );
+    return this.db.transaction(() =>
+      accounts.filter(
+        (account) => insert.run(account.platform, account.id, Date.parse(addedAt)).changes > 0
+      )
+    )();
+  }
+
+  async unwatch(account: CreatorAccount): Promise<boolean> {
+    return (
+      this.db
+        .prepare("DELETE FROM watched_creators WHERE platform = ? AND account_id = ?")
+        .run(account.platform, account.id).changes > 0
+    );
+  }
+
+  async list(): Promise<WatchedCreator[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT w.platform, w.account_id, w.added_at,
+           COUNT(s.id) AS snapshot_count, MAX(s.taken_at) AS last_snapshot_at
+         FROM watched_creators w
+         LEFT JOIN creator_snapshots s
+           ON s.platform = w.platform AND s.account_id = w.account_id
+         GROUP BY w.platform, w.account_id
+         ORDER BY w.added_at, w.rowid`
+      )
+      .all() as WatchedRow[];
+    return rows.map((row) => ({
+      platform: row.platform,
+      id: row.account_id,
+      addedAt: toIso(row.added_at),
+      snapshotCount: row.snapshot_count,
+      lastSnapshotAt: row.last_snapshot_at === null ? null : toIso(row.last_snapshot_at),
+    }));
+  }
+
+  async saveSnapshot(snapshot: Omit<WatchlistSnapshot, "snapshotId">): Promise<WatchlistSnapshot> {
+    const { lastInsertRowid } = this.db
+      .prepare(
+        `INSERT INTO creator_snapshots
+           (platform, account_id, taken_at, profile, performance, sponsorship, errors)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        snapshot.platform,
+        snapshot.id,
+        Date.parse(snapshot.takenAt),
+        toJson(snapshot.profile),
+        toJson(snapshot.performance),
+        toJson(snapshot.sponsorship),
+        JSON.stringify(snapshot.errors)
+      );
+    return { ...snapshot, snapshotId: Number(lastInsertRowid) };
+  }
+
+  async listSnapshots(account: CreatorAccount): Promise<WatchlistSnapshot[]> {
+    const rows = this.db
+      .prepare("SELECT * FROM creator_snapshots WHERE platform = ? AND account_id = ? ORDER BY id")
+      .all(account.platform, account.id) as SnapshotRow[];
+    return rows.map(toSnapshot);
+  }
+}
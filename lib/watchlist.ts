@@ -0,0 +1,508 @@
+import { toTimestamp } from "./analytics.js";
+import { mapWithConcurrency } from "./bulk.js";
+import { ApiError, CallOptions, CreatorDBClient } from "./client.js";
+import { CreatorAccount, accountKey, parseCreatorAccounts, toCreatorAccount } from "./identity.js";
+import { ReportSection, ReportSectionError, getCreatorReport, toSectionError } from "./report.js";
+
+// =============================================================================
+// Watchlist - timestamped creator snapshots and what changed between them
+// =============================================================================
+
+export const MAX_WATCH_CREATORS_PER_CALL = 100;
+const SNAPSHOT_CONCURRENCY = 5;
+
+export interface WatchedCreator extends CreatorAccount {
+  addedAt: string;
+  snapshotCount: number;
+  lastSnapshotAt: string | null;
+}
+
+export interface WatchlistSnapshot extends CreatorAccount {
+  snapshotId: number;
+  takenAt: string;
+  /** Upstream `data` payloads; null when the section failed or doesn't exist on the platform */
+  profile: unknown;
+  performance: unknown;
+  sponsorship: unknown;
+  errors: Partial<Record<ReportSection, ReportSectionError>>;
+}
+
+// =============================================================================
+// Watchlist Store
+// =============================================================================
+
+export interface WatchlistStore {
+  /** Adds creators that aren't watched yet; returns the ones that were added. */
+  watch(accounts: CreatorAccount[], addedAt: string): Promise<CreatorAccount[]>;
+  /** Stops watching; snapshots are kept. False when the creator wasn't watched. */
+  unwatch(account: CreatorAccount): Promise<boolean>;
+  /** Watched creators in the order they were added */
+  list(): Promise<WatchedCreator[]>;
+  saveSnapshot(snapshot: Omit<WatchlistSnapshot, "snapshotId">): Promise<WatchlistSnapshot>;
+  /** A creator's snapshots, oldest first */
+  listSnapshots(account: CreatorAccount): Promise<WatchlistSnapshot[]>;
+}
+
+export class MemoryWatchlistStore implements WatchlistStore {
+  private readonly watched = new Map<string, { account: CreatorAccount; addedAt: string }>();
+  private readonly snapshots: WatchlistSnapshot[] = [];
+
+  async watch(accounts: CreatorAccount[], addedAt: string): Promise<CreatorAccount[]> {
+    const added = accounts.filter((account) => !this.watched.has(accountKey(account)));
+    for (const account of added) this.watched.set(accountKey(account), { account, addedAt });
+    return added;
+  }
+
+  async unwatch(account: CreatorAccount): Promise<boolean> {
+    return this.watched.delete(accountKey(account));
+  }
+
+  async list(): Promise<WatchedCreator[]> {
+    return [...this.watched.values()].map(({ account, addedAt }) => {
+      const snapshots = this.snapshots.filter(
+        (snapshot) => accountKey(snapshot) === accountKey(account)
+      );
+      return {
+        ...account,
+        addedAt,
+        snapshotCount: snapshots.length,
+        lastSnapshotAt: snapshots[snapshots.length - 1]?.takenAt ?? null,
+      };
+    });
+  }
+
+  async saveSnapshot(snapshot: Omit<WatchlistSnapshot, "snapshotId">): Promise<WatchlistSnapshot> {
+    const saved = { ...snapshot, snapshotId: this.snapshots.length + 1 };
+    this.snapshots.push(saved);
+    return saved;
+  }
+
+  async listSnapshots(account: CreatorAccount): Promise<WatchlistSnapshot[]> {
+    return this.snapshots.filter((snapshot) => accountKey(snapshot) === accountKey(account));
+  }
+}
+
+/**
+ * Builds the watchlist store from CREATORDB_WATCHLIST_STORE ("sqlite" or
+ * "memory", default `defaultBackend`). The SQLite file lives at
+ * CREATORDB_WATCHLIST_PATH (default data/watchlist.sqlite).
+ */
+export async function createWatchlistStoreFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  defaultBackend: "memory" | "sqlite" = "sqlite"
+): Promise<WatchlistStore> {
+  const backend = env.CREATORDB_WATCHLIST_STORE ?? defaultBackend;
+
+  switch (backend) {
+    case "memory":
+      return new MemoryWatchlistStore();
+    case "sqlite": {
+      const { SqliteWatchlistStore } = await import("./sqlite-watchlist.js");
+      return new SqliteWatchlistStore(env.CREATORDB_WATCHLIST_PATH ?? "data/watchlist.sqlite");
+    }
+    default:
+      throw new Error(`Unknown CREATORDB_WATCHLIST_STORE backend: ${backend}`);
+  }
+}
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+export interface MetricChange {
+  metric: SnapshotMetric;
+  from: number | null;
+  to: number | null;
+  change: number | null;
+  /** change / from; null when either side is unknown or from is 0 */
+  relativeChange: number | null;
+}
+
+export interface SponsorChange {
+  brandName: string;
+  contentCountFrom: number | null;
+  contentCountTo: number | null;
+  lastSponsoredAt: string | null;
+}
+
+export interface SnapshotDiff extends CreatorAccount {
+  from: { snapshotId: number; takenAt: string };
+  to: { snapshotId: number; takenAt: string };
+  days: number;
+  metrics: MetricChange[];
+  niches: { added: string[]; removed: string[] };
+  /** Display name and handle changes */
+  renames: Array<{ field: string; from: string | null; to: string | null }>;
+  sponsorships: {
+    /** False when either snapshot has no sponsorship data (always on TikTok) */
+    available: boolean;
+    newBrands: SponsorChange[];
+    /** Known sponsors with more sponsored posts or a later sponsorship date */
+    renewed: SponsorChange[];
+  };
+  /** One line per change, for reading at a glance */
+  summary: string[];
+}
+
+export const SNAPSHOT_METRICS = [
+  "followers",
+  "avgEngagementRate",
+  "avgViews",
+  "avgLikes",
+  "avgComments",
+  "postsPerWeek",
+  "sponsoredContentRatio",
+] as const;
+
+export type SnapshotMetric = (typeof SNAPSHOT_METRICS)[number];
+
+const METRIC_READERS: Record<
+  SnapshotMetric,
+  { label: string; read: (snapshot: WatchlistSnapshot) => unknown }
+> = {
+  followers: {
+    label: "Followers",
+    read: (s) => record(s.profile).totalFollowers ?? record(s.profile).totalSubscribers,
+  },
+  avgEngagementRate: {
+    label: "Engagement rate",
+    read: (s) => record(s.performance).avgEngagementRate ?? record(s.profile).avgEngagementRate,
+  },
+  avgViews: { label: "Average views", read: (s) => record(s.performance).avgViews },
+  avgLikes: { label: "Average likes", read: (s) => record(s.performance).avgLikes },
+  avgComments: { label: "Average comments", read: (s) => record(s.performance).avgComments },
+  postsPerWeek: { label: "Posts per week", read: (s) => record(s.performance).postsPerWeek },
+  sponsoredContentRatio: {
+    label: "Sponsored content ratio",
+    read: (s) => record(s.sponsorship).sponsoredContentRatio,
+  },
+};
+
+/** Reads one metric from a snapshot's stored payloads; null when it's missing. */
+export function snapshotMetric(snapshot: WatchlistSnapshot, metric: SnapshotMetric): number | null {
+  return numberOrNull(METRIC_READERS[metric].read(snapshot));
+}
+
+/** Profile fields compared as renames; YouTube handles may come as handle or customUrl */
+const RENAME_FIELDS = ["displayName", "uniqueId", "handle", "customUrl"];
+
+function record(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function round(value: number, decimals: number): number {
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
+
+function formatNumber(value: number): string {
+  return Math.abs(value) < 1 ? String(Number(value.toFixed(4))) : value.toLocaleString("en-US");
+}
+
+function isoDate(value: unknown): string | null {
+  const time = toTimestamp(value);
+  return time === null ? null : new Date(time).toISOString().slice(0, 10);
+}
+
+function sponsors(sponsorship: unknown): Map<string, SponsorChange> {
+  const entries = new Map<string, SponsorChange>();
+  const list = record(sponsorship).sponsors;
+  if (!Array.isArray(list)) return entries;
+  for (const sponsor of list.map(record)) {
+    const brandName = stringOrNull(sponsor.brandName);
+    if (!brandName) continue;
+    entries.set(brandName.toLowerCase(), {
+      brandName,
+      contentCountFrom: null,
+      contentCountTo: numberOrNull(sponsor.contentCount),
+      lastSponsoredAt: isoDate(sponsor.lastSponsoredAt),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Compares two snapshots of the same creator: metric changes, niches added
+ * and removed, display name and handle renames, and sponsors that are new or
+ * have new sponsored posts.
+ */
+export function diffSnapshots(from: WatchlistSnapshot, to: WatchlistSnapshot): SnapshotDiff {
+  const summary: string[] = [];
+
+  const metrics = SNAPSHOT_METRICS.flatMap((metric): MetricChange[] => {
+    const { label } = METRIC_READERS[metric];
+    const before = snapshotMetric(from, metric);
+    const after = snapshotMetric(to, metric);
+    if (before === null && after === null) return [];
+    const change = before !== null && after !== null ? round(after - before, 6) : null;
+    const relativeChange = change !== null && before ? round(change / before, 4) : null;
+    if (change !== 0) {
+      const relative =
+        relativeChange === null
+          ? ""
+          : ` (${relativeChange >= 0 ? "+" : ""}${Math.round(relativeChange * 1000) / 10}%)`;
+      const show = (value: number | null) => (value === null ? "unknown" : formatNumber(value));
+      summary.push(`${label} ${show(before)} → ${show(after)}${relative}`);
+    }
+    return [{ metric, from: before, to: after, change, relativeChange }];
+  });
+
+  const nichesOf = (snapshot: WatchlistSnapshot) => {
+    const niches = record(snapshot.profile).niches;
+    return new Set(Array.isArray(niches) ? niches.map(String) : []);
+  };
+  const nichesBefore = nichesOf(from);
+  const nichesAfter = nichesOf(to);
+  const niches = {
+    added: [...nichesAfter].filter((niche) => !nichesBefore.has(niche)),
+    removed: [...nichesBefore].filter((niche) => !nichesAfter.has(niche)),
+  };
+  if (niches.added.length > 0) summary.push(`Niches added: ${niches.added.join(", ")}`);
+  if (niches.removed.length > 0) summary.push(`Niches removed: ${niches.removed.join(", ")}`);
+
+  const renames = RENAME_FIELDS.flatMap((field) => {
+    const before = stringOrNull(record(from.profile)[field]);
+    const after = stringOrNull(record(to.profile)[field]);
+    if (before === after || before === null || after === null) return [];
+    summary.push(`${field} changed from "${before}" to "${after}"`);
+    return [{ field, from: before, to: after }];
+  });
+
+  const available = from.sponsorship != null && to.sponsorship != null;
+  const newBrands: SponsorChange[] = [];
+  const renewed: SponsorChange[] = [];
+  if (available) {
+    const before = sponsors(from.sponsorship);
+    for (const [key, sponsor] of sponsors(to.sponsorship)) {
+      const previous = before.get(key);
+      if (!previous) {
+        newBrands.push(sponsor);
+        summary.push(
+          `New sponsor: ${sponsor.brandName}` +
+            (sponsor.lastSponsoredAt ? ` (last sponsored ${sponsor.lastSponsoredAt})` : "")
+        );
+        continue;
+      }
+      const morePosts =
+        sponsor.contentCountTo !== null &&
+        previous.contentCountTo !== null &&
+        sponsor.contentCountTo > previous.contentCountTo;
+      const later =
+        sponsor.lastSponsoredAt !== null &&
+        (previous.lastSponsoredAt === null || sponsor.lastSponsoredAt > previous.lastSponsoredAt);
+      if (morePosts || later) {
+        renewed.push({ ...sponsor, contentCountFrom: previous.contentCountTo });
+        summary.push(`New sponsored content for ${sponsor.brandName}`);
+      }
+    }
+  }
+
+  return {
+    platform: to.platform,
+    id: to.id,
+    from: { snapshotId: from.snapshotId, takenAt: from.takenAt },
+    to: { snapshotId: to.snapshotId, takenAt: to.takenAt },
+    days: Math.round(((Date.parse(to.takenAt) - Date.parse(from.takenAt)) / 86_400_000) * 10) / 10,
+    metrics,
+    niches,
+    renames,
+    sponsorships: { available, newBrands, renewed },
+    summary,
+  };
+}
+
+// =============================================================================
+// Watchlist Operations
+// =============================================================================
+
+export interface SnapshotRunResult extends CreatorAccount {
+  snapshotId: number | null;
+  takenAt: string | null;
+  /** Changes since the creator's previous snapshot, when there is one */
+  changes: string[] | null;
+  error?: ReportSectionError;
+}
+
+async function takeSnapshot(
+  client: CreatorDBClient,
+  store: WatchlistStore,
+  account: CreatorAccount,
+  options: CallOptions
+): Promise<SnapshotRunResult> {
+  try {
+    const { platform, id } = account;
+    const sections: ReportSection[] = ["profile", "performance", "sponsorship"];
+    // A cached response would make the snapshot a copy of an older one
+    const report = await getCreatorReport(client, platform, id, sections, {
+      ...options,
+      cache: options.cache ?? "refresh",
+    });
+    const previous = (await store.listSnapshots(account)).pop();
+    const snapshot = await store.saveSnapshot({
+      platform,
+      id,
+      takenAt: report.generatedAt,
+      profile: report.sections.profile ?? null,
+      performance: report.sections.performance ?? null,
+      sponsorship: report.sections.sponsorship ?? null,
+      errors: report.errors,
+    });
+    return {
+      ...account,
+      snapshotId: snapshot.snapshotId,
+      takenAt: snapshot.takenAt,
+      changes: previous ? diffSnapshots(previous, snapshot).summary : null,
+    };
+  } catch (error) {
+    const failure = toSectionError(error);
+    return { ...account, snapshotId: null, takenAt: null, changes: null, error: failure };
+  }
+}
+
+/**
+ * Snapshots every watched creator, or only `creators` when given (they must
+ * be on the watchlist). Each result lists what changed since the creator's
+ * previous snapshot; a failed lookup is reported without stopping the run.
+ */
+export async function runWatchlistSnapshots(
+  client: CreatorDBClient,
+  store: WatchlistStore,
+  input: Record<string, unknown> = {},
+  options: CallOptions = {}
+): Promise<SnapshotRunResult[]> {
+  const watched = await store.list();
+  let accounts: CreatorAccount[] = watched;
+  if (input.creators !== undefined) {
+    accounts = parseCreatorAccounts(input.creators, 1, MAX_WATCH_CREATORS_PER_CALL);
+    const keys = new Set(watched.map(accountKey));
+    const unknown = accounts.filter((account) => !keys.has(accountKey(account)));
+    if (unknown.length > 0) {
+      throw new ApiError(`Not on the watchlist: ${unknown.map(accountKey).join(", ")}`, 404);
+    }
+  }
+  return snapshotCreators(client, store, accounts, options);
+}
+
+/** Snapshots the given creators, whether or not they are on the watchlist. */
+export async function snapshotCreators(
+  client: CreatorDBClient,
+  store: WatchlistStore,
+  accounts: CreatorAccount[],
+  options: CallOptions = {}
+): Promise<SnapshotRunResult[]> {
+  return mapWithConcurrency(
+    accounts.map(({ platform, id }) => ({ platform, id })),
+    SNAPSHOT_CONCURRENCY,
+    (account) => takeSnapshot(client, store, account, options)
+  );
+}
+
+/**
+ * Adds creators to the watchlist and, unless `snapshot` is false, takes a
+ * baseline snapshot of the newly added ones.
+ */
+export async function watchCreators(
+  client: CreatorDBClient,
+  store: WatchlistStore,
+  input: Record<string, unknown>,
+  options: CallOptions = {}
+) {
+  const accounts = parseCreatorAccounts(input.creators, 1, MAX_WATCH_CREATORS_PER_CALL);
+  const added = await store.watch(accounts, new Date().toISOString());
+  const addedKeys = new Set(added.map(accountKey));
+  const snapshots =
+    input.snapshot === false || added.length === 0
+      ? []
+      : await runWatchlistSnapshots(client, store, { creators: added }, options);
+  return {
+    added,
+    alreadyWatched: accounts.filter((account) => !addedKeys.has(accountKey(account))),
+    snapshots,
+  };
+}
+
+export async function unwatchCreators(store: WatchlistStore, input: Record<string, unknown>) {
+  const accounts = parseCreatorAccounts(input.creators, 1, MAX_WATCH_CREATORS_PER_CALL);
+  const removed: CreatorAccount[] = [];
+  const notWatched: CreatorAccount[] = [];
+  for (const account of accounts) {
+    ((await store.unwatch(account)) ? removed : notWatched).push(account);
+  }
+  return { removed, notWatched };
+}
+
+/** Lists a creator's snapshots, oldest first, with their headline numbers. */
+export async function listCreatorSnapshots(store: WatchlistStore, platform: unknown, id: unknown) {
+  const account = toCreatorAccount(platform, id);
+  const snapshots = await store.listSnapshots(account);
+  return snapshots.map((snapshot) => ({
+    snapshotId: snapshot.snapshotId,
+    takenAt: snapshot.takenAt,
+    displayName: stringOrNull(record(snapshot.profile).displayName),
+    followers: snapshotMetric(snapshot, "followers"),
+    avgEngagementRate: snapshotMetric(snapshot, "avgEngagementRate"),
+    errors: snapshot.errors,
+  }));
+}
+
+// A snapshot ID, or a date picking the last snapshot taken on or before it
+function pickSnapshot(
+  snapshots: WatchlistSnapshot[],
+  value: unknown,
+  name: string
+): WatchlistSnapshot {
+  const asNumber = typeof value === "number" ? value : Number(value);
+  if (Number.isInteger(asNumber) && asNumber > 0 && !/[-:]/.test(String(value))) {
+    const snapshot = snapshots.find((candidate) => candidate.snapshotId === asNumber);
+    if (!snapshot)
+      throw new ApiError(`${name}: snapshot ${asNumber} not found for this creator`, 404);
+    return snapshot;
+  }
+  const time = typeof value === "string" ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    throw new ApiError(`${name} must be a snapshot ID or an ISO date`, 400);
+  }
+  const snapshot = snapshots.filter((candidate) => Date.parse(candidate.takenAt) <= time).pop();
+  if (!snapshot) throw new ApiError(`${name}: no snapshot taken on or before ${value}`, 404);
+  return snapshot;
+}
+
+/**
+ * Diffs two of a creator's snapshots. `from` and `to` are snapshot IDs or
+ * dates; by default the latest snapshot is compared with the one before it.
+ */
+export async function diffCreatorSnapshots(
+  store: WatchlistStore,
+  input: Record<string, unknown>
+): Promise<SnapshotDiff> {
+  const account = toCreatorAccount(input.platform, input.id);
+  const snapshots = await store.listSnapshots(account);
+  if (snapshots.length === 0) {
+    throw new ApiError(`No snapshots stored for ${accountKey(account)}`, 404);
+  }
+
+  const to =
+    input.to === undefined || input.to === null || input.to === ""
+      ? snapshots[snapshots.length - 1]
+      : pickSnapshot(snapshots, input.to, "to");
+  let from: WatchlistSnapshot | undefined;
+  if (input.from === undefined || input.from === null || input.from === "") {
+    from = snapshots.filter((snapshot) => snapshot.snapshotId < to.snapshotId).pop();
+    if (!from) {
+      throw new ApiError(
+        `Only one snapshot of ${accountKey(account)} up to ${to.takenAt}; take another to diff`,
+        400
+      );
+    }
+  } else {
+    from = pickSnapshot(snapshots, input.from, "from");
+  }
+  return diffSnapshots(from, to);
+}
@@ -0,0 +1,164 @@
+// =============================================================================
+// Regenerates the response schemas in openapi.json from lib/schemas.ts
+// =============================================================================
+//
+// Usage: npm run openapi
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { z } from "zod";
+import {
+  apiResponseSchema,
+  audienceSchema,
+  contactSchema,
+  contentDetailSchema,
+  instagramPerformanceSchema,
+  instagramProfileSchema,
+  instagramSearchResultsSchema,
+  nicheSchema,
+  performanceHistorySchema,
+  sponsorshipSchema,
+  tiktokPerformanceSchema,
+  tiktokProfileSchema,
+  tiktokSearchResultsSchema,
+  topicSchema,
+  usageSchema,
+  youtubePerformanceSchema,
+  youtubeProfileSchema,
+  youtubeSearchResultsSchema,
+} from "../lib/schemas.js";
+
+const SPEC_PATH = new URL("../openapi.json", import.meta.url);
+
+const components: Record<string, z.ZodType> = {
+  Usage: usageSchema,
+  Audience: audienceSchema,
+  Contact: contactSchema,
+  ContentDetail: contentDetailSchema,
+  PerformanceHistory: performanceHistorySchema,
+  Sponsorship: sponsorshipSchema,
+  NicheList: z.array(nicheSchema),
+  TopicList: z.array(topicSchema),
+  InstagramProfile: instagramProfileSchema,
+  InstagramPerformance: instagramPerformanceSchema,
+  InstagramSearchResults: instagramSearchResultsSchema,
+  YouTubeProfile: youtubeProfileSchema,
+  YouTubePerformance: youtubePerformanceSchema,
+  YouTubeSearchResults: youtubeSearchResultsSchema,
+  TikTokProfile: tiktokProfileSchema,
+  TikTokPerformance: tiktokPerformanceSchema,
+  TikTokSearchResults: tiktokSearchResultsSchema,
+};
+
+const responses: Record<string, keyof typeof components> = {
+  "/api/usage": "Usage",
+  "/api/instagram/profile": "InstagramProfile",
+  "/api/instagram/contact": "Contact",
+  "/api/instagram/content-detail": "ContentDetail",
+  "/api/instagram/performance": "InstagramPerformance",
+  "/api/instagram/performance-history": "PerformanceHistory",
+  "/api/instagram/sponsorship": "Sponsorship",
+  "/api/instagram/audience": "Audience",
+  "/api/instagram/search": "InstagramSearchResults",
+  "/api/instagram/natural-language-search": "InstagramSearchResults",
+  "/api/instagram/niches": "NicheList",
+  "/api/youtube/profile": "YouTubeProfile",
+  "/api/youtube/search": "YouTubeSearchResults",
+  "/api/youtube/performance": "YouTubePerformance",
+  "/api/youtube/performance-history": "PerformanceHistory",
+  "/api/youtube/content-detail": "ContentDetail",
+  "/api/youtube/sponsorship": "Sponsorship",
+  "/api/youtube/contact": "Contact",
+  "/api/youtube/audience": "Audience",
+  "/api/youtube/natural-language-search": "YouTubeSearchResults",
+  "/api/youtube/topics": "TopicList",
+  "/api/youtube/niches": "NicheList",
+  "/api/tiktok/profile": "TikTokProfile",
+  "/api/tiktok/search": "TikTokSearchResults",
+  "/api/tiktok/contact": "Contact",
+  "/api/tiktok/performance": "TikTokPerformance",
+  "/api/tiktok/performance-history": "PerformanceHistory",
+  "/api/tiktok/content-detail": "ContentDetail",
+  "/api/tiktok/audience": "Audience",
+  "/api/tiktok/natural-language-search": "TikTokSearchResults",
+  "/api/tiktok/niches": "NicheList",
+};
+
+function toJsonSchema(schema: z.ZodType): Record<string, unknown> {
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema, { io: "output" });
+  return jsonSchema;
+}
+
+const spec = JSON.parse(readFileSync(SPEC_PATH, "utf8"));
+
+spec.components ??= {};
+spec.components.schemas ??= {};
+spec.components.schemas.Error = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", const: false },
+    error: { type: "string" },
+    code: { type: "string", description: "Machine-readable error code, e.g. 'budget_exceeded'" },
+    details: { type: "object", description: "Structured error details" },
+  },
+  required: ["success", "error"],
+};
+for (const [name, schema] of Object.entries(components)) {
+  const envelope = toJsonSchema(apiResponseSchema(z.any()));
+  const properties = envelope.properties as Record<string, unknown>;
+  properties.data = { $ref: `#/components/schemas/${name}Data` };
+  properties.warnings = {
+    type: "array",
+    items: { type: "string" },
+    description: "Schema mismatches found in the upstream payload, if any.",
+  };
+  properties.cache = {
+    type: "object",
+    description: "Response cache metadata, present when caching is enabled.",
+    properties: {
+      status: { type: "string", enum: ["hit", "miss", "bypass", "refresh"] },
+      storedAt: { type: "number", description: "Unix timestamp (ms) the response was cached" },
+      expiresAt: { type: "number", description: "Unix timestamp (ms) the cached copy expires" },
+    },
+    required: ["status"],
+  };
+  if (name.endsWith("SearchResults")) {
+    properties.pagination = {
+      type: "object",
+      description: "Present when autoPaginate is true.",
+      properties: {
+        pagesFetched: { type: "integer" },
+        quotaConsumed: { type: "integer", description: "Pages billed upstream (cache hits are free)" },
+        returned: { type: "integer" },
+        duplicatesRemoved: { type: "integer" },
+        exhausted: { type: "boolean", description: "True when the end of the results was reached" },
+        nextOffset: { type: ["integer", "null"], description: "Offset to continue from" },
+      },
+    };
+  }
+  spec.components.schemas[`${name}Data`] = toJsonSchema(schema);
+  spec.components.schemas[name] = envelope;
+}
+
+for (const [path, name] of Object.entries(responses)) {
+  const operations = spec.paths[path];
+  if (!operations) {
+    throw new Error(`openapi.json has no path ${path}`);
+  }
+  for (const operation of Object.values(operations) as Array<Record<string, any>>) {
+    const description = operation.responses?.["200"]?.description ?? "Success";
+    operation.responses = {
+      ...operation.responses,
+      "200": {
+        description,
+        content: { "application/json": { schema: { $ref: `#/components/schemas/${name}` } } },
+      },
+      default: {
+        description: "Error",
+        content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+      },
+    };
+  }
+}
+
+writeFileSync(SPEC_PATH, `${JSON.stringify(spec, null, 2)}\n`);
+console.log(`Updated ${Object.keys(responses).length} response schemas in openapi.json`);
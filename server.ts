@@ -1,428 +1,114 @@
 import express, { Request, Response } from "express";
 import cors from "cors";
+import { ApiError, CreatorDBClient } from "./lib/client.js";
+import { createAlertStoreFromEnv, parseAlertFilter } from "./lib/alerts.js";
+import { createApiRouter, jsonRoute } from "./lib/api-router.js";
+import {
+  captureRawBody,
+  corsOriginsFromEnv,
+  createAuthMiddleware,
+  loadAuthConfig,
+} from "./lib/auth.js";
+import { createCampaignStoreFromEnv } from "./lib/campaigns.js";
+import { createWatchlistStoreFromEnv } from "./lib/watchlist.js";
+import { createCacheStoreFromEnv } from "./lib/cache.js";
+import { createBudgetGuardFromEnv } from "./lib/budget.js";
+import { createIdentityStoreFromEnv } from "./lib/identity.js";
+import { Monitor, MonitorStatus, loadMonitorConfig } from "./lib/monitor.js";
+import {
+  createAuthFailureLimiter,
+  createConcurrencyLimiter,
+  createRateLimitMiddleware,
+  createRateLimitStoreFromEnv,
+  loadRateLimitConfig,
+  trustProxyFromEnv,
+} from "./lib/rate-limit.js";
 
 const app = express();
-app.use(cors());
-app.use(express.json());
+// Behind a proxy, req.ip (used for per-IP rate limits) comes from X-Forwarded-For
+app.set("trust proxy", trustProxyFromEnv());
+app.use(cors({ origin: corsOriginsFromEnv() }));
+app.use(express.json({ verify: captureRawBody }));
 
-const API_BASE_URL = "https://apiv3.creatordb.app";
-const API_KEY = process.env.CREATORDB_API_KEY;
-
-if (!API_KEY) {
+if (!process.env.CREATORDB_API_KEY) {
   console.error("Error: CREATORDB_API_KEY environment variable is required");
   process.exit(1);
 }
 
-interface SearchFilter {
-  filterName: string;
-  op: "in" | ">" | "=" | "<";
-  value: string | number | string[] | boolean;
-  isFuzzySearch?: boolean;
-}
-
-interface SearchRequest {
-  filters: SearchFilter[];
-  pageSize: number;
-  offset: number;
-  sortBy?: string;
-  desc?: boolean;
-}
-
-class ApiError extends Error {
-  status: number;
-  constructor(message: string, status: number) {
-    super(message);
-    this.status = status;
-  }
-}
-
-function sanitizeId(id: string): string {
-  return encodeURIComponent(id.replace(/^@/, ""));
-}
-
-async function makeApiRequest<T = unknown>(
-  endpoint: string,
-  method: "GET" | "POST" = "GET",
-  body?: unknown
-): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`;
-
-  const options: RequestInit = {
-    method,
-    headers: {
-      "Content-Type": "application/json",
-      "api-key": API_KEY!,
-    },
-  };
-
-  if (body && method === "POST") {
-    options.body = JSON.stringify(body);
-  }
-
-  const response = await fetch(url, options);
-  const data = await response.json();
-
-  if (!response.ok || data.success === false) {
-    throw new ApiError(
-      data.errorDescription || data.message || `API Error: ${response.status}`,
-      response.status
-    );
-  }
-
-  return data as T;
-}
-
-function handleError(error: unknown, res: Response) {
-  if (error instanceof ApiError) {
-    res.status(error.status).json({ success: false, error: error.message });
-  } else {
-    res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
-  }
-}
-
-app.get("/api/usage", async (req: Request, res: Response) => {
-  try {
-    const params = new URLSearchParams();
-    if (req.query.start) params.append("start", String(req.query.start));
-    if (req.query.end) params.append("end", String(req.query.end));
-    const queryString = params.toString();
-    const result = await makeApiRequest(`/usage${queryString ? `?${queryString}` : ""}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/profile", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/profile?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/contact", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/contact?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/content-detail", async (req: Request, res: Response) => {
-  try {
-    const { contentId } = req.query;
-    if (!contentId) return res.status(400).json({ success: false, error: "contentId is required" });
-    const result = await makeApiRequest(`/instagram/content-detail?contentId=${encodeURIComponent(String(contentId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/performance", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/performance?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/performance-history", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/performance-history?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/sponsorship", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/sponsorship?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/audience", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/instagram/audience?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/instagram/search", async (req: Request, res: Response) => {
-  try {
-    const { filters, pageSize = 20, offset = 0, sortBy, desc = true } = req.body;
-    if (!filters) return res.status(400).json({ success: false, error: "filters is required" });
-    const searchBody: SearchRequest = { filters, pageSize, offset };
-    if (sortBy) searchBody.sortBy = sortBy;
-    if (desc !== undefined) searchBody.desc = desc;
-    const result = await makeApiRequest("/instagram/search", "POST", searchBody);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/instagram/natural-language-search", async (req: Request, res: Response) => {
-  try {
-    const { query, pageSize = 20, offset = 0 } = req.body;
-    if (!query) return res.status(400).json({ success: false, error: "query is required" });
-    const result = await makeApiRequest("/instagram/nls", "POST", { query, pageSize, offset });
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/instagram/niches", async (_req: Request, res: Response) => {
-  try {
-    const result = await makeApiRequest("/instagram/niches");
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/profile", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/profile?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/youtube/search", async (req: Request, res: Response) => {
-  try {
-    const { filters, pageSize = 20, offset = 0, sortBy, desc = true } = req.body;
-    if (!filters) return res.status(400).json({ success: false, error: "filters is required" });
-    const searchBody: SearchRequest = { filters, pageSize, offset };
-    if (sortBy) searchBody.sortBy = sortBy;
-    if (desc !== undefined) searchBody.desc = desc;
-    const result = await makeApiRequest("/youtube/search", "POST", searchBody);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/performance", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/performance?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/performance-history", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/performance-history?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/content-detail", async (req: Request, res: Response) => {
-  try {
-    const { contentId } = req.query;
-    if (!contentId) return res.status(400).json({ success: false, error: "contentId is required" });
-    const result = await makeApiRequest(`/youtube/content-detail?contentId=${encodeURIComponent(String(contentId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/sponsorship", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/sponsorship?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/contact", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/contact?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/audience", async (req: Request, res: Response) => {
-  try {
-    const { channelId } = req.query;
-    if (!channelId) return res.status(400).json({ success: false, error: "channelId is required" });
-    const result = await makeApiRequest(`/youtube/audience?channelId=${encodeURIComponent(String(channelId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/youtube/natural-language-search", async (req: Request, res: Response) => {
-  try {
-    const { query, pageSize = 20, offset = 0 } = req.body;
-    if (!query) return res.status(400).json({ success: false, error: "query is required" });
-    const result = await makeApiRequest("/youtube/nls", "POST", { query, pageSize, offset });
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/topics", async (_req: Request, res: Response) => {
-  try {
-    const result = await makeApiRequest("/youtube/topics");
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/youtube/niches", async (_req: Request, res: Response) => {
-  try {
-    const result = await makeApiRequest("/youtube/niches");
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/profile", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/tiktok/profile?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/tiktok/search", async (req: Request, res: Response) => {
-  try {
-    const { filters, pageSize = 20, offset = 0, sortBy, desc = true } = req.body;
-    if (!filters) return res.status(400).json({ success: false, error: "filters is required" });
-    const searchBody: SearchRequest = { filters, pageSize, offset };
-    if (sortBy) searchBody.sortBy = sortBy;
-    if (desc !== undefined) searchBody.desc = desc;
-    const result = await makeApiRequest("/tiktok/search", "POST", searchBody);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/contact", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/tiktok/contact?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/performance", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/tiktok/performance?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/performance-history", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/tiktok/performance-history?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/content-detail", async (req: Request, res: Response) => {
-  try {
-    const { contentId } = req.query;
-    if (!contentId) return res.status(400).json({ success: false, error: "contentId is required" });
-    const result = await makeApiRequest(`/tiktok/content-detail?contentId=${encodeURIComponent(String(contentId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.get("/api/tiktok/audience", async (req: Request, res: Response) => {
-  try {
-    const { uniqueId } = req.query;
-    if (!uniqueId) return res.status(400).json({ success: false, error: "uniqueId is required" });
-    const result = await makeApiRequest(`/tiktok/audience?uniqueId=${sanitizeId(String(uniqueId))}`);
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
-
-app.post("/api/tiktok/natural-language-search", async (req: Request, res: Response) => {
-  try {
-    const { query, pageSize = 20, offset = 0 } = req.body;
-    if (!query) return res.status(400).json({ success: false, error: "query is required" });
-    const result = await makeApiRequest("/tiktok/nls", "POST", { query, pageSize, offset });
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
+const cacheStore = await createCacheStoreFromEnv();
+const rateLimits = loadRateLimitConfig();
+const rateLimitStore = await createRateLimitStoreFromEnv();
+// One cap on upstream requests in flight, shared by the clients for every CreatorDB key
+const concurrency = createConcurrencyLimiter(rateLimits);
+const client = new CreatorDBClient({
+  cache: cacheStore,
+  budget: createBudgetGuardFromEnv(),
+  concurrency,
+});
+const identityStore = await createIdentityStoreFromEnv();
+const campaignStore = await createCampaignStoreFromEnv();
+const watchlistStore = await createWatchlistStoreFromEnv();
+const alertStore = await createAlertStoreFromEnv();
+
+// Scheduled watchlist monitoring runs only when CREATORDB_MONITOR is configured
+const monitorConfig = loadMonitorConfig();
+const monitor =
+  monitorConfig && new Monitor(client, watchlistStore, alertStore, monitorConfig);
+monitor?.start();
+
+// Addresses that keep failing authentication are refused before their credentials are checked
+app.use("/api", createAuthFailureLimiter(rateLimits, rateLimitStore));
+
+// Every /api route needs a configured client once CREATORDB_CLIENTS is set. Requests on
+// another CreatorDB key get their own cache entries and skip the server's request budget.
+app.use(
+  "/api",
+  createAuthMiddleware(
+    loadAuthConfig(),
+    client,
+    (apiKey) => new CreatorDBClient({ apiKey, cache: cacheStore, concurrency })
+  )
+);
+
+// Token buckets per client and route family (CREATORDB_RATE_LIMITS), counted after auth
+// so clients are told apart by id
+app.use("/api", createRateLimitMiddleware(rateLimits, rateLimitStore));
+
+// Creator, search, campaign and watchlist routes shared with the Vercel function
+app.use("/api", createApiRouter({ client, identityStore, campaignStore, watchlistStore }));
+
+// =============================================================================
+// Monitoring
+// =============================================================================
+
+const MONITOR_DISABLED: MonitorStatus = {
+  enabled: false,
+  schedule: null,
+  running: false,
+  nextRunAt: null,
+  lastRun: null,
+  lastError: null,
+  rules: [],
+  webhooks: [],
+};
+
+app.get("/api/monitor", (_req: Request, res: Response) => {
+  res.json({ success: true, data: monitor?.status() ?? MONITOR_DISABLED });
+});
+
+// Runs the monitor now instead of waiting for the schedule
+app.post("/api/monitor/run", (_req: Request, res: Response) =>
+  jsonRoute(res, () => {
+    if (!monitor) {
+      throw new ApiError("Monitoring is not configured; set CREATORDB_MONITOR", 400);
+    }
+    return monitor.run();
+  })
+);
 
-app.get("/api/tiktok/niches", async (_req: Request, res: Response) => {
-  try {
-    const result = await makeApiRequest("/tiktok/niches");
-    res.json(result);
-  } catch (error) {
-    handleError(error, res);
-  }
-});
+app.get("/api/alerts", (req: Request, res: Response) =>
+  jsonRoute(res, async () => alertStore.listAlerts(parseAlertFilter(req.query)))
+);
 
 app.get("/openapi.json", (_req: Request, res: Response) => {
   res.sendFile("openapi.json", { root: "." });
@@ -443,12 +129,19 @@ app.get("/", (_req: Request, res: Response) => {
         "GET /api/instagram/sponsorship?uniqueId=",
         "GET /api/instagram/audience?uniqueId=",
         "POST /api/instagram/search",
+        "GET /api/instagram/search-filters",
         "POST /api/instagram/natural-language-search",
-        "GET /api/instagram/niches"
+        "GET /api/instagram/niches",
+        "GET /api/instagram/report?uniqueId=&sections=",
+        "GET /api/instagram/growth?uniqueId=",
+        "GET /api/instagram/rate?uniqueId=&deliverables=",
+        "POST /api/instagram/brand-conflicts",
+        "POST /api/instagram/bulk"
       ],
       youtube: [
         "GET /api/youtube/profile?channelId=",
         "POST /api/youtube/search",
+        "GET /api/youtube/search-filters",
         "GET /api/youtube/performance?channelId=",
         "GET /api/youtube/performance-history?channelId=",
         "GET /api/youtube/content-detail?contentId=",
@@ -457,21 +150,62 @@ app.get("/", (_req: Request, res: Response) => {
         "GET /api/youtube/audience?channelId=",
         "POST /api/youtube/natural-language-search",
         "GET /api/youtube/topics",
-        "GET /api/youtube/niches"
+        "GET /api/youtube/niches",
+        "GET /api/youtube/report?channelId=&sections=",
+        "GET /api/youtube/growth?channelId=",
+        "GET /api/youtube/rate?channelId=&deliverables=",
+        "POST /api/youtube/brand-conflicts",
+        "POST /api/youtube/bulk"
       ],
       tiktok: [
         "GET /api/tiktok/profile?uniqueId=",
         "POST /api/tiktok/search",
+        "GET /api/tiktok/search-filters",
         "GET /api/tiktok/contact?uniqueId=",
         "GET /api/tiktok/performance?uniqueId=",
         "GET /api/tiktok/performance-history?uniqueId=",
         "GET /api/tiktok/content-detail?contentId=",
         "GET /api/tiktok/audience?uniqueId=",
         "POST /api/tiktok/natural-language-search",
-        "GET /api/tiktok/niches"
+        "GET /api/tiktok/niches",
+        "GET /api/tiktok/report?uniqueId=&sections=",
+        "GET /api/tiktok/growth?uniqueId=",
+        "GET /api/tiktok/rate?uniqueId=&deliverables=",
+        "POST /api/tiktok/brand-conflicts",
+        "POST /api/tiktok/bulk"
+      ],
+      creators: [
+        "GET /api/creators/resolve?platform=&id=",
+        "POST /api/creators/resolve",
+        "GET /api/compare?creators=instagram:id,youtube:id",
+        "POST /api/compare",
+        "POST /api/audience-fit"
+      ],
+      campaigns: [
+        "GET /api/campaigns",
+        "POST /api/campaigns",
+        "GET /api/campaigns/:campaignId?status=&tag=",
+        "DELETE /api/campaigns/:campaignId",
+        "POST /api/campaigns/:campaignId/creators",
+        "PATCH /api/campaigns/:campaignId/creators/:platform/:id",
+        "DELETE /api/campaigns/:campaignId/creators/:platform/:id"
+      ],
+      watchlist: [
+        "GET /api/watchlist",
+        "POST /api/watchlist",
+        "DELETE /api/watchlist/:platform/:id",
+        "POST /api/watchlist/snapshots",
+        "GET /api/watchlist/:platform/:id/snapshots",
+        "GET /api/watchlist/:platform/:id/diff?from=&to="
+      ],
+      monitoring: [
+        "GET /api/monitor",
+        "POST /api/monitor/run",
+        "GET /api/alerts?ruleId=&platform=&id=&since=&limit="
       ],
       general: [
-        "GET /api/usage?start=&end="
+        "GET /api/usage?start=&end=",
+        "GET /api/budget"
       ]
     }
   });
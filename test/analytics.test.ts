@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzeGrowth, parseHistory } from "../lib/analytics.js";
+
+const DAY_MS = 86_400_000;
+const START = Date.parse("2026-01-01T00:00:00Z");
+
+// A snapshot every 30 days from 10,000 followers, growing by `growths` in turn
+function history(growths: number[], engagement: number[] = []) {
+  let followers = 10_000;
+  const points = [{ date: START, totalFollowers: followers, avgEngagementRate: engagement[0] }];
+  growths.forEach((growth, index) => {
+    followers = Math.round(followers * (1 + growth));
+    points.push({
+      date: START + (index + 1) * 30 * DAY_MS,
+      totalFollowers: followers,
+      avgEngagementRate: engagement[index + 1],
+    });
+  });
+  return { history: points };
+}
+
+describe("parseHistory", () => {
+  it("reads mixed date formats, sorts by date and falls back to subscribers", () => {
+    const points = parseHistory({
+      history: [
+        { date: "2026-03-01", totalFollowers: 300 },
+        { date: START / 1000, totalSubscribers: 100 },
+        { date: START + 31 * DAY_MS, totalFollowers: 200 },
+        { date: "not a date", totalFollowers: 999 },
+      ],
+    });
+    assert.deepEqual(
+      points.map(({ date, followers }) => [date, followers]),
+      [
+        ["2026-01-01", 100],
+        ["2026-02-01", 200],
+        ["2026-03-01", 300],
+      ]
+    );
+  });
+});
+
+describe("analyzeGrowth", () => {
+  it("computes growth and an annualized CAGR", () => {
+    const { followers, period } = analyzeGrowth("instagram", "jane", {
+      history: [
+        { date: "2024-01-01", totalFollowers: 10_000 },
+        { date: "2025-12-31", totalFollowers: 12_100 },
+      ],
+    });
+    assert.deepEqual(period, { start: "2024-01-01", end: "2025-12-31", days: 730, points: 2 });
+    assert.equal(followers.change, 2100);
+    assert.equal(followers.growth, 0.21);
+    assert.ok(Math.abs(followers.cagr! - 0.1) < 1e-9);
+    assert.equal(followers.cagrReason, null);
+  });
+
+  it("leaves CAGR and growth null without two follower counts", () => {
+    const { followers } = analyzeGrowth("instagram", "jane", history([]));
+    assert.equal(followers.growth, null);
+    assert.equal(followers.cagr, null);
+    assert.equal(followers.cagrReason, "Needs at least two follower counts");
+    assert.equal(analyzeGrowth("instagram", "jane", undefined).period, null);
+  });
+
+  it("leaves CAGR null for histories under 30 days", () => {
+    const { followers } = analyzeGrowth("instagram", "jane", {
+      history: [
+        { date: "2026-01-01", totalFollowers: 10_000 },
+        { date: "2026-01-11", totalFollowers: 10_500 },
+      ],
+    });
+    assert.equal(followers.growth, 0.05);
+    assert.equal(followers.cagr, null);
+    assert.equal(followers.cagrReason, "History spans 10 days; CAGR needs at least 30");
+  });
+
+  it("fits engagement trends per 30 days", () => {
+    const { engagement } = analyzeGrowth(
+      "instagram",
+      "jane",
+      history([0.01, 0.01], [0.03, 0.04, 0.05])
+    );
+    assert.equal(engagement.start, 0.03);
+    assert.equal(engagement.end, 0.05);
+    assert.ok(Math.abs(engagement.slopePer30Days! - 0.01) < 1e-9);
+  });
+
+  it("flags a follower spike with falling engagement as possible bought followers", () => {
+    const { anomalies } = analyzeGrowth(
+      "instagram",
+      "jane",
+      history([0.01, 0.01, 0.01, 0.01, 0.2, 0.01], [0.05, 0.05, 0.05, 0.05, 0.05, 0.03, 0.03])
+    );
+    assert.equal(anomalies.length, 1);
+    const [spike] = anomalies;
+    assert.equal(spike.type, "spike");
+    assert.deepEqual([spike.from, spike.to], ["2026-05-01", "2026-05-31"]);
+    assert.ok(spike.zScore! > 3.5);
+    assert.ok(Math.abs(spike.engagementChange! + 0.4) < 1e-9);
+    assert.match(spike.message, /^Followers jumped \+20% .*consistent with bought followers$/);
+  });
+
+  it("leaves steady growth alone", () => {
+    const { anomalies } = analyzeGrowth("instagram", "jane", history([0.01, 0.012, 0.009, 0.011]));
+    assert.deepEqual(anomalies, []);
+  });
+
+  it("reports a large drop even without enough periods for z-scores", () => {
+    const { anomalies } = analyzeGrowth("instagram", "jane", history([-0.15]));
+    assert.equal(anomalies.length, 1);
+    assert.equal(anomalies[0].type, "drop");
+    assert.equal(anomalies[0].zScore, null);
+    assert.match(anomalies[0].message, /^Followers fell 15% .*purge/);
+  });
+});
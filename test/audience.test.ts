@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { audienceFitScore, parseAudienceTarget, scoreAudience } from "../lib/audience.js";
+import { ApiError, CreatorDBClient } from "../lib/client.js";
+
+const audience = {
+  audienceCountries: [
+    { country: "USA", share: 0.5 },
+    { country: "GBR", share: 0.4 },
+    { country: "CAN", share: 0.1 },
+  ],
+  audienceAges: [
+    { ageRange: "13-17", share: 0.1 },
+    { ageRange: "18-24", share: 0.4 },
+    { ageRange: "25-34", share: 0.3 },
+    { ageRange: "35-44", share: 0.2 },
+  ],
+  audienceGender: { male: 0.3, female: 0.7 },
+  audienceAvgAge: 28,
+};
+
+describe("parseAudienceTarget", () => {
+  it("reads age ranges and shares given as percentages", () => {
+    assert.deepEqual(parseAudienceTarget({ countries: "us, ca", ages: "18-34", femaleShare: 60 }), {
+      countries: ["US", "CA"],
+      ageMin: 18,
+      ageMax: 34,
+      femaleShare: 0.6,
+    });
+  });
+
+  it("rejects empty targets, inverted ranges and unknown weights", () => {
+    assert.throws(() => parseAudienceTarget({}), /at least one of/);
+    assert.throws(() => parseAudienceTarget({ ageMin: 40, ageMax: 20 }), ApiError);
+    assert.throws(() => parseAudienceTarget({ countries: ["United States"] }), /ISO country/);
+    assert.throws(
+      () => parseAudienceTarget({ avgAge: 25, weights: { income: 1 } }),
+      /Unknown weight "income"/
+    );
+  });
+});
+
+describe("scoreAudience", () => {
+  it("scores each targeted dimension and weights them into one score", () => {
+    const target = parseAudienceTarget({
+      countries: ["US", "CA"],
+      ages: "18-34",
+      femaleShare: 0.6,
+    });
+    const { score, estimatedShareInTarget, breakdown } = scoreAudience(target, audience);
+
+    assert.deepEqual(
+      breakdown.map(({ dimension, score, weight, shareInTarget }) => ({
+        dimension,
+        score,
+        weight,
+        shareInTarget,
+      })),
+      [
+        { dimension: "country", score: 60, weight: 0.35, shareInTarget: 0.6 },
+        { dimension: "age", score: 70, weight: 0.3, shareInTarget: 0.7 },
+        { dimension: "gender", score: 80, weight: 0.2, shareInTarget: undefined },
+        // Aims for 26, the middle of 18-34
+        { dimension: "avgAge", score: 80, weight: 0.15, shareInTarget: undefined },
+      ]
+    );
+    assert.equal(score, 70);
+    assert.equal(estimatedShareInTarget, 0.42);
+  });
+
+  it("counts age bands in proportion to the years inside the target", () => {
+    const { breakdown } = scoreAudience({ ageMin: 20, ageMax: 24, avgAge: 28 }, audience);
+    assert.equal(breakdown[0].shareInTarget, 0.2857);
+    assert.equal(breakdown[0].score, 29);
+  });
+
+  it("scores only the dimensions with data, with custom weights", () => {
+    const target = parseAudienceTarget({
+      countries: ["USA"],
+      femaleShare: 1,
+      weights: { country: 1, gender: 3 },
+    });
+    const partial = scoreAudience(target, { audienceCountries: audience.audienceCountries });
+    assert.equal(partial.score, 50);
+    assert.equal(partial.breakdown[1].score, null);
+    assert.equal(partial.estimatedShareInTarget, 0.5);
+
+    const full = scoreAudience(target, audience);
+    assert.equal(full.breakdown[1].shareInTarget, 0.7);
+    assert.equal(full.score, Math.round((50 * 1 + 40 * 3) / 4));
+    assert.equal(full.estimatedShareInTarget, 0.35);
+  });
+});
+
+describe("audienceFitScore", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("ranks creators by fit and lists the ones that failed last", async () => {
+    mock.method(globalThis, "fetch", async (url: string) => {
+      const id = new URL(url).searchParams.get("uniqueId");
+      if (id === "ghost") {
+        return Response.json({ success: false, errorDescription: "Not found" }, { status: 404 });
+      }
+      const share = id === "jane" ? 0.9 : 0.3;
+      return Response.json({
+        success: true,
+        data: { audienceCountries: [{ country: "USA", share }] },
+      });
+    });
+    const client = new CreatorDBClient({ apiKey: "key", validation: "off" });
+
+    const { results } = await audienceFitScore(client, {
+      target: { countries: ["US"] },
+      creators: ["instagram:ghost", "instagram:john", "instagram:jane"],
+    });
+    assert.deepEqual(
+      results.map(({ id, score }) => [id, score]),
+      [
+        ["jane", 90],
+        ["john", 30],
+        ["ghost", null],
+      ]
+    );
+    assert.equal(results[2].error?.status, 404);
+  });
+});
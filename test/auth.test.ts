@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { createHash, createHmac, randomBytes } from "node:crypto";
+import { describe, it } from "node:test";
+import {
+  AuthContext,
+  AuthRequest,
+  authConfigSchema,
+  authenticate,
+  authorize,
+  requiredScopes,
+  signingPayload,
+  upstreamKeyFor,
+} from "../lib/auth.js";
+import { ApiError } from "../lib/errors.js";
+
+const BEARER_KEY = "research-key-0123456789";
+const HMAC_SECRET = "etl-secret-0123456789";
+
+const config = authConfigSchema.parse({
+  clients: [
+    { id: "research", apiKey: BEARER_KEY, scopes: ["search", "profile"], upstreamKey: "team" },
+    {
+      id: "hashed",
+      apiKeySha256: createHash("sha256").update("hashed-key-0123456789").digest("hex"),
+    },
+    { id: "etl", hmacSecret: HMAC_SECRET, deny: ["contact"], allowUpstreamKeyHeader: true },
+  ],
+});
+
+function bearer(key: string): AuthRequest {
+  return { method: "GET", url: "/api/usage", headers: { authorization: `Bearer ${key}` } };
+}
+
+function signed(
+  overrides: { timestamp?: number; nonce?: string; secret?: string; body?: string } = {}
+): AuthRequest {
+  const timestamp = String(overrides.timestamp ?? Math.floor(Date.now() / 1000));
+  const nonce = overrides.nonce ?? randomBytes(16).toString("hex");
+  const body = overrides.body ?? '{"ids":["a"]}';
+  const signature = createHmac("sha256", overrides.secret ?? HMAC_SECRET)
+    .update(signingPayload(timestamp, nonce, "POST", "/api/instagram/bulk", body))
+    .digest("hex");
+  return {
+    method: "POST",
+    url: "/api/instagram/bulk",
+    headers: {
+      "x-client-id": "etl",
+      "x-timestamp": timestamp,
+      "x-nonce": nonce,
+      "x-signature": `sha256=${signature}`,
+    },
+    rawBody: Buffer.from(body),
+  };
+}
+
+function rejects(fn: () => unknown, status: number, message?: RegExp) {
+  assert.throws(fn, (error) => {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.status, status);
+    if (message) assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe("authenticate", () => {
+  it("lets everyone through as anonymous without a config", () => {
+    assert.equal(authenticate(undefined, bearer("anything")).clientId, null);
+  });
+
+  it("accepts bearer keys, stored in plain or hashed", () => {
+    assert.equal(authenticate(config, bearer(BEARER_KEY)).clientId, "research");
+    assert.equal(authenticate(config, bearer("hashed-key-0123456789")).method, "bearer");
+  });
+
+  it("rejects missing and unknown bearer keys", () => {
+    rejects(() => authenticate(config, { method: "GET", url: "/api/usage", headers: {} }), 401);
+    rejects(() => authenticate(config, bearer("wrong-key-0123456789")), 401);
+  });
+
+  it("accepts a signed request", () => {
+    const auth = authenticate(config, signed());
+    assert.equal(auth.clientId, "etl");
+    assert.equal(auth.method, "hmac");
+  });
+
+  it("rejects a wrong secret or a tampered body", () => {
+    rejects(() => authenticate(config, signed({ secret: "another-secret-0123456789" })), 401);
+    const tampered = signed();
+    tampered.rawBody = Buffer.from('{"ids":["b"]}');
+    rejects(() => authenticate(config, tampered), 401, /Invalid client credentials/);
+  });
+
+  it("rejects timestamps outside the clock-skew window", () => {
+    const stale = Math.floor(Date.now() / 1000) - config.maxClockSkewSeconds - 5;
+    rejects(() => authenticate(config, signed({ timestamp: stale })), 401, /too far/);
+  });
+
+  it("refuses a replayed nonce and malformed ones", () => {
+    const request = signed();
+    authenticate(config, request);
+    rejects(() => authenticate(config, request), 401, /already used/);
+    rejects(() => authenticate(config, signed({ nonce: "short" })), 401, /X-Nonce must be/);
+  });
+});
+
+describe("authorize", () => {
+  const research: AuthContext = {
+    clientId: "research",
+    method: "bearer",
+    scopes: ["search", "profile"],
+    deny: [],
+  };
+  const etl: AuthContext = { clientId: "etl", method: "hmac", scopes: ["*"], deny: ["contact"] };
+
+  it("allows scopes the client holds", () => {
+    authorize(research, requiredScopes("/instagram/search", {}, {}));
+    authorize(etl, requiredScopes("/instagram/report", { sections: "profile,audience" }, {}));
+  });
+
+  it("refuses scopes the client lacks or is denied", () => {
+    rejects(() => authorize(research, requiredScopes("/campaigns", {}, {})), 403, /campaigns/);
+    rejects(() => authorize(etl, requiredScopes("/instagram/report", {}, {})), 403, /contact/);
+    rejects(() => authorize(etl, requiredScopes("/instagram/contact", {}, {})), 403);
+  });
+});
+
+describe("requiredScopes", () => {
+  it("adds the report sections a route reads", () => {
+    assert.deepEqual(requiredScopes("/instagram/report", { sections: "profile" }, {}), [
+      "report",
+      "profile",
+    ]);
+    assert.deepEqual(requiredScopes("/youtube/bulk", {}, {}), ["bulk", "profile", "performance"]);
+    assert.deepEqual(requiredScopes("/audience-fit", {}, {}), ["audience-fit", "audience"]);
+    assert.ok(requiredScopes("/watchlist/tiktok/abc/diff", {}, {}).includes("sponsorship"));
+    assert.deepEqual(requiredScopes("/creators/resolve", {}, {}), ["creators", "profile"]);
+    assert.deepEqual(requiredScopes("/usage", {}, {}), ["usage"]);
+  });
+});
+
+describe("upstreamKeyFor", () => {
+  const research: AuthContext = { clientId: "research", method: "bearer", scopes: [], deny: [] };
+  const etl: AuthContext = { clientId: "etl", method: "hmac", scopes: [], deny: [] };
+
+  it("uses the client's key, or the header when the client may send one", () => {
+    assert.equal(upstreamKeyFor(config, research, undefined), "team");
+    assert.equal(upstreamKeyFor(config, etl, "own-key"), "own-key");
+    assert.equal(upstreamKeyFor(config, etl, undefined), undefined);
+  });
+
+  it("refuses the header from other clients", () => {
+    rejects(() => upstreamKeyFor(config, research, "own-key"), 403);
+  });
+});
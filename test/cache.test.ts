@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, describe, it, mock } from "node:test";
+import { CacheEntry, MemoryCacheStore, endpointFamily } from "../lib/cache.js";
+import { CreatorDBClient } from "../lib/client.js";
+import { SqliteCacheStore } from "../lib/sqlite-cache.js";
+
+function entry(value: unknown, ttlMs = 60_000): CacheEntry {
+  const storedAt = Date.now();
+  return { value, storedAt, expiresAt: storedAt + ttlMs };
+}
+
+describe("endpointFamily", () => {
+  it("takes the last path segment without the query string", () => {
+    assert.equal(
+      endpointFamily("/instagram/performance-history?uniqueId=x"),
+      "performance-history"
+    );
+    assert.equal(endpointFamily("/usage"), "usage");
+  });
+});
+
+describe("MemoryCacheStore", () => {
+  it("drops the least recently used entry past its size", async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set("a", entry(1));
+    await store.set("b", entry(2));
+    await store.get("a");
+    await store.set("c", entry(3));
+    assert.equal((await store.get("a"))?.value, 1);
+    assert.equal(await store.get("b"), undefined);
+    assert.equal((await store.get("c"))?.value, 3);
+  });
+
+  it("treats expired entries as missing", async () => {
+    const store = new MemoryCacheStore();
+    await store.set("fresh", entry("x"));
+    await store.set("stale", entry("y", -1));
+    assert.equal((await store.get("fresh"))?.value, "x");
+    assert.equal(await store.get("stale"), undefined);
+  });
+});
+
+describe("SqliteCacheStore", () => {
+  const dir = mkdtempSync(join(tmpdir(), "creatordb-cache-"));
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("keeps entries across instances until they expire", async () => {
+    const path = join(dir, "cache.sqlite");
+    const store = new SqliteCacheStore(path);
+    await store.set("fresh", entry({ followers: 1500 }));
+    await store.set("stale", entry("y", -1));
+
+    const reopened = new SqliteCacheStore(path);
+    assert.deepEqual((await reopened.get("fresh"))?.value, { followers: 1500 });
+    assert.equal(await reopened.get("stale"), undefined);
+
+    await reopened.delete("fresh");
+    assert.equal(await store.get("fresh"), undefined);
+  });
+});
+
+describe("CreatorDBClient caching", () => {
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  function stubFetch() {
+    return mock.method(globalThis, "fetch", async () =>
+      Response.json({ success: true, data: { uniqueId: "jane", totalFollowers: 1500 } })
+    );
+  }
+
+  it("serves repeat lookups from the cache until the TTL runs out", async () => {
+    mock.timers.enable({ apis: ["Date"], now: 0 });
+    const fetch = stubFetch();
+    const client = new CreatorDBClient({
+      apiKey: "key",
+      cache: new MemoryCacheStore(),
+      cacheTtls: { profile: 60 },
+      validation: "off",
+    });
+
+    assert.equal((await client.instagram.getProfile("jane")).cache?.status, "miss");
+    const hit = await client.instagram.getProfile("jane");
+    assert.deepEqual(hit.cache, { status: "hit", storedAt: 0, expiresAt: 60_000 });
+
+    mock.timers.tick(60_000);
+    assert.equal((await client.instagram.getProfile("jane")).cache?.status, "miss");
+    assert.equal(fetch.mock.callCount(), 2);
+  });
+
+  it("skips the read on refresh and the cache entirely on bypass", async () => {
+    const fetch = stubFetch();
+    const client = new CreatorDBClient({
+      apiKey: "key",
+      cache: new MemoryCacheStore(),
+      validation: "off",
+    });
+
+    await client.instagram.getProfile("jane", { cache: "bypass" });
+    assert.equal((await client.instagram.getProfile("jane")).cache?.status, "miss");
+    const refreshed = await client.instagram.getProfile("jane", { cache: "refresh" });
+    assert.equal(refreshed.cache?.status, "refresh");
+    assert.equal((await client.instagram.getProfile("jane")).cache?.status, "hit");
+    assert.equal(fetch.mock.callCount(), 3);
+  });
+
+  it("never caches families with a TTL of 0", async () => {
+    const fetch = stubFetch();
+    const client = new CreatorDBClient({
+      apiKey: "key",
+      cache: new MemoryCacheStore(),
+      validation: "off",
+    });
+    await client.getUsage();
+    assert.equal((await client.getUsage()).cache, undefined);
+    assert.equal(fetch.mock.callCount(), 2);
+  });
+
+  it("keeps each API key's responses apart", async () => {
+    const fetch = stubFetch();
+    const cache = new MemoryCacheStore();
+    const team = new CreatorDBClient({ apiKey: "team-key", cache, validation: "off" });
+    const other = new CreatorDBClient({ apiKey: "other-key", cache, validation: "off" });
+
+    await team.instagram.getProfile("jane");
+    assert.equal((await team.instagram.getProfile("jane")).cache?.status, "hit");
+    assert.equal((await other.instagram.getProfile("jane")).cache?.status, "miss");
+    assert.equal(fetch.mock.callCount(), 2);
+  });
+});
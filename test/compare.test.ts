@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { endpointFamily } from "../lib/cache.js";
+import { ApiError, CreatorDBClient } from "../lib/client.js";
+import { compareCreators, parseComparisonCreators } from "../lib/compare.js";
+
+const DAY_S = 86_400;
+
+// Answers upstream lookups from `data`, keyed like "profile:jane"; anything else is a 404
+function stubUpstream(data: Record<string, unknown>) {
+  mock.method(globalThis, "fetch", async (url: string) => {
+    const { pathname, searchParams } = new URL(url);
+    const key = `${endpointFamily(pathname)}:${searchParams.get("uniqueId")}`;
+    if (!(key in data)) {
+      return Response.json({ success: false, errorDescription: "Not found" }, { status: 404 });
+    }
+    return Response.json({ success: true, data: data[key] });
+  });
+}
+
+const client = () => new CreatorDBClient({ apiKey: "key", validation: "off" });
+
+describe("parseComparisonCreators", () => {
+  it("reads 2-10 distinct creators as strings or objects", () => {
+    assert.deepEqual(
+      parseComparisonCreators([
+        "instagram:jane",
+        { platform: "youtube", id: "UC1" },
+        "instagram:jane",
+      ]),
+      [
+        { platform: "instagram", id: "jane" },
+        { platform: "youtube", id: "UC1" },
+      ]
+    );
+    assert.equal(parseComparisonCreators("instagram:a,tiktok:b").length, 2);
+  });
+
+  it("rejects too few or too many creators", () => {
+    assert.throws(() => parseComparisonCreators(["instagram:jane", "instagram:jane"]), ApiError);
+    const eleven = Array.from({ length: 11 }, (_, i) => `tiktok:creator${i}`);
+    assert.throws(() => parseComparisonCreators(eleven), /between 2 and 10/);
+  });
+});
+
+describe("compareCreators", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("names each metric's leader and every creator's delta from it", async () => {
+    stubUpstream({
+      "profile:jane": { displayName: "Jane", totalFollowers: 20_000 },
+      "performance:jane": { avgEngagementRate: 0.02, avgViews: 5000 },
+      "performance-history:jane": {
+        history: [
+          { date: 1_700_000_000, totalFollowers: 16_000 },
+          { date: 1_700_000_000 + 30 * DAY_S, totalFollowers: 20_000 },
+        ],
+      },
+      "audience:jane": {
+        audienceCountries: [
+          { country: "USA", share: 0.5 },
+          { country: "CAN", share: 0.2 },
+        ],
+        audienceGender: { male: 0.4, female: 0.6 },
+      },
+      "profile:john": { displayName: "John", totalFollowers: 10_000 },
+      "performance:john": { avgEngagementRate: 0.04, avgViews: 5000 },
+    });
+
+    const { creators, metrics } = await compareCreators(
+      client(),
+      parseComparisonCreators("instagram:jane,instagram:john")
+    );
+    const metric = (name: string) => metrics.find((entry) => entry.metric === name)!;
+
+    assert.deepEqual(
+      creators.map(({ key, displayName, success }) => [key, displayName, success]),
+      [
+        ["instagram:jane", "Jane", true],
+        ["instagram:john", "John", true],
+      ]
+    );
+    assert.equal(metric("followers").leader, "instagram:jane");
+    assert.deepEqual(
+      metric("followers").values.map((entry) => entry.deltaFromLeader),
+      [0, -0.5]
+    );
+    assert.equal(metric("avgEngagementRate").leader, "instagram:john");
+    assert.deepEqual(metric("followerGrowth").values[0], {
+      key: "instagram:jane",
+      value: 0.25,
+      detail: "+25% over 30 days",
+      deltaFromLeader: 0,
+    });
+    assert.equal(metric("topAudienceCountryShare").values[0].detail, "USA 50%, CAN 20%");
+    assert.equal(metric("audienceFemaleShare").values[0].detail, "F 60% / M 40%");
+
+    // No audience data for John: null, not zero
+    assert.equal(metric("audienceFemaleShare").values[1].value, null);
+    assert.equal(creators[1].sectionErrors.audience?.status, 404);
+  });
+
+  it("keeps a creator that can't be fetched, and fails only when none can", async () => {
+    stubUpstream({ "profile:jane": { totalFollowers: 20_000 } });
+    const { creators, metrics } = await compareCreators(
+      client(),
+      parseComparisonCreators("instagram:jane,instagram:ghost")
+    );
+    assert.equal(creators[1].success, false);
+    assert.equal(creators[1].error?.status, 404);
+    assert.equal(metrics[0].values[1].value, null);
+
+    await assert.rejects(
+      compareCreators(client(), parseComparisonCreators("instagram:ghost,instagram:nobody")),
+      { status: 404 }
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { endpointFamily } from "../lib/cache.js";
+import { CreatorDBClient } from "../lib/client.js";
+import {
+  brandPattern,
+  checkBrandConflicts,
+  parseBrand,
+  parseCompetitors,
+} from "../lib/conflicts.js";
+
+const DAY_MS = 86_400_000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+describe("brandPattern", () => {
+  const coke = brandPattern({ name: "Coca-Cola", aliases: ["coke", "Dr. Pepper"] });
+
+  it("matches the name and aliases across spacing, punctuation, hashtags and handles", () => {
+    for (const text of [
+      "COCA-COLA",
+      "a coca cola please",
+      "#cocacola",
+      "@coca_cola",
+      "Coke Zero",
+      "#DrPepper",
+      "dr pepper",
+    ]) {
+      assert.match(text, coke);
+    }
+  });
+
+  it("doesn't match inside longer words", () => {
+    for (const text of ["cocacolaesque", "coked", "#pepsicocacola", "drpeppers"]) {
+      assert.doesNotMatch(text, coke);
+    }
+  });
+
+  it("treats regex characters in names literally", () => {
+    assert.match("big fan of a.b", brandPattern({ name: "a.b" }));
+    assert.doesNotMatch("big fan of axb", brandPattern({ name: "a.b" }));
+  });
+});
+
+describe("parseCompetitors", () => {
+  it("reads names, comma-separated strings and { name, aliases }", () => {
+    assert.deepEqual(parseCompetitors("Pepsi, Sprite"), [{ name: "Pepsi" }, { name: "Sprite" }]);
+    assert.deepEqual(parseCompetitors([{ name: "Pepsi", aliases: ["pepsico", " "] }]), [
+      { name: "Pepsi", aliases: ["pepsico"] },
+    ]);
+    assert.throws(() => parseCompetitors([]), /at least one brand/);
+    assert.throws(() => parseBrand({ aliases: ["coke"] }), /brand must be/);
+  });
+});
+
+describe("checkBrandConflicts", () => {
+  afterEach(() => mock.restoreAll());
+
+  const upstream: Record<string, unknown> = {
+    profile: { bio: "Coke every morning", hashtags: ["pepsichallenge"] },
+    sponsorship: {
+      sponsors: [
+        {
+          brandName: "Pepsi",
+          contentCount: 2,
+          lastSponsoredAt: daysAgo(10),
+          contents: [{ contentId: "p1", caption: "Loving my #Pepsi", publishedAt: daysAgo(10) }],
+        },
+        { brandName: "Fanta", contentCount: 1, lastSponsoredAt: daysAgo(120) },
+      ],
+    },
+    "content-detail": {
+      contentId: "c1",
+      caption: "Sprite at the beach",
+      publishedAt: daysAgo(400),
+    },
+  };
+
+  it("rates each competitor's exclusivity risk and reports the brand last", async () => {
+    mock.method(globalThis, "fetch", async (url: string) =>
+      Response.json({ success: true, data: upstream[endpointFamily(new URL(url).pathname)] })
+    );
+    const client = new CreatorDBClient({ apiKey: "key", validation: "off" });
+
+    const check = await checkBrandConflicts(client, "instagram", "jane", {
+      brand: parseBrand({ name: "Coca-Cola", aliases: ["coke"] }),
+      competitors: parseCompetitors("Pepsi,Fanta,Sprite"),
+      contentIds: ["c1"],
+    });
+
+    assert.equal(check.exclusivityRisk, "high");
+    assert.deepEqual(
+      check.matches.map(({ brand, risk, sponsoredPosts, organicMentions }) => [
+        brand,
+        risk,
+        sponsoredPosts,
+        organicMentions,
+      ]),
+      [
+        // The sponsor entry counts both posts; its caption is evidence only
+        ["Pepsi", "high", 2, 0],
+        ["Fanta", "medium", 1, 0],
+        ["Sprite", "low", 0, 1],
+        ["Coca-Cola", "none", 0, 1],
+      ]
+    );
+    assert.equal(check.matches[0].evidence.length, 2);
+    assert.match(check.reasons[0], /^Pepsi \(high\): 2 sponsored post\(s\), last on /);
+    assert.equal(check.reasons[2], "Sprite (low): 1 organic mention(s)");
+    assert.deepEqual(check.scanned, {
+      sponsorshipAvailable: true,
+      sponsors: 2,
+      sponsoredContents: 1,
+      contents: 1,
+      profileHashtags: 1,
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ApiError } from "../lib/client.js";
+import { suggestFilterName, validateSearchFilters } from "../lib/filters.js";
+
+const filter = (filterName: string, value: unknown = 10_000) => ({ filterName, op: ">", value });
+
+function rejects(filters: unknown[], pattern: RegExp) {
+  assert.throws(
+    () => validateSearchFilters("instagram", filters),
+    (error) => {
+      assert.ok(error instanceof ApiError);
+      assert.equal(error.status, 400);
+      assert.equal(error.code, "invalid_search_filters");
+      assert.match(error.message, pattern);
+      return true;
+    }
+  );
+}
+
+describe("suggestFilterName", () => {
+  it("maps aliases, case and typos to catalog names", () => {
+    assert.equal(suggestFilterName("instagram", "followers"), "totalFollowers");
+    assert.equal(suggestFilterName("youtube", "followers"), "totalSubscribers");
+    assert.equal(suggestFilterName("instagram", "TOTALFOLLOWERS"), "totalFollowers");
+    assert.equal(suggestFilterName("instagram", "totalFolowers"), "totalFollowers");
+    assert.equal(suggestFilterName("instagram", "zodiacSign"), undefined);
+  });
+});
+
+describe("validateSearchFilters", () => {
+  it("accepts catalog filters without warnings", () => {
+    assert.deepEqual(validateSearchFilters("instagram", [filter("totalFollowers")]), []);
+  });
+
+  it("rejects a misspelled filter name with the suggestion", () => {
+    rejects([filter("totalFolowers")], /Unknown instagram filter "totalFolowers"/);
+    rejects([filter("totalFolowers")], /Did you mean "totalFollowers"\?/);
+    rejects([filter("followers")], /Did you mean "totalFollowers"\?/);
+
+    assert.throws(
+      () => validateSearchFilters("youtube", [filter("totalFollowers")]),
+      (error) => {
+        assert.ok(error instanceof ApiError);
+        assert.deepEqual(error.details?.issues, [
+          {
+            index: 0,
+            filterName: "totalFollowers",
+            severity: "error",
+            message: 'Unknown youtube filter "totalFollowers"',
+            suggestion: "totalSubscribers",
+          },
+        ]);
+        return true;
+      }
+    );
+  });
+
+  it("passes unknown names with no close match upstream with a warning", () => {
+    assert.deepEqual(validateSearchFilters("instagram", [filter("zodiacSign", "leo")]), [
+      'filters[0]: Unknown instagram filter "zodiacSign", sent to the API unchecked',
+    ]);
+  });
+
+  it("rejects bad operators and values", () => {
+    rejects([{ filterName: "totalFollowers", op: "~", value: 1 }], /Operator "~" is not supported/);
+    rejects(
+      [filter("totalFollowers", "10k")],
+      /needs a number value, got "10k" \(drop the quotes\)/
+    );
+    rejects([{ filterName: "country", op: "=", value: "US" }], /Did you mean "USA"\?/);
+    rejects(
+      Array.from({ length: 11 }, () => filter("totalFollowers")),
+      /At most 10 filters/
+    );
+    assert.throws(() => validateSearchFilters("instagram", {}), /must be an array/);
+  });
+});
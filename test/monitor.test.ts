@@ -0,0 +1,169 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { MemoryAlertStore } from "../lib/alerts.js";
+import { CreatorDBClient } from "../lib/client.js";
+import { Monitor, evaluateRule, monitorConfigSchema, parseSchedule } from "../lib/monitor.js";
+import { MemoryWatchlistStore, WatchlistSnapshot } from "../lib/watchlist.js";
+
+const DAY_MS = 86_400_000;
+
+// Thursday, 1 January 2026, 10:07:30 UTC
+const AFTER = new Date("2026-01-01T10:07:30Z");
+
+function next(expression: string, after = AFTER): string {
+  return parseSchedule(expression).next(after).toISOString();
+}
+
+describe("parseSchedule", () => {
+  it("reads intervals", () => {
+    assert.equal(next("30m"), "2026-01-01T10:37:30.000Z");
+    assert.equal(next("6h"), "2026-01-01T16:07:30.000Z");
+    assert.equal(next("1d"), "2026-01-02T10:07:30.000Z");
+  });
+
+  it("finds the next matching minute, hour and day", () => {
+    assert.equal(next("*/15 * * * *"), "2026-01-01T10:15:00.000Z");
+    assert.equal(next("0 9 * * *"), "2026-01-02T09:00:00.000Z");
+    assert.equal(next("0-30/10 8-9 * * *"), "2026-01-02T08:00:00.000Z");
+    assert.equal(next("0 0 1 3 *"), "2026-03-01T00:00:00.000Z");
+  });
+
+  it("runs strictly after the given time", () => {
+    assert.equal(next("15 10 * * *", new Date("2026-01-01T10:15:00Z")), "2026-01-02T10:15:00.000Z");
+  });
+
+  it("treats 0 and 7 as Sunday", () => {
+    assert.equal(next("0 12 * * 0"), "2026-01-04T12:00:00.000Z");
+    assert.equal(next("0 12 * * 7"), "2026-01-04T12:00:00.000Z");
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 13th is a Tuesday, so Friday the 2nd comes first
+    assert.equal(next("0 0 13 * 5"), "2026-01-02T00:00:00.000Z");
+    assert.equal(next("0 0 13 * 5", new Date("2026-01-10T00:00:00Z")), "2026-01-13T00:00:00.000Z");
+  });
+
+  it("rejects malformed expressions and schedules that never run", () => {
+    assert.throws(() => parseSchedule("0 9 * *"), /5-field cron expression/);
+    assert.throws(() => parseSchedule("60 * * * *"), /Invalid cron minute: 60/);
+    assert.throws(() => parseSchedule("* * * 0 *"), /Invalid cron month: 0/);
+    assert.throws(() => parseSchedule("*/0 * * * *"), /Invalid cron minute/);
+    assert.throws(() => parseSchedule("0m"), /Invalid schedule interval/);
+    assert.throws(() => parseSchedule("0 0 31 2 *"), /Schedule never runs/);
+  });
+});
+
+function rule(spec: Record<string, unknown>) {
+  return monitorConfigSchema.parse({ rules: [{ id: "rule", ...spec }] }).rules[0];
+}
+
+function snapshot(
+  snapshotId: number,
+  day: number,
+  followers: number,
+  sponsors: Array<Record<string, unknown>> = []
+): WatchlistSnapshot {
+  return {
+    platform: "instagram",
+    id: "jane",
+    snapshotId,
+    takenAt: new Date(AFTER.getTime() + day * DAY_MS).toISOString(),
+    profile: { totalFollowers: followers },
+    performance: null,
+    sponsorship: { sponsors },
+    errors: {},
+  };
+}
+
+describe("evaluateRule", () => {
+  it("fires threshold rules on the latest snapshot", () => {
+    const snapshots = [snapshot(1, 0, 20_000), snapshot(2, 1, 9000)];
+    assert.deepEqual(
+      evaluateRule(rule({ type: "threshold", metric: "followers", below: 10_000 }), snapshots),
+      {
+        message: "followers 9,000 is below 10,000",
+        details: { metric: "followers", value: 9000, below: 10_000 },
+      }
+    );
+    assert.equal(
+      evaluateRule(rule({ type: "threshold", metric: "followers", above: 10_000 }), snapshots),
+      null
+    );
+    assert.equal(
+      evaluateRule(rule({ type: "threshold", metric: "avgViews", below: 10 }), snapshots),
+      null
+    );
+  });
+
+  it("measures change rules from the oldest snapshot inside the window", () => {
+    const snapshots = [snapshot(1, 0, 5000), snapshot(2, 5, 10_000), snapshot(3, 10, 12_500)];
+    const hit = evaluateRule(
+      rule({ type: "change", metric: "followers", minChange: 0.2, windowDays: 7 }),
+      snapshots
+    );
+    assert.equal(hit?.message, "followers +25% in 5 days (10,000 → 12,500)");
+    assert.equal(hit?.details.baselineSnapshotId, 2);
+
+    const drop = rule({ type: "change", metric: "followers", maxChange: -0.1 });
+    assert.equal(evaluateRule(drop, snapshots), null);
+    assert.equal(evaluateRule(drop, [snapshot(1, 0, 10_000)]), null);
+  });
+
+  it("fires new_sponsor rules on new and renewed sponsors", () => {
+    const snapshots = [
+      snapshot(1, 0, 10_000, [{ brandName: "Nike", contentCount: 1 }]),
+      snapshot(2, 1, 10_000, [
+        { brandName: "Nike", contentCount: 2 },
+        { brandName: "Adidas", contentCount: 1 },
+      ]),
+    ];
+    const hit = evaluateRule(rule({ type: "new_sponsor" }), snapshots);
+    assert.equal(hit?.message, "New sponsorship: Adidas, Nike");
+    assert.equal(hit?.details.previousSnapshotId, 1);
+    assert.equal(evaluateRule(rule({ type: "new_sponsor", brands: ["puma"] }), snapshots), null);
+    assert.equal(evaluateRule(rule({ type: "new_sponsor" }), snapshots.slice(1)), null);
+  });
+});
+
+describe("Monitor", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("holds back repeat alerts for a rule and creator during the cooldown", async () => {
+    mock.method(globalThis, "fetch", async () =>
+      Response.json({ success: true, data: { totalFollowers: 5000, sponsors: [] } })
+    );
+    const client = new CreatorDBClient({ apiKey: "key", validation: "off" });
+    const watchlist = new MemoryWatchlistStore();
+    await watchlist.watch([{ platform: "instagram", id: "jane" }], AFTER.toISOString());
+    const alerts = new MemoryAlertStore();
+    const config = monitorConfigSchema.parse({
+      rules: [
+        { id: "small", type: "threshold", metric: "followers", below: 10_000 },
+        {
+          id: "tiny",
+          type: "threshold",
+          metric: "followers",
+          below: 10_000,
+          cooldownHours: 0,
+        },
+      ],
+    });
+    const monitor = new Monitor(client, watchlist, alerts, config);
+
+    const first = await monitor.run();
+    assert.deepEqual(
+      first.alerts.map((alert) => [alert.ruleId, alert.message]),
+      [
+        ["small", "instagram:jane: followers 5,000 is below 10,000"],
+        ["tiny", "instagram:jane: followers 5,000 is below 10,000"],
+      ]
+    );
+    const second = await monitor.run();
+    assert.equal(second.snapshotted, 1);
+    assert.deepEqual(
+      second.alerts.map((alert) => alert.ruleId),
+      ["tiny"]
+    );
+    assert.equal((await alerts.listAlerts({ ruleId: "small", limit: 10 })).length, 1);
+  });
+});
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { BudgetGuard } from "../lib/budget.js";
+import { MemoryCacheStore } from "../lib/cache.js";
+import { ApiError, CreatorDBClient, SearchRequest } from "../lib/client.js";
+import { PaginatedSearchResponse, paginationOptions, searchCreators } from "../lib/pagination.js";
+
+const request: SearchRequest = {
+  filters: [{ filterName: "totalFollowers", op: ">", value: 1000 }],
+  pageSize: 20,
+  offset: 0,
+};
+
+/**
+ * Serves `count` creators through a stubbed upstream search, reporting the
+ * total when `withTotal` is set and always from the start when `ignoreOffset`
+ * is. Returns the page sizes asked for.
+ */
+function stubSearch(count: number, { withTotal = false, ignoreOffset = false } = {}) {
+  const pageSizes: number[] = [];
+  mock.method(globalThis, "fetch", async (_url: string, init: RequestInit) => {
+    const { offset, pageSize } = JSON.parse(String(init.body));
+    pageSizes.push(pageSize);
+    const start = ignoreOffset ? 0 : offset;
+    const creators = [];
+    for (let i = start; i < Math.min(start + pageSize, count); i++) {
+      creators.push({ uniqueId: `creator${i}` });
+    }
+    return Response.json({
+      success: true,
+      data: { total: withTotal ? count : null, creators },
+    });
+  });
+  return pageSizes;
+}
+
+function paginate(client: CreatorDBClient, maxResults: number) {
+  return searchCreators(client, "instagram", request, {
+    autoPaginate: true,
+    maxResults,
+  }) as Promise<PaginatedSearchResponse>;
+}
+
+describe("paginationOptions", () => {
+  it("only paginates when asked, collecting 100 creators by default", () => {
+    assert.deepEqual(paginationOptions({ maxResults: 50 }), {});
+    assert.deepEqual(paginationOptions({ autoPaginate: "true" }), {
+      autoPaginate: true,
+      maxResults: 100,
+    });
+    assert.throws(() => paginationOptions({ autoPaginate: true, maxResults: 1001 }), ApiError);
+    assert.throws(() => paginationOptions({ autoPaginate: true, maxResults: 0 }), ApiError);
+  });
+});
+
+describe("auto-pagination", () => {
+  afterEach(() => mock.restoreAll());
+
+  const client = () => new CreatorDBClient({ apiKey: "key", validation: "off" });
+
+  it("stops at maxResults, asking only for the creators still needed", async () => {
+    const pageSizes = stubSearch(500);
+    const response = await paginate(client(), 150);
+    assert.deepEqual(pageSizes, [100, 50]);
+    assert.equal(response.data.creators.length, 150);
+    assert.deepEqual(response.pagination, {
+      pagesFetched: 2,
+      quotaConsumed: 2,
+      returned: 150,
+      duplicatesRemoved: 0,
+      exhausted: false,
+      nextOffset: 150,
+    });
+  });
+
+  it("stops on a short page", async () => {
+    stubSearch(130);
+    const { pagination } = await paginate(client(), 500);
+    assert.equal(pagination.pagesFetched, 2);
+    assert.equal(pagination.returned, 130);
+    assert.equal(pagination.exhausted, true);
+    assert.equal(pagination.nextOffset, null);
+  });
+
+  it("stops on an empty page, or once the total is reached", async () => {
+    stubSearch(100);
+    assert.equal((await paginate(client(), 500)).pagination.pagesFetched, 2);
+    mock.restoreAll();
+
+    stubSearch(100, { withTotal: true });
+    const { pagination } = await paginate(client(), 500);
+    assert.equal(pagination.pagesFetched, 1);
+    assert.equal(pagination.exhausted, true);
+  });
+
+  it("stops when a page adds no new creators", async () => {
+    stubSearch(500, { ignoreOffset: true });
+    const { pagination } = await paginate(client(), 300);
+    assert.equal(pagination.pagesFetched, 2);
+    assert.equal(pagination.returned, 100);
+    assert.equal(pagination.duplicatesRemoved, 100);
+  });
+
+  it("stops with a budget error once the budget runs out", async () => {
+    const pageSizes = stubSearch(500);
+    const budget = new BudgetGuard({ search: { daily: 2 } }, Infinity);
+    const limited = new CreatorDBClient({ apiKey: "key", validation: "off", budget });
+    await assert.rejects(paginate(limited, 300), { code: "budget_exceeded" });
+    assert.equal(pageSizes.length, 2);
+  });
+
+  it("doesn't spend the budget on cached pages", async () => {
+    stubSearch(500);
+    const budget = new BudgetGuard({ search: { daily: 2 } }, Infinity);
+    const cached = new CreatorDBClient({
+      apiKey: "key",
+      validation: "off",
+      budget,
+      cache: new MemoryCacheStore(),
+    });
+    assert.equal((await paginate(cached, 200)).pagination.quotaConsumed, 2);
+
+    const repeat = await paginate(cached, 200);
+    assert.equal(repeat.pagination.pagesFetched, 2);
+    assert.equal(repeat.pagination.quotaConsumed, 0);
+  });
+});
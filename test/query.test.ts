@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  QueryParseError,
+  parseHumanNumber,
+  parseSearchQuery,
+  withSearchQuery,
+} from "../lib/query.js";
+
+function parseError(query: string): QueryParseError {
+  try {
+    parseSearchQuery("instagram", query);
+  } catch (error) {
+    assert.ok(error instanceof QueryParseError);
+    return error;
+  }
+  assert.fail(`expected "${query}" to be rejected`);
+}
+
+describe("parseHumanNumber", () => {
+  it("reads suffixes, separators and percentages", () => {
+    assert.equal(parseHumanNumber("100k"), 100_000);
+    assert.equal(parseHumanNumber("1.2M"), 1_200_000);
+    assert.equal(parseHumanNumber("2,500"), 2500);
+    assert.equal(parseHumanNumber("3%"), 0.03);
+    assert.equal(parseHumanNumber("lots"), undefined);
+  });
+});
+
+describe("parseSearchQuery", () => {
+  it("compiles comparisons, lists, booleans and sorting", () => {
+    assert.deepEqual(
+      parseSearchQuery(
+        "instagram",
+        "followers>100k country in (US,CA) niche:fashion er>3% verified sort:-totalFollowers"
+      ),
+      {
+        filters: [
+          { filterName: "totalFollowers", op: ">", value: 100_000 },
+          { filterName: "country", op: "in", value: ["USA", "CAN"] },
+          { filterName: "niches", op: "in", value: ["fashion"] },
+          { filterName: "avgEngagementRate", op: ">", value: 0.03 },
+          { filterName: "isVerified", op: "=", value: true },
+        ],
+        sortBy: "totalFollowers",
+        desc: true,
+      }
+    );
+  });
+
+  it("treats field:a,b as a list but keeps numbers like 1,500 whole", () => {
+    assert.deepEqual(parseSearchQuery("instagram", "country:US,CA").filters, [
+      { filterName: "country", op: "in", value: ["USA", "CAN"] },
+    ]);
+    assert.deepEqual(parseSearchQuery("instagram", "followers:1,500").filters, [
+      { filterName: "totalFollowers", op: "=", value: 1500 },
+    ]);
+  });
+
+  it("reads quoted fuzzy values and negated booleans", () => {
+    assert.deepEqual(parseSearchQuery("instagram", 'displayName~"Jane Doe" !verified').filters, [
+      { filterName: "displayName", op: "=", value: "Jane Doe", isFuzzySearch: true },
+      { filterName: "isVerified", op: "=", value: false },
+    ]);
+  });
+
+  it("points at unknown filters with a suggestion", () => {
+    const error = parseError("er>1% followrs>1k");
+    assert.equal(error.status, 400);
+    assert.equal(error.code, "invalid_query");
+    assert.equal(error.details?.position, 6);
+    assert.match(error.message, /Did you mean "totalFollowers"\?/);
+  });
+
+  it("points at the bad item of a list", () => {
+    assert.equal(parseError("country:US,ZZZZ").details?.token, "ZZZZ");
+    assert.match(parseError("country:US,,CA").message, /empty item in the list/);
+  });
+
+  it("rejects values of the wrong type and unclosed lists", () => {
+    assert.match(parseError("followers>abc").message, /expected a number/);
+    assert.match(parseError("country in (US, CA").message, /missing "\)"/);
+  });
+
+  it("reports a trailing ! as the end of the query", () => {
+    for (const query of ["!", "verified !"]) {
+      const error = parseError(query);
+      assert.match(error.message, /end of query/);
+      assert.equal(error.details?.position, query.length);
+      assert.equal(error.details?.token, "");
+    }
+  });
+});
+
+describe("withSearchQuery", () => {
+  it("appends the query's filters and applies its sort unless sortBy is given", () => {
+    const explicit = { filterName: "isVerified", op: "=", value: true };
+    assert.deepEqual(
+      withSearchQuery("instagram", {
+        query: "followers>1k sort:-followers",
+        filters: [explicit],
+        sortBy: "avgViews",
+      }),
+      {
+        filters: [explicit, { filterName: "totalFollowers", op: ">", value: 1000 }],
+        sortBy: "avgViews",
+      }
+    );
+  });
+});
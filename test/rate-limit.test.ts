@@ -0,0 +1,213 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import { describe, it } from "node:test";
+import express from "express";
+import {
+  ConcurrencyLimiter,
+  MemoryRateLimitStore,
+  RateLimiter,
+  createAuthFailureLimiter,
+  createRateLimitMiddleware,
+  loadRateLimitConfig,
+  rateLimitConfigSchema,
+  trustProxyFromEnv,
+} from "../lib/rate-limit.js";
+import { ApiError } from "../lib/errors.js";
+
+const MINUTE_MS = 60_000;
+
+// Three requests back to back, then one a minute
+const bucket = { capacity: 3, refillPerSecond: 1 / 60 };
+
+describe("MemoryRateLimitStore", () => {
+  it("empties a bucket and refills it over time", async () => {
+    const store = new MemoryRateLimitStore();
+    const take = (now: number) => store.take([{ key: "k", bucket }], now);
+
+    for (const left of [2, 1, 0]) {
+      assert.deepEqual(await take(0), [{ allowed: true, tokens: left }]);
+    }
+    assert.equal((await take(0))[0].allowed, false);
+    assert.deepEqual(await take(MINUTE_MS), [{ allowed: true, tokens: 0 }]);
+    assert.deepEqual(await take(10 * MINUTE_MS), [{ allowed: true, tokens: 2 }]);
+  });
+
+  it("takes from every bucket or from none", async () => {
+    const store = new MemoryRateLimitStore();
+    const one = { capacity: 1, refillPerSecond: 1 / 60 };
+    const requests = [
+      { key: "family", bucket },
+      { key: "all", bucket: one },
+    ];
+
+    await store.take(requests, 0);
+    const [family, all] = await store.take(requests, 0);
+    assert.deepEqual(family, { allowed: true, tokens: 2 });
+    assert.deepEqual(all, { allowed: false, tokens: 0 });
+  });
+
+  it("only checks at a cost of 0", async () => {
+    const store = new MemoryRateLimitStore();
+    await store.take([{ key: "k", bucket }], 0, 0);
+    assert.deepEqual(await store.take([{ key: "k", bucket }], 0), [{ allowed: true, tokens: 2 }]);
+  });
+
+  it("drops the least recently used bucket past its size", async () => {
+    const store = new MemoryRateLimitStore(2);
+    await store.take([{ key: "a", bucket }], 0);
+    await store.take([{ key: "b", bucket }], 0);
+    await store.take([{ key: "a", bucket }], 0);
+    await store.take([{ key: "c", bucket }], 0);
+    assert.deepEqual(await store.take([{ key: "a", bucket }], 0), [{ allowed: true, tokens: 0 }]);
+    assert.deepEqual(await store.take([{ key: "b", bucket }], 0), [{ allowed: true, tokens: 2 }]);
+  });
+});
+
+describe("RateLimiter", () => {
+  const config = rateLimitConfigSchema.parse({
+    limits: { "*": { perMinute: 60, burst: 2 }, search: { perMinute: 6, burst: 1 } },
+    clients: { etl: { "*": { perMinute: 600 } } },
+  });
+
+  it("applies the family bucket and the overall one, with client overrides", () => {
+    const limiter = new RateLimiter(config, new MemoryRateLimitStore());
+    assert.deepEqual(
+      limiter.bucketsFor(null, "search").map(([scope, { capacity }]) => [scope, capacity]),
+      [
+        ["search", 1],
+        ["*", 2],
+      ]
+    );
+    assert.deepEqual(limiter.bucketsFor("etl", "report"), [
+      ["*", { capacity: 600, refillPerSecond: 10 }],
+    ]);
+    assert.equal(limiter.bucketsFor(null, "usage").length, 1);
+  });
+
+  it("reports the tightest bucket, then the one that refused", async () => {
+    const limiter = new RateLimiter(config, new MemoryRateLimitStore());
+    const first = await limiter.take("ip:1", null, "search", 0);
+    assert.equal(first?.scope, "search");
+    assert.equal(first?.remaining, 0);
+
+    const refused = await limiter.take("ip:1", null, "search", 0);
+    assert.equal(refused?.allowed, false);
+    assert.equal(refused?.scope, "search");
+    assert.equal(refused?.retryAfter, 10);
+
+    // The refused search didn't spend the overall bucket
+    assert.equal((await limiter.take("ip:1", null, "report", 0))?.allowed, true);
+  });
+
+  it("returns undefined when no limit applies", async () => {
+    const limiter = new RateLimiter(rateLimitConfigSchema.parse({}), new MemoryRateLimitStore());
+    assert.equal(await limiter.take("ip:1", null, "search"), undefined);
+  });
+});
+
+describe("configuration", () => {
+  it("reads limits from JSON and reports bad values by path", () => {
+    assert.equal(loadRateLimitConfig({}), undefined);
+    const config = loadRateLimitConfig({ CREATORDB_RATE_LIMITS: '{"maxConcurrentUpstream":4}' });
+    assert.equal(config?.maxConcurrentUpstream, 4);
+    assert.deepEqual(config?.authFailures, { perMinute: 10 });
+    assert.throws(
+      () => loadRateLimitConfig({ CREATORDB_RATE_LIMITS: '{"limits":{"*":{"perMinute":0}}}' }),
+      /limits\.\*\.perMinute/
+    );
+  });
+
+  it("reads the trust proxy setting", () => {
+    assert.equal(trustProxyFromEnv({}), false);
+    assert.equal(trustProxyFromEnv({ CREATORDB_TRUST_PROXY: "true" }), true);
+    assert.equal(trustProxyFromEnv({ CREATORDB_TRUST_PROXY: "2" }), 2);
+    assert.equal(trustProxyFromEnv({ CREATORDB_TRUST_PROXY: "loopback" }), "loopback");
+  });
+});
+
+describe("middleware", () => {
+  async function withServer(app: express.Express, run: (url: string) => Promise<void>) {
+    const server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    try {
+      await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    } finally {
+      server.close();
+    }
+  }
+
+  it("sets rate limit headers and refuses with a 429", async () => {
+    const app = express();
+    const config = rateLimitConfigSchema.parse({ limits: { "*": { perMinute: 1 } } });
+    app.use(createRateLimitMiddleware(config, new MemoryRateLimitStore()));
+    app.get("/usage", (_req, res) => res.json({ ok: true }));
+
+    await withServer(app, async (url) => {
+      const ok = await fetch(`${url}/usage`);
+      assert.equal(ok.status, 200);
+      assert.equal(ok.headers.get("x-ratelimit-limit"), "1");
+      assert.equal(ok.headers.get("x-ratelimit-remaining"), "0");
+
+      const limited = await fetch(`${url}/usage`);
+      assert.equal(limited.status, 429);
+      assert.equal(limited.headers.get("retry-after"), "60");
+      assert.equal((await limited.json()).code, "rate_limited");
+    });
+  });
+
+  it("refuses an address after repeated failed authentication", async () => {
+    const app = express();
+    const config = rateLimitConfigSchema.parse({ authFailures: { perMinute: 2 } });
+    app.use(createAuthFailureLimiter(config, new MemoryRateLimitStore()));
+    app.get("/ok", (_req, res) => res.json({ ok: true }));
+    app.get("/denied", (_req, res) => res.status(401).json({ success: false }));
+
+    await withServer(app, async (url) => {
+      assert.equal((await fetch(`${url}/ok`)).status, 200);
+      assert.equal((await fetch(`${url}/denied`)).status, 401);
+      assert.equal((await fetch(`${url}/denied`)).status, 401);
+      // The failure is counted once the response is sent
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const refused = await fetch(`${url}/ok`);
+      assert.equal(refused.status, 429);
+      assert.match((await refused.json()).error, /failed authentication attempts/);
+    });
+  });
+});
+
+describe("ConcurrencyLimiter", () => {
+  it("runs at most max tasks at once and hands slots over in order", async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let active = 0;
+    let peak = 0;
+    const order: number[] = [];
+    await Promise.all(
+      [0, 1, 2, 3, 4].map((n) =>
+        limiter.run(async () => {
+          peak = Math.max(peak, ++active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          order.push(n);
+          active--;
+        })
+      )
+    );
+    assert.equal(peak, 2);
+    assert.deepEqual(order, [0, 1, 2, 3, 4]);
+    assert.deepEqual(limiter.status(), { max: 2, active: 0, queued: 0 });
+  });
+
+  it("fails queued tasks with a 503 after the queue timeout", async () => {
+    const limiter = new ConcurrencyLimiter(1, 10);
+    const slow = limiter.run(() => new Promise((resolve) => setTimeout(resolve, 50)));
+    await assert.rejects(
+      limiter.run(async () => "late"),
+      (error) => {
+        assert.ok(error instanceof ApiError);
+        assert.equal(error.status, 503);
+        assert.equal(error.code, "upstream_busy");
+        return true;
+      }
+    );
+    await slow;
+  });
+});
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ApiError } from "../lib/client.js";
+import { estimateRates, loadRateCards, parseDeliverables, rateCardsSchema } from "../lib/rates.js";
+
+const cards = rateCardsSchema.parse({
+  currency: "USD",
+  platforms: {
+    instagram: {
+      reachRate: 0.2,
+      deliverables: {
+        post: { cpm: [10, 20], cpe: [0.1, 0.2] },
+        story: { cpm: [5, 10], viewsFactor: 0.5 },
+      },
+    },
+    youtube: {
+      reachRate: 0.1,
+      deliverables: { video: { cpm: [20, 40], useCreatorDbPricing: true } },
+    },
+    tiktok: { reachRate: 0.3, deliverables: { video: { cpm: [5, 10] } } },
+  },
+  niches: { beauty: 1.5, fashion: 1.2 },
+  countries: { US: 1.3, "*": 0.8 },
+});
+
+const profile = {
+  totalFollowers: 100_000,
+  country: "USA",
+  niches: ["Beauty & Makeup", "Fashion"],
+};
+const performance = { avgViews: 20_000, avgLikes: 900, avgComments: 100 };
+
+describe("estimateRates", () => {
+  it("applies the most valuable niche and the creator's country", () => {
+    const { multipliers } = estimateRates(cards, "instagram", "jane", { profile, performance });
+    assert.deepEqual(multipliers, {
+      niche: { value: 1.5, matched: "beauty" },
+      country: { value: 1.3, matched: "US" },
+    });
+  });
+
+  it("averages CPM and CPE, scales by the multipliers and rounds", () => {
+    const [post, story] = estimateRates(cards, "instagram", "jane", {
+      profile,
+      performance,
+    }).deliverables;
+    // (20k views at $10-20 CPM + 1,000 engagements at $0.10-0.20) / 2 * 1.95
+    assert.deepEqual(
+      { min: post.min, max: post.max, basis: post.basis },
+      { min: 290, max: 590, basis: ["cpm", "cpe"] }
+    );
+    assert.equal(post.expectedEngagements, 1000);
+    // Half the views at $5-10 CPM * 1.95
+    assert.deepEqual(
+      { min: story.min, max: story.max, views: story.expectedViews },
+      { min: 98, max: 200, views: 10_000 }
+    );
+  });
+
+  it("falls back to the default country multiplier, then to 1", () => {
+    const elsewhere = { ...profile, country: "BRA", niches: [] };
+    const { multipliers } = estimateRates(cards, "instagram", "jane", { profile: elsewhere });
+    assert.deepEqual(multipliers, {
+      niche: { value: 1, matched: null },
+      country: { value: 0.8, matched: null },
+    });
+
+    const plain = rateCardsSchema.parse({ ...cards, niches: undefined, countries: undefined });
+    const { country } = estimateRates(plain, "instagram", "jane", { profile }).multipliers;
+    assert.deepEqual(country, { value: 1, matched: null });
+  });
+
+  it("estimates views from reach when the average is unknown", () => {
+    const [post] = estimateRates(cards, "instagram", "jane", {
+      profile: { totalFollowers: 50_000 },
+    }).deliverables;
+    assert.equal(post.expectedViews, 10_000);
+    assert.deepEqual(post.basis, ["cpm"]);
+    assert.deepEqual([post.min, post.max], [80, 160]);
+  });
+
+  it("prefers CreatorDB's own pricing where the card asks for it", () => {
+    const [video] = estimateRates(cards, "youtube", "UC1", {
+      profile: {
+        totalSubscribers: 200_000,
+        pricing: { currency: "EUR", minPrice: 500, maxPrice: 900 },
+      },
+      performance: { avgViews: 10_000 },
+    }).deliverables;
+    assert.deepEqual(
+      [video.source, video.currency, video.min, video.max],
+      ["creatordb", "EUR", 500, 900]
+    );
+    assert.deepEqual(video.rateCardEstimate, { min: 160, max: 320 });
+  });
+
+  it("prices only the requested deliverables and rejects unknown ones", () => {
+    const only = estimateRates(cards, "instagram", "jane", { profile }, parseDeliverables("story"));
+    assert.deepEqual(
+      only.deliverables.map((rate) => rate.deliverable),
+      ["story"]
+    );
+    assert.throws(
+      () => estimateRates(cards, "instagram", "jane", { profile }, ["reel"]),
+      (error) => error instanceof ApiError && error.status === 400 && /reel/.test(error.message)
+    );
+  });
+});
+
+describe("loadRateCards", () => {
+  it("reads the shipped rate cards", () => {
+    assert.ok(loadRateCards({}).platforms.instagram.deliverables);
+  });
+
+  it("reports invalid cards by path", () => {
+    const invalid = JSON.stringify({ ...cards, niches: { beauty: -1 } });
+    assert.throws(() => loadRateCards({ CREATORDB_RATE_CARDS: invalid }), /niches\.beauty/);
+  });
+});
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_RETRY_POLICY,
+  backoffDelay,
+  parseRetryAfter,
+  retryPolicyFromEnv,
+} from "../lib/retry.js";
+
+describe("retryPolicyFromEnv", () => {
+  it("reads the timeout and retry count", () => {
+    assert.deepEqual(
+      retryPolicyFromEnv({ CREATORDB_TIMEOUT_MS: "5000", CREATORDB_MAX_RETRIES: "0" }),
+      { timeoutMs: 5000, maxRetries: 0 }
+    );
+  });
+
+  it("leaves unset values to the defaults", () => {
+    assert.deepEqual(retryPolicyFromEnv({}), {});
+  });
+
+  it("rejects values that aren't valid numbers", () => {
+    assert.throws(
+      () => retryPolicyFromEnv({ CREATORDB_TIMEOUT_MS: "10s" }),
+      /CREATORDB_TIMEOUT_MS/
+    );
+    assert.throws(() => retryPolicyFromEnv({ CREATORDB_TIMEOUT_MS: "0" }), /CREATORDB_TIMEOUT_MS/);
+    assert.throws(
+      () => retryPolicyFromEnv({ CREATORDB_MAX_RETRIES: "1.5" }),
+      /CREATORDB_MAX_RETRIES/
+    );
+    assert.throws(
+      () => retryPolicyFromEnv({ CREATORDB_MAX_RETRIES: "-1" }),
+      /CREATORDB_MAX_RETRIES/
+    );
+  });
+});
+
+describe("backoffDelay", () => {
+  it("stays between 0 and the capped exponential ceiling", () => {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const delay = backoffDelay(attempt, DEFAULT_RETRY_POLICY);
+      const ceiling = Math.min(
+        DEFAULT_RETRY_POLICY.maxDelayMs,
+        DEFAULT_RETRY_POLICY.baseDelayMs * 2 ** attempt
+      );
+      assert.ok(delay >= 0 && delay <= ceiling, `attempt ${attempt}: ${delay}ms`);
+    }
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads delta-seconds", () => {
+    assert.equal(parseRetryAfter("7"), 7);
+    assert.equal(parseRetryAfter("-3"), 0);
+  });
+
+  it("reads an HTTP date", () => {
+    const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+    const seconds = parseRetryAfter(inTenSeconds)!;
+    assert.ok(seconds >= 9 && seconds <= 10, `${seconds}s`);
+  });
+
+  it("ignores missing or malformed headers", () => {
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter("soon"), undefined);
+  });
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { crc32, inflateRawSync } from "node:zlib";
+import { buildXlsx } from "../lib/xlsx.js";
+
+// Reads a zip through its central directory, checking each entry's CRC
+function unzip(archive: Buffer): Map<string, string> {
+  const end = archive.length - 22;
+  assert.equal(archive.readUInt32LE(end), 0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let entry = archive.readUInt32LE(end + 16);
+
+  const files = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    assert.equal(archive.readUInt32LE(entry), 0x02014b50);
+    const crc = archive.readUInt32LE(entry + 16);
+    const compressedSize = archive.readUInt32LE(entry + 20);
+    const nameLength = archive.readUInt16LE(entry + 28);
+    const offset = archive.readUInt32LE(entry + 42);
+    const name = archive.toString("utf8", entry + 46, entry + 46 + nameLength);
+
+    assert.equal(archive.readUInt32LE(offset), 0x04034b50);
+    const start = offset + 30 + archive.readUInt16LE(offset + 26);
+    const data = inflateRawSync(archive.subarray(start, start + compressedSize));
+    assert.equal(crc32(data), crc, `CRC of ${name}`);
+    files.set(name, data.toString("utf8"));
+    entry += 46 + nameLength;
+  }
+  return files;
+}
+
+describe("buildXlsx", () => {
+  it("writes the parts of a one-sheet workbook", () => {
+    const files = unzip(buildXlsx([["name"]], "Creators"));
+    assert.deepEqual(
+      [...files.keys()],
+      [
+        "[Content_Types].xml",
+        "_rels/.rels",
+        "xl/workbook.xml",
+        "xl/_rels/workbook.xml.rels",
+        "xl/worksheets/sheet1.xml",
+      ]
+    );
+    assert.match(files.get("xl/workbook.xml")!, /<sheet name="Creators"/);
+  });
+
+  it("writes strings, numbers and booleans and skips empty cells", () => {
+    const sheet = unzip(
+      buildXlsx([
+        ["name", "followers", "verified"],
+        ["Jane", 1500, true],
+        [null, undefined, ""],
+      ])
+    ).get("xl/worksheets/sheet1.xml")!;
+    assert.match(sheet, /<c r="A2" t="inlineStr"><is><t xml:space="preserve">Jane<\/t><\/is><\/c>/);
+    assert.match(sheet, /<c r="B2"><v>1500<\/v><\/c>/);
+    assert.match(sheet, /<c r="C2" t="b"><v>1<\/v><\/c>/);
+    assert.match(sheet, /<row r="3"><\/row>/);
+  });
+
+  it("escapes XML and names columns past Z", () => {
+    const row = Array.from({ length: 28 }, (_, i) => (i === 27 ? 'a<b & "c"\u0001' : i));
+    const sheet = unzip(buildXlsx([row])).get("xl/worksheets/sheet1.xml")!;
+    assert.match(sheet, /<c r="Z1"><v>25<\/v><\/c>/);
+    assert.match(
+      sheet,
+      /<c r="AB1" t="inlineStr"><is><t xml:space="preserve">a&lt;b &amp; &quot;c&quot;<\/t>/
+    );
+  });
+
+  it("produces the same bytes for the same rows", () => {
+    assert.deepEqual(buildXlsx([["a", 1]]), buildXlsx([["a", 1]]));
+  });
+});